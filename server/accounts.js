@@ -0,0 +1,97 @@
+import { STSClient, GetCallerIdentityCommand } from "@aws-sdk/client-sts";
+import { fromEnv, fromIni, fromTemporaryCredentials } from "@aws-sdk/credential-providers";
+import { getConfig } from './config.js';
+
+const ROLE_SESSION_NAME = 'aws-resource-dashboard';
+
+// Resolved accounts keyed by account ID
+const accountsById = new Map();
+// Credential providers keyed by profile and role, so refreshed credentials are reused
+const credentialsCache = new Map();
+
+// Helper function to extract the account ID from an ARN
+export function getAccountIdFromArn(arn) {
+  const parts = (arn || '').split(':');
+  return parts.length > 4 && /^\d{12}$/.test(parts[4]) ? parts[4] : null;
+}
+
+// Build a credential provider for an account entry from the config file.
+// A profile supplies the source credentials, falling back to the environment,
+// and a role ARN is assumed on top of them.
+function createCredentials(account) {
+  const sourceCredentials = account.profile
+    ? fromIni({ profile: account.profile })
+    : fromEnv();
+
+  if (!account.roleArn) {
+    return sourceCredentials;
+  }
+
+  return fromTemporaryCredentials({
+    masterCredentials: sourceCredentials,
+    params: {
+      RoleArn: account.roleArn,
+      RoleSessionName: account.roleSessionName || ROLE_SESSION_NAME,
+      ...(account.externalId && { ExternalId: account.externalId })
+    }
+  });
+}
+
+function getCredentials(account) {
+  const key = [account.profile, account.roleArn, account.externalId].join('|');
+  if (!credentialsCache.has(key)) {
+    credentialsCache.set(key, createCredentials(account));
+  }
+  return credentialsCache.get(key);
+}
+
+// Credentials for a resolved account, or the environment when it is unknown
+export function getAccountCredentials(accountId) {
+  const account = accountId && accountsById.get(accountId);
+  return account ? getCredentials(account) : fromEnv();
+}
+
+async function lookupAccountId(account, region) {
+  try {
+    const stsClient = new STSClient({ region, credentials: getCredentials(account) });
+    const identity = await stsClient.send(new GetCallerIdentityCommand({}));
+    return identity.Account;
+  } catch (error) {
+    console.error(`Error resolving account ID for account ${account.name || account.roleArn || 'default'}:`, error);
+    return null;
+  }
+}
+
+// Resolve the configured accounts into { accountId, name, regions, ... }
+export async function resolveAccounts() {
+  const config = getConfig();
+  const configuredAccounts = config.accounts.length > 0
+    ? config.accounts
+    : [{ name: 'default' }];
+
+  const accounts = await Promise.all(configuredAccounts.map(async (account, index) => {
+    const regions = account.regions || config.regions;
+    const accountId = account.accountId ||
+      getAccountIdFromArn(account.roleArn) ||
+      await lookupAccountId(account, regions[0]) ||
+      account.name ||
+      `account-${index + 1}`;
+
+    return {
+      ...account,
+      accountId,
+      name: account.name || accountId,
+      regions
+    };
+  }));
+
+  for (const account of accounts) {
+    accountsById.set(account.accountId, account);
+  }
+
+  return accounts;
+}
+
+export function getAccount(accountId) {
+  return accountsById.get(accountId);
+}
@@ -0,0 +1,312 @@
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname } from 'path';
+import {
+  EC2Client,
+  StartInstancesCommand,
+  StopInstancesCommand
+} from "@aws-sdk/client-ec2";
+import {
+  ECSClient,
+  UpdateServiceCommand
+} from "@aws-sdk/client-ecs";
+import {
+  RDSClient,
+  StartDBClusterCommand,
+  StopDBClusterCommand
+} from "@aws-sdk/client-rds";
+import {
+  EventBridgeClient,
+  EnableRuleCommand,
+  DisableRuleCommand
+} from "@aws-sdk/client-eventbridge";
+import {
+  SFNClient,
+  StartExecutionCommand,
+  RedriveExecutionCommand
+} from "@aws-sdk/client-sfn";
+import { getClient } from './clients.js';
+import { getConfig } from './config.js';
+import { isExecutionOf } from './stepFunctionExecutions.js';
+
+// Thrown when an action can't run as requested, e.g. it doesn't apply to the
+// resource, a parameter is invalid or the confirmation doesn't match
+export class ActionRequestError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ActionRequestError';
+  }
+}
+
+// EventBridge rule ARNs name their bus unless it is the default one:
+// arn:aws:events:<region>:<account>:rule/[<bus>/]<rule>
+function getEventBusName(resource) {
+  return resource.id.match(/:rule\/(?:([^/]+)\/)?[^/]+$/)?.[1];
+}
+
+function isEventBridgeRule(resource) {
+  return resource.type === 'eventbridge' && resource.id.includes(':rule/');
+}
+
+// The last part of an execution ARN is the execution name
+function getExecutionName(executionArn) {
+  return executionArn.split(':').pop();
+}
+
+// Send a command, or only describe it when dry running. EC2 checks permissions
+// and parameters itself on a dry run, the other services have nothing similar.
+// Resolves to the response, or undefined for a dry run.
+async function sendCommand(resource, ClientClass, command, { dryRun, nativeDryRun = false }) {
+  if (dryRun && !nativeDryRun) return;
+
+  const client = getClient(ClientClass, resource.region, resource.accountId);
+  try {
+    return await client.send(command);
+  } catch (error) {
+    // A successful EC2 dry run reports itself as an error
+    if (dryRun && error.name === 'DryRunOperation') return;
+    throw error;
+  }
+}
+
+// Actions that can be run on resources, by name:
+//   label       - shown on buttons and in confirmations
+//   appliesTo   - whether the action can run on a resource
+//   parameters  - names of the parameters the action takes
+//   validate    - optional, (params, resource) => void, throws an ActionRequestError
+//                 for invalid parameters
+//   describe    - what running the action will do, for confirmations and dry runs
+//   run         - async (resource, params, { dryRun }) => optionally { description }
+//                 of what was done, when that is only known afterwards
+const ACTIONS = {
+  start: {
+    label: 'Start',
+    appliesTo: resource => resource.type === 'ec2' || resource.type === 'aurora',
+    parameters: [],
+    describe: resource => resource.type === 'ec2'
+      ? `Start EC2 instance ${resource.id}`
+      : `Start Aurora cluster ${resource.name}`,
+    run: (resource, params, { dryRun }) => resource.type === 'ec2'
+      ? sendCommand(resource, EC2Client, new StartInstancesCommand({ InstanceIds: [resource.id], DryRun: dryRun }), { dryRun, nativeDryRun: true })
+      : sendCommand(resource, RDSClient, new StartDBClusterCommand({ DBClusterIdentifier: resource.name }), { dryRun })
+  },
+  stop: {
+    label: 'Stop',
+    appliesTo: resource => resource.type === 'ec2' || resource.type === 'aurora',
+    parameters: [],
+    describe: resource => resource.type === 'ec2'
+      ? `Stop EC2 instance ${resource.id}`
+      : `Stop Aurora cluster ${resource.name}`,
+    run: (resource, params, { dryRun }) => resource.type === 'ec2'
+      ? sendCommand(resource, EC2Client, new StopInstancesCommand({ InstanceIds: [resource.id], DryRun: dryRun }), { dryRun, nativeDryRun: true })
+      : sendCommand(resource, RDSClient, new StopDBClusterCommand({ DBClusterIdentifier: resource.name }), { dryRun })
+  },
+  'set-desired-count': {
+    label: 'Set desired count',
+    appliesTo: resource => resource.type === 'ecs',
+    parameters: ['desiredCount'],
+    validate: ({ desiredCount }) => {
+      if (!Number.isInteger(desiredCount) || desiredCount < 0) {
+        throw new ActionRequestError('`desiredCount` must be a whole number of at least 0');
+      }
+    },
+    describe: (resource, { desiredCount }) =>
+      `Change the desired count of ECS service ${resource.name} from ${resource.details?.desiredCount ?? 'unknown'} to ${desiredCount}`,
+    run: (resource, { desiredCount }, { dryRun }) => sendCommand(
+      resource,
+      ECSClient,
+      new UpdateServiceCommand({ cluster: resource.details?.clusterName, service: resource.id, desiredCount }),
+      { dryRun }
+    )
+  },
+  'force-deployment': {
+    label: 'Force new deployment',
+    appliesTo: resource => resource.type === 'ecs',
+    parameters: [],
+    describe: resource => `Replace every task of ECS service ${resource.name} with a new deployment`,
+    run: (resource, params, { dryRun }) => sendCommand(
+      resource,
+      ECSClient,
+      new UpdateServiceCommand({ cluster: resource.details?.clusterName, service: resource.id, forceNewDeployment: true }),
+      { dryRun }
+    )
+  },
+  enable: {
+    label: 'Enable',
+    appliesTo: isEventBridgeRule,
+    parameters: [],
+    describe: resource => `Enable EventBridge rule ${resource.name}`,
+    run: (resource, params, { dryRun }) => sendCommand(
+      resource,
+      EventBridgeClient,
+      new EnableRuleCommand({ Name: resource.name, EventBusName: getEventBusName(resource) }),
+      { dryRun }
+    )
+  },
+  disable: {
+    label: 'Disable',
+    appliesTo: isEventBridgeRule,
+    parameters: [],
+    describe: resource => `Disable EventBridge rule ${resource.name}`,
+    run: (resource, params, { dryRun }) => sendCommand(
+      resource,
+      EventBridgeClient,
+      new DisableRuleCommand({ Name: resource.name, EventBusName: getEventBusName(resource) }),
+      { dryRun }
+    )
+  },
+  'start-execution': {
+    label: 'Start execution',
+    appliesTo: resource => resource.type === 'stepfunctions',
+    parameters: ['input'],
+    validate: ({ input }) => {
+      try {
+        JSON.parse(input);
+      } catch {
+        throw new ActionRequestError('`input` must be a JSON document, e.g. {}');
+      }
+    },
+    describe: resource => `Start an execution of state machine ${resource.name}`,
+    run: async (resource, { input }, { dryRun }) => {
+      const response = await sendCommand(
+        resource,
+        SFNClient,
+        new StartExecutionCommand({ stateMachineArn: resource.id, input }),
+        { dryRun }
+      );
+      return response && {
+        description: `Started execution ${getExecutionName(response.executionArn)} of state machine ${resource.name}`
+      };
+    }
+  },
+  'redrive-execution': {
+    label: 'Redrive execution',
+    // Express workflows can't be redriven
+    appliesTo: resource => resource.type === 'stepfunctions' && resource.details?.stateMachineType !== 'EXPRESS',
+    parameters: ['executionArn'],
+    validate: ({ executionArn }, resource) => {
+      if (!isExecutionOf(resource, executionArn)) {
+        throw new ActionRequestError(`\`executionArn\` must be an execution of state machine ${resource.name}`);
+      }
+    },
+    describe: (resource, { executionArn }) =>
+      `Redrive execution ${getExecutionName(executionArn)} of state machine ${resource.name} from the state it failed in`,
+    run: (resource, { executionArn }, { dryRun }) => sendCommand(
+      resource,
+      SFNClient,
+      new RedriveExecutionCommand({ executionArn }),
+      { dryRun }
+    )
+  }
+};
+
+// Actions a resource offers, with the parameters they take
+export function getResourceActions(resource) {
+  if (!getConfig().actions.enabled || resource.source === 'custom') return [];
+
+  return Object.entries(ACTIONS)
+    .filter(([, action]) => action.appliesTo(resource))
+    .map(([name, action]) => ({ name, label: action.label, parameters: action.parameters }));
+}
+
+// Append an entry to the audit log. Entries are JSON lines and are never rewritten.
+async function audit(entry) {
+  const { auditLogFile } = getConfig().actions;
+  await mkdir(dirname(auditLogFile), { recursive: true });
+  await appendFile(auditLogFile, `${JSON.stringify(entry)}\n`, 'utf8');
+}
+
+// Audit an entry without letting a broken log hide what happened to the
+// action. Resolves to whether the entry was recorded.
+async function tryAudit(entry) {
+  try {
+    await audit(entry);
+    return true;
+  } catch (error) {
+    console.error(`Error appending ${entry.action} on ${entry.resourceId} to the audit log:`, error);
+    return false;
+  }
+}
+
+// Check an action request, resolving to the action and the parameters it
+// takes. Throws an ActionRequestError when it can't run as requested.
+function checkActionRequest(resource, actionName, { params, dryRun, confirm }) {
+  const action = Object.hasOwn(ACTIONS, actionName) ? ACTIONS[actionName] : undefined;
+  if (!action || !getResourceActions(resource).some(a => a.name === actionName)) {
+    throw new ActionRequestError(`Action ${actionName} is not available for ${resource.type} resource ${resource.name}`);
+  }
+
+  // Only the parameters the action takes are used and recorded
+  const actionParams = Object.fromEntries(action.parameters.map(name => [name, params[name]]));
+  action.validate?.(actionParams, resource);
+
+  if (!dryRun && confirm !== resource.name) {
+    throw new ActionRequestError(`Type the resource name ${resource.name} to confirm`);
+  }
+  return { action, actionParams };
+}
+
+// Run an action on a resource, or check it without changing anything when
+// dry running. The resource name must be typed back as `confirm` for a real
+// run. Every attempt is audited: rejected requests, dry runs and failures
+// included. An action that ran but couldn't be audited still returns its
+// result, with `audited: false`.
+export async function runResourceAction(resource, actionName, { params = {}, dryRun = false, confirm, actor }) {
+  const entry = {
+    at: new Date().toISOString(),
+    actor,
+    action: actionName,
+    resourceId: resource.id,
+    resourceName: resource.name,
+    resourceType: resource.type,
+    accountId: resource.accountId,
+    region: resource.region,
+    params: {},
+    dryRun
+  };
+
+  let checked;
+  try {
+    checked = checkActionRequest(resource, actionName, { params, dryRun, confirm });
+  } catch (error) {
+    await tryAudit({ ...entry, outcome: 'rejected', error: error.message });
+    throw error;
+  }
+
+  const { action, actionParams } = checked;
+  entry.params = actionParams;
+  entry.description = action.describe(resource, actionParams);
+
+  let performed;
+  try {
+    performed = await action.run(resource, actionParams, { dryRun });
+  } catch (error) {
+    await tryAudit({ ...entry, outcome: 'failed', error: error.message });
+    throw error;
+  }
+
+  // Some actions only know what they did afterwards, e.g. the execution they started
+  const performedDescription = performed?.description || entry.description;
+  const audited = await tryAudit({ ...entry, description: performedDescription, outcome: 'succeeded' });
+  return { action: actionName, resourceId: resource.id, dryRun, description: performedDescription, audited };
+}
+
+// The most recent audit log entries, newest first
+export async function getAuditLog({ resourceId, limit = 100 } = {}) {
+  const { auditLogFile } = getConfig().actions;
+
+  let contents;
+  try {
+    contents = await readFile(auditLogFile, 'utf8');
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  return contents
+    .split('\n')
+    .filter(Boolean)
+    .map(line => JSON.parse(line))
+    .filter(entry => !resourceId || entry.resourceId === resourceId)
+    .reverse()
+    .slice(0, limit);
+}
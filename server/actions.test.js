@@ -0,0 +1,53 @@
+import { describe, it, before, after, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { getConfig } from './config.js';
+import { runResourceAction, getAuditLog, ActionRequestError } from './actions.js';
+import { mockClients, restoreClients } from './testing/mockClients.js';
+
+const instance = { id: 'i-0abc', name: 'web', type: 'ec2', accountId: '123456789012', region: 'us-east-1' };
+const actor = { user: 'ops', verified: false, ip: '127.0.0.1' };
+
+describe('resource actions', () => {
+  let directory;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'aws-dashboard-actions-'));
+    Object.assign(getConfig().actions, { enabled: true, auditLogFile: join(directory, 'audit.log') });
+  });
+
+  afterEach(restoreClients);
+  after(() => rm(directory, { recursive: true, force: true }));
+
+  it('audits rejected attempts', async () => {
+    await assert.rejects(
+      runResourceAction(instance, 'stop', { confirm: 'wrong', actor }),
+      ActionRequestError
+    );
+    await assert.rejects(
+      runResourceAction(instance, 'delete', { confirm: 'web', actor }),
+      ActionRequestError
+    );
+
+    const [unknown, unconfirmed] = await getAuditLog({ resourceId: instance.id });
+    assert.deepEqual([unknown.action, unknown.outcome], ['delete', 'rejected']);
+    assert.deepEqual([unconfirmed.action, unconfirmed.outcome], ['stop', 'rejected']);
+    assert.match(unconfirmed.error, /to confirm/);
+  });
+
+  it('returns the result of an action it could not audit', async () => {
+    const calls = mockClients({ StopInstancesCommand: {} });
+    // The log's directory can't be created where a file is
+    const blocked = join(directory, 'blocked');
+    await writeFile(blocked, '');
+    getConfig().actions.auditLogFile = join(blocked, 'audit.log');
+
+    const result = await runResourceAction(instance, 'stop', { confirm: 'web', actor });
+
+    assert.equal(calls.length, 1);
+    assert.equal(result.audited, false);
+    assert.equal(result.description, 'Stop EC2 instance i-0abc');
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  CloudWatchClient,
+  DescribeAlarmsCommand
+} from "@aws-sdk/client-cloudwatch";
+import { getClient } from './clients.js';
+import { paginate } from './pagination.js';
+import { getMetricDefinitions } from './metrics.js';
+
+// Metrics an alarm watches: its single metric, or every metric of its math expression
+function getAlarmMetrics(alarm) {
+  if (alarm.MetricName) {
+    return [{ namespace: alarm.Namespace, metricName: alarm.MetricName, dimensions: alarm.Dimensions || [] }];
+  }
+  return (alarm.Metrics || [])
+    .filter(query => query.MetricStat?.Metric)
+    .map(({ MetricStat: { Metric } }) => ({
+      namespace: Metric.Namespace,
+      metricName: Metric.MetricName,
+      dimensions: Metric.Dimensions || []
+    }));
+}
+
+function toAlarm(alarm, metric) {
+  return {
+    name: alarm.AlarmName,
+    arn: alarm.AlarmArn,
+    state: alarm.StateValue,
+    stateReason: alarm.StateReason,
+    stateUpdatedAt: alarm.StateUpdatedTimestamp?.toISOString(),
+    namespace: metric.namespace,
+    metricName: metric.metricName
+  };
+}
+
+// Metric alarms of a region. Composite alarms watch other alarms rather than
+// metrics, so they can't be traced to a resource.
+export async function getMetricAlarms({ region, accountId }) {
+  const cloudWatchClient = getClient(CloudWatchClient, region, accountId);
+
+  return paginate(
+    cloudWatchClient,
+    page => new DescribeAlarmsCommand({ AlarmTypes: ['MetricAlarm'], ...page }),
+    { inputToken: 'NextToken', outputToken: 'NextToken', itemsKey: 'MetricAlarms' }
+  );
+}
+
+// Attach alarms to the resources whose metrics they watch. An alarm belongs to a
+// resource when it watches a metric in one of the resource's namespaces and its
+// dimensions include every dimension identifying the resource, e.g. a Lambda
+// alarm on FunctionName, or a load balancer alarm on LoadBalancer and TargetGroup.
+export function attachAlarms(resources, metricAlarms) {
+  // Dimensions identifying each resource, by namespace
+  const signaturesByNamespace = new Map();
+  for (const resource of resources) {
+    const seen = new Set();
+    for (const { namespace, dimensions } of getMetricDefinitions(resource)) {
+      const key = `${namespace}|${JSON.stringify(dimensions)}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      if (!signaturesByNamespace.has(namespace)) signaturesByNamespace.set(namespace, []);
+      signaturesByNamespace.get(namespace).push({ resource, dimensions: Object.entries(dimensions) });
+    }
+  }
+
+  const alarmsByResource = new Map();
+  for (const alarm of metricAlarms) {
+    for (const metric of getAlarmMetrics(alarm)) {
+      const alarmDimensions = new Map(metric.dimensions.map(({ Name, Value }) => [Name, Value]));
+
+      for (const { resource, dimensions } of signaturesByNamespace.get(metric.namespace) || []) {
+        if (!dimensions.every(([name, value]) => alarmDimensions.get(name) === value)) continue;
+
+        const alarms = alarmsByResource.get(resource.id) || [];
+        // A math expression may watch several metrics of the same resource
+        if (!alarms.some(a => a.arn === alarm.AlarmArn)) {
+          alarms.push(toAlarm(alarm, metric));
+        }
+        alarmsByResource.set(resource.id, alarms);
+      }
+    }
+  }
+
+  return resources.map(resource => {
+    const alarms = alarmsByResource.get(resource.id);
+    return alarms ? { ...resource, alarms } : resource;
+  });
+}
@@ -0,0 +1,210 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  resourcesResponseSchema,
+  inventoryDiffSchema,
+  ecsServiceTasksResponseSchema,
+  actionRequestSchema,
+  formatContractIssues
+} from '../shared/apiContract.js';
+import { mockClients, restoreClients } from './testing/mockClients.js';
+import { getConfig } from './config.js';
+import { getAllResources } from './aws.js';
+import { diffInventories } from './inventoryDiff.js';
+import { getServiceTasks } from './ecsTasks.js';
+
+const accountId = '123456789012';
+const region = 'us-east-1';
+const arn = (service, resource) => `arn:aws:${service}:${region}:${accountId}:${resource}`;
+const createdAt = new Date('2026-01-01T00:00:00Z');
+
+// One resource of every built-in collector, with the optional parts filled in
+const responses = {
+  ListClustersCommand: { clusterArns: [arn('ecs', 'cluster/main')] },
+  ListServicesCommand: { serviceArns: [arn('ecs', 'service/main/api')] },
+  DescribeServicesCommand: {
+    services: [{
+      serviceArn: arn('ecs', 'service/main/api'),
+      serviceName: 'api',
+      status: 'ACTIVE',
+      runningCount: 2,
+      desiredCount: 2,
+      pendingCount: 0,
+      taskDefinition: arn('ecs', 'task-definition/api:7'),
+      deployments: [{ status: 'PRIMARY', rolloutState: 'COMPLETED', updatedAt: createdAt }],
+      events: [{ id: 'e1', message: 'service api has reached a steady state.', createdAt }]
+    }]
+  },
+  ListTagsForResourceCommand: { tags: [{ key: 'app', value: 'shop' }], Tags: [{ Key: 'app', Value: 'shop' }] },
+  ListFunctionsCommand: {
+    Functions: [{ FunctionArn: arn('lambda', 'function:checkout'), FunctionName: 'checkout', State: 'Active', Role: arn('iam', 'role/checkout') }]
+  },
+  ListTagsCommand: { Tags: { app: 'shop' } },
+  DescribeDBClustersCommand: {
+    DBClusters: [{ DBClusterArn: arn('rds', 'cluster:orders'), DBClusterIdentifier: 'orders', Status: 'available' }]
+  },
+  DescribeDBInstancesCommand: {
+    DBInstances: [{
+      DBInstanceArn: arn('rds', 'db:orders-1'),
+      DBInstanceIdentifier: 'orders-1',
+      DBClusterIdentifier: 'orders',
+      DBInstanceStatus: 'available',
+      DBInstanceClass: 'db.r6g.large',
+      VpcSecurityGroups: [{ VpcSecurityGroupId: 'sg-1' }],
+      Endpoint: { Address: 'orders-1.example.com', Port: 5432 }
+    }]
+  },
+  DescribeInstancesCommand: {
+    Reservations: [{
+      Instances: [{ InstanceId: 'i-1', State: { Name: 'stopped' }, InstanceType: 't3.micro', Tags: [{ Key: 'Name', Value: 'bastion' }] }]
+    }]
+  },
+  ListStateMachinesCommand: {
+    stateMachines: [{ stateMachineArn: arn('states', 'stateMachine:fulfil'), name: 'fulfil', status: 'ACTIVE', creationDate: createdAt }]
+  },
+  DescribeStateMachineCommand: {
+    type: 'STANDARD',
+    definition: JSON.stringify({
+      StartAt: 'Charge',
+      States: {
+        Charge: { Type: 'Task', Resource: 'arn:aws:states:::lambda:invoke', Parameters: { FunctionName: arn('lambda', 'function:checkout') }, Next: 'Done' },
+        Done: { Type: 'Succeed' }
+      }
+    })
+  },
+  ListExecutionsCommand: { executions: [{ status: 'SUCCEEDED' }, { status: 'FAILED' }] },
+  GetRestApisCommand: { items: [{ id: 'rest1', name: 'storefront', createdDate: createdAt }] },
+  GetApisCommand: { Items: [{ ApiId: 'http1', Name: 'webhooks', ProtocolType: 'HTTP', ApiEndpoint: 'https://http1.example.com' }] },
+  GetRoutesCommand: { Items: [{ RouteKey: 'POST /orders', Target: 'integrations/int1', AuthorizationType: 'NONE' }] },
+  GetIntegrationsCommand: { Items: [{ IntegrationId: 'int1', IntegrationType: 'AWS_PROXY', IntegrationUri: arn('lambda', 'function:checkout') }] },
+  ListEventBusesCommand: { EventBuses: [{ Name: 'default', Arn: arn('events', 'event-bus/default') }] },
+  ListRulesCommand: { Rules: [{ Name: 'nightly', Arn: arn('events', 'rule/nightly'), State: 'ENABLED', ScheduleExpression: 'rate(1 day)' }] },
+  DescribeLoadBalancersCommand: {
+    LoadBalancers: [{
+      LoadBalancerArn: arn('elasticloadbalancing', 'loadbalancer/app/web/1'),
+      LoadBalancerName: 'web',
+      Type: 'application',
+      State: { Code: 'active' },
+      DNSName: 'web.example.com',
+      Scheme: 'internet-facing',
+      AvailabilityZones: [{ ZoneName: 'us-east-1a' }]
+    }]
+  },
+  ListBucketsCommand: { Buckets: [{ Name: 'assets', BucketRegion: region, CreationDate: createdAt }] },
+  GetBucketVersioningCommand: { Status: 'Enabled' },
+  ListTablesCommand: { TableNames: ['carts'] },
+  DescribeTableCommand: {
+    Table: { TableArn: arn('dynamodb', 'table/carts'), TableName: 'carts', TableStatus: 'ACTIVE', ItemCount: 3, CreationDateTime: createdAt }
+  },
+  ListQueuesCommand: { QueueUrls: [`https://sqs.${region}.amazonaws.com/${accountId}/orders`] },
+  GetQueueAttributesCommand: { Attributes: { QueueArn: arn('sqs', 'orders'), ApproximateNumberOfMessages: '4' } },
+  ListTopicsCommand: { Topics: [{ TopicArn: arn('sns', 'order-events') }] },
+  ListSubscriptionsByTopicCommand: {
+    Subscriptions: [{ SubscriptionArn: arn('sns', 'order-events:1'), Protocol: 'sqs', Endpoint: arn('sqs', 'orders') }]
+  },
+  DescribeAlarmsCommand: {
+    MetricAlarms: [{
+      AlarmName: 'checkout-errors',
+      AlarmArn: arn('cloudwatch', 'alarm:checkout-errors'),
+      StateValue: 'ALARM',
+      StateReason: 'Threshold crossed',
+      StateUpdatedTimestamp: createdAt,
+      Namespace: 'AWS/Lambda',
+      MetricName: 'Errors',
+      Dimensions: [{ Name: 'FunctionName', Value: 'checkout' }]
+    }]
+  }
+};
+
+function assertMatches(schema, payload) {
+  const result = schema.safeParse(payload);
+  assert.ok(result.success, result.success ? '' : formatContractIssues(result.error).join('\n'));
+}
+
+// Payloads built by the server from (mocked) AWS responses must parse with the
+// schemas the client validates them against
+describe('API contract', () => {
+  let inventory;
+
+  before(async () => {
+    process.env.DASHBOARD_CONFIG = join(tmpdir(), 'aws-dashboard-contract-test.json');
+    const config = getConfig();
+    config.accounts = [{ accountId, name: 'test' }];
+    config.regions = [region];
+    config.customResourcesFile = join(tmpdir(), 'aws-dashboard-contract-test.yaml');
+
+    mockClients(responses);
+    inventory = await getAllResources();
+  });
+
+  after(restoreClients);
+
+  it('collects a resource of every collector without errors', () => {
+    assert.deepEqual(inventory.errors, []);
+    const types = new Set(inventory.resources.map(resource => resource.type));
+    for (const type of ['ecs', 'lambda', 'aurora', 'aurora-instance', 'ec2', 'stepfunctions', 'apigateway', 'eventbridge', 'alb', 's3', 'dynamodb', 'sqs', 'sns']) {
+      assert.ok(types.has(type), `no ${type} resource collected`);
+    }
+  });
+
+  it('matches the resources response', () => {
+    assertMatches(resourcesResponseSchema, {
+      ...inventory,
+      fetchedAt: new Date().toISOString(),
+      ageSeconds: 0,
+      refreshing: false
+    });
+  });
+
+  it('matches the inventory diff streamed after a refresh', () => {
+    const current = inventory.resources.map(resource =>
+      resource.type === 'ec2' ? { ...resource, status: 'running' } : resource
+    );
+    const diff = diffInventories(inventory.resources.slice(1), current);
+
+    assertMatches(inventoryDiffSchema, {
+      fetchedAt: new Date().toISOString(),
+      applications: inventory.applications,
+      errors: inventory.errors,
+      ...diff
+    });
+  });
+
+  it('matches the ECS task drill-down', async () => {
+    mockClients({
+      ListTasksCommand: { taskArns: [arn('ecs', 'task/main/abc')] },
+      DescribeTasksCommand: {
+        tasks: [{
+          taskArn: arn('ecs', 'task/main/abc'),
+          taskDefinitionArn: arn('ecs', 'task-definition/api:7'),
+          lastStatus: 'STOPPED',
+          stoppedReason: 'Essential container in task exited',
+          stoppedAt: createdAt,
+          containers: [{ name: 'api', exitCode: 137, reason: 'OutOfMemoryError: Container killed due to memory usage' }]
+        }]
+      },
+      DescribeTaskDefinitionCommand: {
+        taskDefinition: {
+          taskDefinitionArn: arn('ecs', 'task-definition/api:7'),
+          family: 'api',
+          revision: 7,
+          memory: '512',
+          containerDefinitions: [{ name: 'api', image: 'api:latest', portMappings: [{ containerPort: 8080 }] }]
+        }
+      }
+    });
+    const service = inventory.resources.find(resource => resource.type === 'ecs');
+
+    assertMatches(ecsServiceTasksResponseSchema, await getServiceTasks(service));
+  });
+
+  it('accepts action requests only with an object of params', () => {
+    assert.deepEqual(actionRequestSchema.parse({}), { params: {}, dryRun: false });
+    assert.ok(actionRequestSchema.safeParse({ params: { desiredCount: 2 }, confirm: 'api' }).success);
+    for (const params of [null, [], 'desiredCount=2']) {
+      assert.ok(!actionRequestSchema.safeParse({ params }).success, `params ${JSON.stringify(params)} accepted`);
+    }
+  });
+});
@@ -0,0 +1,46 @@
+import { formatContractIssues, resourceSchema } from '../shared/apiContract.js';
+
+// Validate a response body against the shared API contract before sending it.
+// Only fields the contract knows about are sent; a body that breaks the
+// contract is logged and replaced with a 500 listing the offending fields.
+export function sendValidated(res, schema, payload) {
+  const result = schema.safeParse(payload);
+  
+  if (!result.success) {
+    const issues = formatContractIssues(result.error);
+    console.error(`Response for ${res.req?.originalUrl} failed API contract validation:`, issues);
+    return res.status(500).json({
+      error: 'Response failed API contract validation',
+      issues
+    });
+  }
+  
+  return res.json(result.data);
+}
+
+// Leave out resources that break the contract so one malformed resource doesn't
+// fail a whole inventory response. Each one is reported as an error of the
+// `api-contract` collector instead.
+export function excludeInvalidResources(resources) {
+  const valid = [];
+  const errors = [];
+
+  for (const resource of resources) {
+    const result = resourceSchema.safeParse(resource);
+    if (result.success) {
+      valid.push(resource);
+      continue;
+    }
+
+    const issues = formatContractIssues(result.error);
+    console.error(`Resource ${resource?.id} failed API contract validation:`, issues);
+    errors.push({
+      collector: 'api-contract',
+      region: typeof resource?.region === 'string' ? resource.region : 'unknown',
+      accountId: typeof resource?.accountId === 'string' ? resource.accountId : undefined,
+      message: `Resource ${resource?.id} was left out because it failed API contract validation: ${issues.join('; ')}`
+    });
+  }
+
+  return { resources: valid, errors };
+}
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { excludeInvalidResources } from './apiValidation.js';
+
+const resource = id => ({
+  id,
+  name: id,
+  type: 'lambda',
+  status: 'running',
+  region: 'us-east-1',
+  accountId: '123456789012',
+  application: 'shop',
+  tags: {},
+  lastUpdated: '2026-01-01T00:00:00.000Z'
+});
+
+describe('excludeInvalidResources', () => {
+  it('keeps valid resources and reports the invalid ones as errors', () => {
+    const broken = { ...resource('broken'), status: 'available' };
+
+    const { resources, errors } = excludeInvalidResources([resource('one'), broken, resource('two')]);
+
+    assert.deepEqual(resources.map(r => r.id), ['one', 'two']);
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].collector, 'api-contract');
+    assert.equal(errors[0].region, 'us-east-1');
+    assert.match(errors[0].message, /broken.*status/);
+  });
+});
@@ -0,0 +1,165 @@
+// Application assigned when no grouping rule matches
+export const UNKNOWN_APPLICATION = 'Unknown';
+
+// Relationship types followed by `inherit` rules that don't list their own
+const DEFAULT_INHERIT_RELATIONSHIP_TYPES = ['instance_of', 'part_of'];
+
+function compileRegex(rule, index) {
+  try {
+    return new RegExp(rule.pattern, rule.flags);
+  } catch (error) {
+    throw new Error(`Invalid pattern in grouping rule ${index}: ${error.message}`);
+  }
+}
+
+// The application named by a regex match: the rule's `application` template
+// ($1, $2... refer to capture groups), else the first capture group, else the whole match
+function applicationFromMatch(match, rule) {
+  if (rule.application) {
+    return rule.application.replace(/\$(\d)/g, (_, group) => match[group] ?? '');
+  }
+  return match[1] ?? match[0];
+}
+
+function matchTag(rule, regex, resource) {
+  for (const key of rule.keys) {
+    const value = resource.tags?.[key];
+    if (!value) continue;
+
+    if (!regex) {
+      return { application: value, description: `tag ${key}` };
+    }
+    const match = value.match(regex);
+    if (match) {
+      return { application: applicationFromMatch(match, rule), description: `tag ${key} matches ${regex}` };
+    }
+  }
+  return null;
+}
+
+function matchField(field, label, rule, regex, resource) {
+  const match = resource[field]?.match(regex);
+  return match
+    ? { application: applicationFromMatch(match, rule), description: `${label} matches ${regex}` }
+    : null;
+}
+
+// Turn a rule from the config into { type, resourceTypes, index, match(resource, context) }
+function compileRule(rule, index) {
+  switch (rule.type) {
+    case 'tag': {
+      if (!Array.isArray(rule.keys) || rule.keys.length === 0) {
+        throw new Error(`Grouping rule ${index} (tag) needs a list of tag keys`);
+      }
+      const regex = rule.pattern ? compileRegex(rule, index) : null;
+      return { ...rule, index, match: resource => matchTag(rule, regex, resource) };
+    }
+    case 'name':
+    case 'arn': {
+      if (!rule.pattern) {
+        throw new Error(`Grouping rule ${index} (${rule.type}) needs a pattern`);
+      }
+      const regex = compileRegex(rule, index);
+      return rule.type === 'name'
+        ? { ...rule, index, match: resource => matchField('name', 'name', rule, regex, resource) }
+        : { ...rule, index, match: resource => matchField('id', 'ARN', rule, regex, resource) };
+    }
+    case 'inherit': {
+      const relationshipTypes = rule.relationshipTypes || DEFAULT_INHERIT_RELATIONSHIP_TYPES;
+      return {
+        ...rule,
+        index,
+        match: (resource, { parentsOf, resolve }) => {
+          for (const { parent, type } of parentsOf(resource)) {
+            if (!relationshipTypes.includes(type)) continue;
+
+            const inherited = resolve(parent);
+            if (inherited && inherited.application !== UNKNOWN_APPLICATION) {
+              return { application: inherited.application, description: `inherited from ${parent.name} (${type})` };
+            }
+          }
+          return null;
+        }
+      };
+    }
+    default:
+      throw new Error(`Grouping rule ${index} has unknown type "${rule.type}"`);
+  }
+}
+
+// Compile the grouping rules of the config. Invalid rules are left out and
+// returned as errors, the others keep their position in the config.
+export function compileGroupingRules(rules = []) {
+  const compiledRules = [];
+  const errors = [];
+  rules.forEach((rule, index) => {
+    try {
+      compiledRules.push(compileRule(rule, index));
+    } catch (error) {
+      errors.push(error);
+    }
+  });
+  return { rules: compiledRules, errors };
+}
+
+// Assign every resource to an application using the ordered grouping rules
+// compiled by compileGroupingRules. The first matching rule wins and is
+// recorded in `groupedBy`. Resources that already carry `groupedBy` (e.g. an
+// application declared in the custom resources file) are left alone. `inherit`
+// rules follow the relationships known at collection time, from a resource to
+// the resource it belongs to.
+export function assignApplications(resources, relationships, compiledRules) {
+  const resourcesById = new Map(resources.map(r => [r.id, r]));
+
+  const parentEdges = new Map();
+  for (const rel of relationships) {
+    if (!parentEdges.has(rel.sourceId)) parentEdges.set(rel.sourceId, []);
+    parentEdges.get(rel.sourceId).push(rel);
+  }
+
+  const parentsOf = resource => (parentEdges.get(resource.id) || [])
+    .map(rel => ({ parent: resourcesById.get(rel.targetId), type: rel.type }))
+    .filter(({ parent }) => parent);
+
+  const assignments = new Map();
+  const resolving = new Set();
+
+  function resolve(resource) {
+    if (assignments.has(resource.id)) return assignments.get(resource.id);
+    if (resource.groupedBy) {
+      const declared = { application: resource.application, groupedBy: resource.groupedBy };
+      assignments.set(resource.id, declared);
+      return declared;
+    }
+    // A relationship cycle can't decide the application
+    if (resolving.has(resource.id)) return null;
+
+    resolving.add(resource.id);
+    let assignment = {
+      application: UNKNOWN_APPLICATION,
+      groupedBy: { rule: null, type: 'default', description: 'no grouping rule matched' }
+    };
+
+    for (const rule of compiledRules) {
+      if (rule.resourceTypes && !rule.resourceTypes.includes(resource.type)) continue;
+
+      const match = rule.match(resource, { parentsOf, resolve });
+      if (match?.application) {
+        assignment = {
+          application: match.application,
+          groupedBy: { rule: rule.index, type: rule.type, description: rule.name || match.description }
+        };
+        break;
+      }
+    }
+
+    resolving.delete(resource.id);
+    assignments.set(resource.id, assignment);
+    return assignment;
+  }
+
+  return resources.map(resource => ({
+    ...resource,
+    ...resolve(resource)
+  }));
+}
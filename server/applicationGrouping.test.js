@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileGroupingRules, assignApplications } from './applicationGrouping.js';
+
+const resource = (id, tags = {}) => ({ id, name: id, type: 'ecs', tags });
+
+describe('application grouping', () => {
+  it('skips invalid rules and reports them', () => {
+    const { rules, errors } = compileGroupingRules([
+      { type: 'name', pattern: '(' },
+      { type: 'tag' },
+      { type: 'tag', keys: ['app'] },
+      { type: 'owner' }
+    ]);
+
+    assert.deepEqual(rules.map(rule => rule.index), [2]);
+    assert.equal(errors.length, 3);
+    assert.match(errors[0].message, /Invalid pattern in grouping rule 0/);
+    assert.match(errors[2].message, /unknown type "owner"/);
+  });
+
+  it('groups with the valid rules, recording their position in the config', () => {
+    const { rules } = compileGroupingRules([
+      { type: 'name', pattern: '[' },
+      { type: 'tag', keys: ['app'] },
+      { type: 'name', pattern: '^(\\w+)-' }
+    ]);
+
+    const [tagged, named, other] = assignApplications(
+      [resource('worker', { app: 'shop' }), resource('billing-api'), resource('misc')],
+      [],
+      rules
+    );
+
+    assert.deepEqual([tagged.application, tagged.groupedBy.rule], ['shop', 1]);
+    assert.deepEqual([named.application, named.groupedBy.rule], ['billing', 2]);
+    assert.deepEqual([other.application, other.groupedBy.type], ['Unknown', 'default']);
+  });
+});
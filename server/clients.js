@@ -0,0 +1,24 @@
+import { getAccountCredentials } from './accounts.js';
+
+const defaultClientFactory = (ClientClass, config) => new ClientClass(config);
+let clientFactory = defaultClientFactory;
+
+// Replace how SDK clients are constructed, e.g. with mocked clients in tests.
+// Call without arguments to restore the default factory.
+export function setClientFactory(factory = defaultClientFactory) {
+  clientFactory = factory;
+}
+
+// Initialize clients with the credentials of the account that owns the resource
+export const getClient = (ClientClass, region, accountId) => {
+  try {
+    const config = {
+      region,
+      credentials: getAccountCredentials(accountId)
+    };
+    return clientFactory(ClientClass, config);
+  } catch (error) {
+    console.error(`Error initializing AWS client for region ${region}:`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,324 @@
+import {
+  APIGatewayClient,
+  GetRestApisCommand,
+  GetStagesCommand,
+  GetResourcesCommand,
+  GetAuthorizersCommand,
+  GetVpcLinksCommand
+} from "@aws-sdk/client-api-gateway";
+import {
+  ApiGatewayV2Client,
+  GetApisCommand,
+  GetStagesCommand as GetV2StagesCommand,
+  GetRoutesCommand,
+  GetIntegrationsCommand,
+  GetAuthorizersCommand as GetV2AuthorizersCommand
+} from "@aws-sdk/client-apigatewayv2";
+import { getClient } from '../clients.js';
+import { paginate } from '../pagination.js';
+import { RelationshipType, findReferencedResource } from '../resourceRelationships.js';
+
+// Dashboard status for each API status
+const API_STATUSES = {
+  'AVAILABLE': 'running',
+  'PENDING': 'pending',
+  'FAILED': 'stopped',
+  'DELETING': 'pending'
+};
+
+// Lambda integration and authorizer URIs wrap the function ARN:
+// arn:aws:apigateway:<region>:lambda:path/2015-03-31/functions/<function ARN>/invocations
+const LAMBDA_INVOCATION_URI_PATTERN = /:lambda:path\/[^/]+\/functions\/(arn:[^/]+)\/invocations/;
+
+// HTTP API VPC link integrations point at a load balancer listener
+const LISTENER_ARN_PATTERN = /^(arn:aws[\w-]*:elasticloadbalancing:[\w-]+:\d+:)listener\/((?:app|net)\/[^/]+\/[^/]+)\/[^/]+$/;
+
+const STAGE_VARIABLE_PATTERN = /\$\{stageVariables\.([\w-]+)\}/g;
+
+// The Lambda function behind an integration or authorizer URI, or the URI itself
+function getInvocationTarget(uri) {
+  if (!uri) return undefined;
+  return uri.match(LAMBDA_INVOCATION_URI_PATTERN)?.[1] || uri;
+}
+
+// The stage most recently deployed to, reported as the API's endpoint
+function getLatestStage(stages) {
+  return [...stages].sort((a, b) => (b.lastUpdated || '').localeCompare(a.lastUpdated || ''))[0];
+}
+
+function toApiResource({ id, name, region, tags, createdDate, protocolType, stages, routes }) {
+  const latestStage = getLatestStage(stages);
+
+  return {
+    id,
+    name,
+    type: 'apigateway',
+    // APIs have no lifecycle state, an existing API is available
+    status: 'running',
+    region,
+    tags: tags || {},
+    lastUpdated: createdDate?.toISOString(),
+    details: {
+      protocolType,
+      endpoint: latestStage?.invokeUrl,
+      stage: latestStage?.name,
+      stages,
+      routes
+    }
+  };
+}
+
+// REST API with its stages and a route per resource method
+async function getRestApi(apiClient, api, region, vpcLinks) {
+  const [{ item: stages = [] }, apiResources, authorizers] = await Promise.all([
+    apiClient.send(new GetStagesCommand({ restApiId: api.id })),
+    paginate(
+      apiClient,
+      // Without embedding methods, resources only list their method names
+      page => new GetResourcesCommand({ restApiId: api.id, embed: ['methods'], ...page }),
+      { inputToken: 'position', outputToken: 'position', itemsKey: 'items' }
+    ),
+    paginate(
+      apiClient,
+      page => new GetAuthorizersCommand({ restApiId: api.id, ...page }),
+      { inputToken: 'position', outputToken: 'position', itemsKey: 'items' }
+    )
+  ]);
+
+  const routes = [];
+  for (const apiResource of apiResources) {
+    for (const [method, methodResource] of Object.entries(apiResource.resourceMethods || {})) {
+      const integration = methodResource.methodIntegration;
+      const authorizer = authorizers.find(a => a.id === methodResource.authorizerId);
+
+      routes.push({
+        method,
+        path: apiResource.path,
+        authorizer: methodResource.authorizationType && methodResource.authorizationType !== 'NONE'
+          ? {
+              type: methodResource.authorizationType,
+              name: authorizer?.name,
+              target: getInvocationTarget(authorizer?.authorizerUri)
+            }
+          : undefined,
+        integration: integration && {
+          type: integration.type,
+          connectionType: integration.connectionType || 'INTERNET',
+          uri: integration.uri,
+          // REST VPC links front network load balancers
+          target: integration.connectionType === 'VPC_LINK'
+            ? vpcLinks.get(integration.connectionId)?.[0]
+            : getInvocationTarget(integration.uri)
+        }
+      });
+    }
+  }
+
+  return toApiResource({
+    id: `arn:aws:apigateway:${region}::/restapis/${api.id}`,
+    name: api.name,
+    region,
+    tags: api.tags,
+    createdDate: api.createdDate,
+    protocolType: 'REST',
+    stages: stages.map(stage => ({
+      name: stage.stageName,
+      invokeUrl: `https://${api.id}.execute-api.${region}.amazonaws.com/${stage.stageName}`,
+      deploymentId: stage.deploymentId,
+      lastUpdated: stage.lastUpdatedDate?.toISOString(),
+      variables: stage.variables
+    })),
+    routes
+  });
+}
+
+// HTTP or WebSocket API with its stages and routes
+async function getV2Api(apiClient, api, region) {
+  const listItems = Command => paginate(
+    apiClient,
+    page => new Command({ ApiId: api.ApiId, ...page }),
+    { inputToken: 'NextToken', outputToken: 'NextToken', itemsKey: 'Items' }
+  );
+
+  const [stages, apiRoutes, integrations, authorizers] = await Promise.all([
+    listItems(GetV2StagesCommand),
+    listItems(GetRoutesCommand),
+    listItems(GetIntegrationsCommand),
+    listItems(GetV2AuthorizersCommand)
+  ]);
+
+  const routes = apiRoutes.map(route => {
+    // Route keys are `METHOD /path` for HTTP APIs and `$connect`, `$default` or
+    // an action name for WebSocket APIs
+    const [method, path] = route.RouteKey.includes(' ') ? route.RouteKey.split(' ') : [undefined, route.RouteKey];
+    const integrationId = route.Target?.replace(/^integrations\//, '');
+    const integration = integrations.find(i => i.IntegrationId === integrationId);
+    const authorizer = authorizers.find(a => a.AuthorizerId === route.AuthorizerId);
+
+    return {
+      method,
+      path,
+      authorizer: route.AuthorizationType && route.AuthorizationType !== 'NONE'
+        ? {
+            type: route.AuthorizationType,
+            name: authorizer?.Name,
+            target: getInvocationTarget(authorizer?.AuthorizerUri)
+          }
+        : undefined,
+      integration: integration && {
+        type: integration.IntegrationType,
+        connectionType: integration.ConnectionType || 'INTERNET',
+        uri: integration.IntegrationUri,
+        target: getInvocationTarget(integration.IntegrationUri)
+      }
+    };
+  });
+
+  return toApiResource({
+    id: `arn:aws:apigateway:${region}::/apis/${api.ApiId}`,
+    name: api.Name,
+    region,
+    tags: api.Tags,
+    createdDate: api.CreatedDate,
+    protocolType: api.ProtocolType,
+    stages: stages.map(stage => ({
+      name: stage.StageName,
+      // The $default stage is served from the API's base URL
+      invokeUrl: stage.StageName === '$default' ? api.ApiEndpoint : `${api.ApiEndpoint}/${stage.StageName}`,
+      deploymentId: stage.DeploymentId,
+      lastUpdated: stage.LastUpdatedDate?.toISOString(),
+      variables: stage.StageVariables
+    })),
+    routes
+  });
+}
+
+// Fetch API Gateway REST, HTTP and WebSocket APIs
+async function getAPIGatewayResources({ region, accountId }) {
+  const apiClient = getClient(APIGatewayClient, region, accountId);
+  const apiV2Client = getClient(ApiGatewayV2Client, region, accountId);
+
+  try {
+    const [restApis, v2Apis, vpcLinks] = await Promise.all([
+      paginate(
+        apiClient,
+        page => new GetRestApisCommand({ ...page }),
+        { inputToken: 'position', outputToken: 'position', itemsKey: 'items' }
+      ),
+      paginate(
+        apiV2Client,
+        page => new GetApisCommand({ ...page }),
+        { inputToken: 'NextToken', outputToken: 'NextToken', itemsKey: 'Items' }
+      ),
+      paginate(
+        apiClient,
+        page => new GetVpcLinksCommand({ ...page }),
+        { inputToken: 'position', outputToken: 'position', itemsKey: 'items' }
+      )
+    ]);
+
+    // REST VPC links by ID, with the load balancers they target
+    const vpcLinkTargets = new Map(vpcLinks.map(vpcLink => [vpcLink.id, vpcLink.targetArns || []]));
+
+    const results = await Promise.allSettled([
+      ...restApis.map(api => getRestApi(apiClient, api, region, vpcLinkTargets)),
+      ...v2Apis.map(api => getV2Api(apiV2Client, api, region))
+    ]);
+
+    // An API that can't be read is reported without hiding the others
+    return {
+      resources: results
+        .filter(result => result.status === 'fulfilled')
+        .map(result => result.value),
+      errors: results
+        .filter(result => result.status === 'rejected')
+        .map(result => result.reason)
+    };
+  } catch (error) {
+    console.error(`Error fetching API Gateway resources in region ${region}:`, error);
+    throw error;
+  }
+}
+
+// Substitute a stage's variables into an integration target
+function applyStageVariables(value, stage) {
+  return value.replace(STAGE_VARIABLE_PATTERN, (match, name) => stage?.variables?.[name] ?? match);
+}
+
+// Find the resource behind an integration target: a Lambda function, a load
+// balancer (directly or through a listener), or a load balancer's DNS name
+function findIntegrationTarget(target, api, allResources) {
+  const listener = target.match(LISTENER_ARN_PATTERN);
+  if (listener) {
+    return findReferencedResource(`${listener[1]}loadbalancer/${listener[2]}`, allResources, api);
+  }
+
+  if (/^https?:\/\//.test(target)) {
+    // Unresolved stage variables can leave the URL unparseable
+    if (!URL.canParse(target)) return undefined;
+    const hostname = new URL(target).hostname.toLowerCase();
+    return allResources.find(r =>
+      (r.type === 'alb' || r.type === 'nlb') && r.details?.dnsName?.toLowerCase() === hostname
+    );
+  }
+
+  return findReferencedResource(target, allResources, api);
+}
+
+// Discover the integrations and authorizers behind an API's routes. Every
+// target gets one edge listing the routes and stages leading to it.
+async function discoverAPIGatewayRelationships(resource, allResources) {
+  const edges = new Map();
+  // Routes are shared by all stages, but stage variables may point them elsewhere
+  const stages = resource.details?.stages?.length ? resource.details.stages : [undefined];
+
+  const addEdge = (targetValue, route, stage, metadata) => {
+    if (!targetValue) return;
+    const target = findIntegrationTarget(applyStageVariables(targetValue, stage), resource, allResources);
+    if (!target || target.id === resource.id) return;
+
+    const type = target.type === 'lambda' ? RelationshipType.TRIGGERS : RelationshipType.ROUTES_TO;
+    const routeKey = route.method ? `${route.method} ${route.path}` : route.path;
+    const key = `${target.id}|${type}`;
+
+    if (!edges.has(key)) {
+      edges.set(key, {
+        sourceId: resource.id,
+        targetId: target.id,
+        type,
+        metadata: { method: route.method, path: route.path, routes: [], stages: [] }
+      });
+    }
+
+    const edge = edges.get(key);
+    Object.assign(edge.metadata, metadata);
+    if (!edge.metadata.routes.includes(routeKey)) edge.metadata.routes.push(routeKey);
+    if (stage && !edge.metadata.stages.includes(stage.name)) edge.metadata.stages.push(stage.name);
+  };
+
+  for (const stage of stages) {
+    for (const route of resource.details?.routes || []) {
+      if (route.integration) {
+        addEdge(route.integration.target, route, stage, {
+          integrationType: route.integration.type,
+          connectionType: route.integration.connectionType
+        });
+      }
+      if (route.authorizer?.name) {
+        addEdge(route.authorizer.target, route, stage, { authorizer: route.authorizer.name });
+      }
+    }
+  }
+
+  return Array.from(edges.values());
+}
+
+export default {
+  name: 'apigateway',
+  types: ['apigateway'],
+  statusMap: {
+    apigateway: API_STATUSES
+  },
+  fetch: getAPIGatewayResources,
+  discoverRelationships: discoverAPIGatewayRelationships
+};
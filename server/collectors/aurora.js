@@ -0,0 +1,370 @@
+import { 
+  RDSClient, 
+  DescribeDBClustersCommand,
+  DescribeDBInstancesCommand,
+  ListTagsForResourceCommand as RDSListTagsCommand
+} from "@aws-sdk/client-rds";
+import { getClient } from '../clients.js';
+import { paginate } from '../pagination.js';
+import { RelationshipType, getSecurityGroupConnections } from '../resourceRelationships.js';
+
+// Dashboard status for each DB cluster and instance status
+const AURORA_STATUSES = {
+  'available': 'running',
+  'stopped': 'stopped',
+  'starting': 'pending',
+  'stopping': 'pending'
+};
+
+// Fetch Aurora DB instances
+async function getAuroraDBInstances({ region, accountId }) {
+  const rdsClient = getClient(RDSClient, region, accountId);
+  
+  try {
+    const dbInstances = await paginate(
+      rdsClient,
+      page => new DescribeDBInstancesCommand({
+        Filters: [
+          {
+            Name: 'engine',
+            Values: ['aurora-mysql', 'aurora-postgresql']
+          }
+        ],
+        ...page
+      }),
+      { inputToken: 'Marker', outputToken: 'Marker', itemsKey: 'DBInstances' }
+    );
+    
+    const instancesWithTags = await Promise.all(
+      dbInstances.map(async (instance) => {
+        try {
+          const tagsResponse = await rdsClient.send(
+            new RDSListTagsCommand({
+              ResourceName: instance.DBInstanceArn
+            })
+          );
+          
+          const tags = tagsResponse.TagList || [];
+          const tagMap = tags.reduce((acc, tag) => {
+            acc[tag.Key] = tag.Value;
+            return acc;
+          }, {});
+          
+          return {
+            id: instance.DBInstanceArn,
+            name: instance.DBInstanceIdentifier,
+            type: 'aurora-instance',
+            status: AURORA_STATUSES[instance.DBInstanceStatus] || 'stopped',
+            region,
+            tags: tagMap,
+            lastUpdated: instance.InstanceCreateTime?.toISOString(),
+            clusterId: instance.DBClusterIdentifier,
+            securityGroups: instance.VpcSecurityGroups.map(sg => sg.VpcSecurityGroupId),
+            details: {
+              instanceType: instance.DBInstanceClass,
+              endpoint: instance.Endpoint?.Address,
+              port: instance.Endpoint?.Port
+            }
+          };
+        } catch (error) {
+          console.error(`Error fetching tags for Aurora instance ${instance.DBInstanceArn}:`, error);
+          return {
+            id: instance.DBInstanceArn,
+            name: instance.DBInstanceIdentifier,
+            type: 'aurora-instance',
+            status: AURORA_STATUSES[instance.DBInstanceStatus] || 'stopped',
+            region,
+            tags: {},
+            lastUpdated: instance.InstanceCreateTime?.toISOString(),
+            clusterId: instance.DBClusterIdentifier,
+            securityGroups: instance.VpcSecurityGroups.map(sg => sg.VpcSecurityGroupId),
+            details: {
+              instanceType: instance.DBInstanceClass,
+              endpoint: instance.Endpoint?.Address,
+              port: instance.Endpoint?.Port
+            }
+          };
+        }
+      })
+    );
+    
+    return instancesWithTags;
+  } catch (error) {
+    console.error(`Error fetching Aurora instances in region ${region}:`, error);
+    throw error;
+  }
+}
+
+// Fetch Aurora clusters
+async function getAuroraClusters({ region, accountId }) {
+  const rdsClient = getClient(RDSClient, region, accountId);
+  
+  try {
+    const dbClusters = await paginate(
+      rdsClient,
+      page => new DescribeDBClustersCommand({
+        Filters: [
+          {
+            Name: 'engine',
+            Values: ['aurora-mysql', 'aurora-postgresql']
+          }
+        ],
+        ...page
+      }),
+      { inputToken: 'Marker', outputToken: 'Marker', itemsKey: 'DBClusters' }
+    );
+    
+    const clustersWithTags = await Promise.all(
+      dbClusters.map(async (cluster) => {
+        try {
+          const tagsResponse = await rdsClient.send(
+            new RDSListTagsCommand({
+              ResourceName: cluster.DBClusterArn
+            })
+          );
+          
+          const tags = tagsResponse.TagList || [];
+          const tagMap = tags.reduce((acc, tag) => {
+            acc[tag.Key] = tag.Value;
+            return acc;
+          }, {});
+          
+          return {
+            id: cluster.DBClusterArn,
+            name: cluster.DBClusterIdentifier,
+            type: 'aurora',
+            status: AURORA_STATUSES[cluster.Status] || 'stopped',
+            region,
+            tags: tagMap,
+            lastUpdated: cluster.LatestRestorableTime?.toISOString()
+          };
+        } catch (error) {
+          console.error(`Error fetching tags for Aurora cluster ${cluster.DBClusterArn}:`, error);
+          return {
+            id: cluster.DBClusterArn,
+            name: cluster.DBClusterIdentifier,
+            type: 'aurora',
+            status: AURORA_STATUSES[cluster.Status] || 'stopped',
+            region,
+            tags: {},
+            lastUpdated: cluster.LatestRestorableTime?.toISOString()
+          };
+        }
+      })
+    );
+    
+    return clustersWithTags;
+  } catch (error) {
+    console.error(`Error fetching Aurora clusters in region ${region}:`, error);
+    throw error;
+  }
+}
+
+// Helper function to get all Aurora resources (clusters and instances)
+async function getAuroraResources(context) {
+  const [clustersResult, instancesResult] = await Promise.allSettled([
+    getAuroraClusters(context),
+    getAuroraDBInstances(context)
+  ]);
+  
+  // Both calls failing means there is nothing to show for this region
+  if (clustersResult.status === 'rejected' && instancesResult.status === 'rejected') {
+    throw clustersResult.reason;
+  }
+  
+  const clusters = clustersResult.status === 'fulfilled' ? clustersResult.value : [];
+  const instances = instancesResult.status === 'fulfilled' ? instancesResult.value : [];
+  const errors = [clustersResult, instancesResult]
+    .filter(result => result.status === 'rejected')
+    .map(result => result.reason);
+  
+  // Add instance_of relationships between instances and clusters
+  const relationships = instances.map(instance => ({
+    sourceId: instance.id,
+    targetId: clusters.find(cluster => cluster.name === instance.clusterId)?.id || instance.clusterId,
+    type: 'instance_of'
+  }));
+  
+  return {
+    resources: [...clusters, ...instances],
+    relationships,
+    errors
+  };
+}
+
+// Discover instances and security group connections of an Aurora cluster
+async function discoverAuroraClusterRelationships(resource, allResources) {
+  const relationships = [];
+
+  console.log(`Processing aurora cluster: ${resource.name} (${resource.id})`);
+  
+  // Extract the cluster name from the ARN
+  const clusterName = resource.id.split(':').pop();
+  console.log(`Cluster name extracted: ${clusterName}`);
+  
+  // Add instance_of relationships for any instances of this cluster
+  const clusterInstances = allResources.filter(r => 
+    r.type === 'aurora-instance' && 
+    (r.clusterId === resource.id || r.clusterId === clusterName)
+  );
+  
+  console.log(`Found ${clusterInstances.length} instances for cluster ${resource.name}`);
+  
+  for (const instance of clusterInstances) {
+    console.log(`Adding instance_of relationship: ${instance.name} -> ${resource.name}`);
+    relationships.push({
+      sourceId: instance.id,
+      targetId: resource.id,
+      type: RelationshipType.INSTANCE_OF
+    });
+  }
+  
+  // Also check for any instances that might have this cluster's name as clusterId
+  const nameBasedInstances = allResources.filter(r => 
+    r.type === 'aurora-instance' && 
+    r.clusterId === resource.name
+  );
+  
+  if (nameBasedInstances.length > 0) {
+    console.log(`Found ${nameBasedInstances.length} instances with cluster name match`);
+    
+    for (const instance of nameBasedInstances) {
+      if (!clusterInstances.some(ci => ci.id === instance.id)) {
+        console.log(`Adding name-based instance_of relationship: ${instance.name} -> ${resource.name}`);
+        relationships.push({
+          sourceId: instance.id,
+          targetId: resource.id,
+          type: RelationshipType.INSTANCE_OF
+        });
+      }
+    }
+  }
+  
+  // Check if the Aurora cluster has security groups in its details or tags
+  let auroraClusterSecurityGroups = [];
+  
+  if (resource.securityGroups) {
+    auroraClusterSecurityGroups = resource.securityGroups;
+    console.log(`Found security groups in resource: ${auroraClusterSecurityGroups}`);
+  } else if (resource.tags && resource.tags.SecurityGroups) {
+    auroraClusterSecurityGroups = resource.tags.SecurityGroups.split(',');
+    console.log(`Found security groups in tags: ${auroraClusterSecurityGroups}`);
+  }
+  
+  // If we have security groups, look for connections
+  if (auroraClusterSecurityGroups.length > 0) {
+    console.log(`Aurora cluster has security groups: ${auroraClusterSecurityGroups}`);
+    
+    // Temporarily add securityGroups property to the resource for getSecurityGroupConnections
+    const resourceWithSG = { ...resource, securityGroups: auroraClusterSecurityGroups };
+    const auroraClusterConnections = await getSecurityGroupConnections(resourceWithSG, allResources);
+    
+    console.log(`Found ${auroraClusterConnections.length} security group connections for Aurora cluster: ${resource.name}`);
+    
+    for (const connection of auroraClusterConnections) {
+      console.log(`Adding connection: ${connection.sourceId} -> ${connection.targetId} (${connection.type})`);
+      relationships.push(connection);
+    }
+  } else {
+    console.log(`No security groups found for Aurora cluster: ${resource.name}`);
+    
+    // If the cluster doesn't have security groups directly, check if any of its instances have them
+    // and use those for connections
+    const instancesWithSecurityGroups = clusterInstances.filter(instance => 
+      instance.securityGroups && instance.securityGroups.length > 0
+    );
+    
+    if (instancesWithSecurityGroups.length > 0) {
+      console.log(`Found ${instancesWithSecurityGroups.length} instances with security groups`);
+      
+      // For each instance with security groups, find connections and associate them with the cluster
+      for (const instance of instancesWithSecurityGroups) {
+        console.log(`Checking security groups from instance: ${instance.name}`);
+        
+        const instanceConnections = await getSecurityGroupConnections(instance, allResources);
+        
+        // Replace the instance ID with the cluster ID in the connections
+        for (const connection of instanceConnections) {
+          const modifiedConnection = { ...connection };
+          
+          if (connection.sourceId === instance.id) {
+            modifiedConnection.sourceId = resource.id;
+          }
+          
+          if (connection.targetId === instance.id) {
+            modifiedConnection.targetId = resource.id;
+          }
+          
+          console.log(`Adding cluster-level connection: ${modifiedConnection.sourceId} -> ${modifiedConnection.targetId} (${modifiedConnection.type})`);
+          relationships.push(modifiedConnection);
+        }
+      }
+    }
+  }
+
+  return relationships;
+}
+
+// Discover the parent cluster and security group connections of an Aurora instance
+async function discoverAuroraInstanceRelationships(resource, allResources) {
+  const relationships = [];
+
+  console.log(`Processing aurora-instance: ${resource.name}`);
+  
+  // Add instance_of relationship to parent cluster
+  if (resource.clusterId) {
+    // Try to find the parent cluster by matching the cluster name in the ARN
+    // or by exact match of the clusterId
+    const parentCluster = allResources.find(r => 
+      r.type === 'aurora' && 
+      (r.id === resource.clusterId || r.id.endsWith(`:cluster:${resource.clusterId}`))
+    );
+    
+    if (parentCluster) {
+      console.log(`Found parent cluster: ${parentCluster.name} (${parentCluster.id})`);
+      relationships.push({
+        sourceId: resource.id,
+        targetId: parentCluster.id,
+        type: RelationshipType.INSTANCE_OF
+      });
+    } else {
+      console.log(`Parent cluster not found for clusterId: ${resource.clusterId}`);
+      console.log(`Available aurora clusters:`, allResources.filter(r => r.type === 'aurora').map(r => ({ id: r.id, name: r.name })));
+    }
+  } else {
+    console.log(`No clusterId found for aurora-instance: ${resource.name}`);
+  }
+  
+  // Find security group relationships
+  console.log(`Finding security group connections for aurora-instance: ${resource.name}`);
+  console.log(`Security groups:`, resource.securityGroups || 'none');
+  
+  const auroraConnections = await getSecurityGroupConnections(resource, allResources);
+  console.log(`Found ${auroraConnections.length} security group connections for aurora-instance: ${resource.name}`);
+  
+  for (const connection of auroraConnections) {
+    console.log(`Adding connection: ${connection.sourceId} -> ${connection.targetId} (${connection.type})`);
+    relationships.push(connection);
+  }
+
+  return relationships;
+}
+
+// Aurora clusters and instances share one collector
+async function discoverAuroraRelationships(resource, allResources) {
+  if (resource.type === 'aurora-instance') {
+    return discoverAuroraInstanceRelationships(resource, allResources);
+  }
+  return discoverAuroraClusterRelationships(resource, allResources);
+}
+
+export default {
+  name: 'aurora',
+  types: ['aurora', 'aurora-instance'],
+  statusMap: {
+    aurora: AURORA_STATUSES,
+    'aurora-instance': AURORA_STATUSES
+  },
+  fetch: getAuroraResources,
+  discoverRelationships: discoverAuroraRelationships
+};
@@ -0,0 +1,292 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mockClients, restoreClients, awsError } from '../testing/mockClients.js';
+import ecs from './ecs.js';
+import lambda from './lambda.js';
+import aurora from './aurora.js';
+import ec2 from './ec2.js';
+import stepfunctions from './stepfunctions.js';
+import apigateway from './apigateway.js';
+import eventbridge from './eventbridge.js';
+import loadBalancers from './loadBalancers.js';
+import s3 from './s3.js';
+import dynamodb from './dynamodb.js';
+import sqs from './sqs.js';
+import sns from './sns.js';
+import { getStatusMap } from './index.js';
+
+const region = 'us-east-1';
+const accountId = '123456789012';
+
+// Collectors return a list of resources, or { resources, relationships, errors }
+async function collect(collector) {
+  const result = await collector.fetch({ region, accountId, options: {} });
+  return Array.isArray(result) ? result : result.resources;
+}
+
+function ids(resources) {
+  return resources.map(resource => resource.id).sort();
+}
+
+// Every collector has to follow the page token of each list call to the end
+describe('collector pagination', () => {
+  afterEach(restoreClients);
+
+  it('ecs lists every cluster and service, describing at most 10 services per call', async () => {
+    const serviceNames = Array.from({ length: 11 }, (_, i) => `svc-${i}`);
+    const calls = mockClients({
+      ListClustersCommand: [
+        { clusterArns: ['arn:aws:ecs:us-east-1:123456789012:cluster/a'], nextToken: 'page-2' },
+        { clusterArns: ['arn:aws:ecs:us-east-1:123456789012:cluster/b'] }
+      ],
+      ListServicesCommand: [
+        { serviceArns: serviceNames.slice(0, 1), nextToken: 'page-2' },
+        { serviceArns: serviceNames.slice(1) }
+      ],
+      DescribeServicesCommand: input => ({
+        services: input.services.map(name => ({
+          serviceArn: `${input.cluster}/${name}`,
+          serviceName: name,
+          status: 'ACTIVE',
+          runningCount: 1,
+          deployments: []
+        }))
+      })
+    });
+
+    const resources = await collect(ecs);
+
+    assert.equal(resources.length, 22);
+    const describeCalls = calls.filter(call => call.name === 'DescribeServicesCommand');
+    assert.equal(describeCalls.length, 4);
+    assert.ok(describeCalls.every(call => call.input.services.length <= 10));
+  });
+
+  it('lambda follows NextMarker', async () => {
+    const fn = name => ({ FunctionArn: `arn:aws:lambda:us-east-1:123456789012:function:${name}`, FunctionName: name, State: 'Active' });
+    const calls = mockClients({
+      ListFunctionsCommand: [
+        { Functions: [fn('one')], NextMarker: 'page-2' },
+        { Functions: [fn('two')] }
+      ]
+    });
+
+    const resources = await collect(lambda);
+
+    assert.deepEqual(resources.map(r => r.name).sort(), ['one', 'two']);
+    assert.equal(calls.filter(call => call.name === 'ListFunctionsCommand')[1].input.Marker, 'page-2');
+  });
+
+  it('aurora pages clusters and instances', async () => {
+    const cluster = name => ({ DBClusterArn: `arn:aws:rds:us-east-1:123456789012:cluster:${name}`, DBClusterIdentifier: name, Status: 'available' });
+    const instance = name => ({
+      DBInstanceArn: `arn:aws:rds:us-east-1:123456789012:db:${name}`,
+      DBInstanceIdentifier: name,
+      DBInstanceStatus: 'available',
+      VpcSecurityGroups: []
+    });
+    mockClients({
+      DescribeDBClustersCommand: [{ DBClusters: [cluster('c1')], Marker: 'page-2' }, { DBClusters: [cluster('c2')] }],
+      DescribeDBInstancesCommand: [{ DBInstances: [instance('i1')], Marker: 'page-2' }, { DBInstances: [instance('i2')] }]
+    });
+
+    const resources = await collect(aurora);
+
+    assert.deepEqual(resources.map(r => r.name).sort(), ['c1', 'c2', 'i1', 'i2']);
+  });
+
+  it('ec2 follows NextToken', async () => {
+    const reservation = id => ({ Instances: [{ InstanceId: id, State: { Name: 'running' } }] });
+    mockClients({
+      DescribeInstancesCommand: [
+        { Reservations: [reservation('i-1')], NextToken: 'page-2' },
+        { Reservations: [reservation('i-2')], NextToken: 'page-3' },
+        { Reservations: [reservation('i-3')] }
+      ]
+    });
+
+    assert.deepEqual(ids(await collect(ec2)), ['i-1', 'i-2', 'i-3']);
+  });
+
+  it('stepfunctions follows nextToken', async () => {
+    const stateMachine = name => ({ stateMachineArn: `arn:aws:states:us-east-1:123456789012:stateMachine:${name}`, name, status: 'ACTIVE' });
+    mockClients({
+      ListStateMachinesCommand: [
+        { stateMachines: [stateMachine('one')], nextToken: 'page-2' },
+        { stateMachines: [stateMachine('two')] }
+      ],
+      DescribeStateMachineCommand: { type: 'STANDARD' }
+    });
+
+    assert.deepEqual((await collect(stepfunctions)).map(r => r.name).sort(), ['one', 'two']);
+  });
+
+  it('apigateway pages REST and HTTP APIs', async () => {
+    mockClients({
+      GetRestApisCommand: [{ items: [{ id: 'rest1', name: 'rest1' }], position: 'page-2' }, { items: [{ id: 'rest2', name: 'rest2' }] }],
+      GetApisCommand: [
+        { Items: [{ ApiId: 'http1', Name: 'http1', ProtocolType: 'HTTP' }], NextToken: 'page-2' },
+        { Items: [{ ApiId: 'http2', Name: 'http2', ProtocolType: 'HTTP' }] }
+      ]
+    });
+
+    assert.deepEqual((await collect(apigateway)).map(r => r.name).sort(), ['http1', 'http2', 'rest1', 'rest2']);
+  });
+
+  it('eventbridge pages buses and rules', async () => {
+    const arn = name => `arn:aws:events:us-east-1:123456789012:${name}`;
+    mockClients({
+      ListEventBusesCommand: [
+        { EventBuses: [{ Name: 'default', Arn: arn('event-bus/default') }], NextToken: 'page-2' },
+        { EventBuses: [{ Name: 'orders', Arn: arn('event-bus/orders') }] }
+      ],
+      ListRulesCommand: [
+        { Rules: [{ Name: 'nightly', Arn: arn('rule/nightly'), State: 'ENABLED' }], NextToken: 'page-2' },
+        { Rules: [{ Name: 'hourly', Arn: arn('rule/hourly'), State: 'ENABLED' }] }
+      ]
+    });
+
+    const resources = await collect(eventbridge);
+
+    assert.deepEqual(resources.map(r => r.name).sort(), ['default', 'hourly', 'nightly', 'orders']);
+    // Custom buses have no state to map and are as available as the default bus
+    assert.equal(resources.find(r => r.name === 'orders').status, 'running');
+  });
+
+  it('loadBalancers follows NextMarker', async () => {
+    const loadBalancer = name => ({
+      LoadBalancerArn: `arn:aws:elasticloadbalancing:us-east-1:123456789012:loadbalancer/app/${name}/1`,
+      LoadBalancerName: name,
+      Type: 'application',
+      State: { Code: 'active' },
+      AvailabilityZones: []
+    });
+    mockClients({
+      DescribeLoadBalancersCommand: [
+        { LoadBalancers: [loadBalancer('one')], NextMarker: 'page-2' },
+        { LoadBalancers: [loadBalancer('two')] }
+      ]
+    });
+
+    assert.deepEqual((await collect(loadBalancers)).map(r => r.name).sort(), ['one', 'two']);
+  });
+
+  it('s3 follows ContinuationToken', async () => {
+    mockClients({
+      ListBucketsCommand: [
+        { Buckets: [{ Name: 'one', BucketRegion: region }], ContinuationToken: 'page-2' },
+        { Buckets: [{ Name: 'two', BucketRegion: region }] }
+      ]
+    });
+
+    assert.deepEqual((await collect(s3)).map(r => r.name).sort(), ['one', 'two']);
+  });
+
+  it('dynamodb follows LastEvaluatedTableName', async () => {
+    mockClients({
+      ListTablesCommand: [{ TableNames: ['one'], LastEvaluatedTableName: 'page-2' }, { TableNames: ['two'] }],
+      DescribeTableCommand: input => ({
+        Table: {
+          TableArn: `arn:aws:dynamodb:us-east-1:123456789012:table/${input.TableName}`,
+          TableName: input.TableName,
+          TableStatus: 'ACTIVE'
+        }
+      })
+    });
+
+    assert.deepEqual((await collect(dynamodb)).map(r => r.name).sort(), ['one', 'two']);
+  });
+
+  it('sqs follows NextToken', async () => {
+    const url = name => `https://sqs.us-east-1.amazonaws.com/123456789012/${name}`;
+    mockClients({
+      ListQueuesCommand: [{ QueueUrls: [url('one')], NextToken: 'page-2' }, { QueueUrls: [url('two')] }],
+      GetQueueAttributesCommand: input => ({
+        Attributes: { QueueArn: `arn:aws:sqs:us-east-1:123456789012:${input.QueueUrl.split('/').pop()}` }
+      })
+    });
+
+    assert.deepEqual((await collect(sqs)).map(r => r.name).sort(), ['one', 'two']);
+  });
+
+  it('sns pages topics and their subscriptions', async () => {
+    const topicArn = name => `arn:aws:sns:us-east-1:123456789012:${name}`;
+    mockClients({
+      ListTopicsCommand: [{ Topics: [{ TopicArn: topicArn('one') }], NextToken: 'page-2' }, { Topics: [{ TopicArn: topicArn('two') }] }],
+      ListSubscriptionsByTopicCommand: [
+        { Subscriptions: [{ SubscriptionArn: 'sub-1', Protocol: 'sqs' }], NextToken: 'page-2' },
+        { Subscriptions: [{ SubscriptionArn: 'sub-2', Protocol: 'lambda' }] }
+      ]
+    });
+
+    const resources = await collect(sns);
+
+    assert.deepEqual(resources.map(r => r.name).sort(), ['one', 'two']);
+    assert.ok(resources.every(r => r.details.subscriptions.length === 2));
+  });
+});
+
+describe('getStatusMap', () => {
+  it('returns the mapping of the collector producing the type', () => {
+    assert.equal(getStatusMap('dynamodb').UPDATING, 'pending');
+    assert.equal(getStatusMap('aurora-instance').available, 'running');
+    assert.equal(getStatusMap('nlb').failed, 'stopped');
+  });
+
+  it('returns an empty mapping for types without one', () => {
+    assert.deepEqual(getStatusMap('s3'), {});
+    assert.deepEqual(getStatusMap('unknown'), {});
+  });
+});
+
+// A resource whose details can't be read is kept, and the failure reported
+describe('collector partial failures', () => {
+  afterEach(restoreClients);
+
+  it('stepfunctions keeps state machines it cannot describe', async () => {
+    const stateMachineArn = 'arn:aws:states:us-east-1:123456789012:stateMachine:orders';
+    mockClients({
+      ListStateMachinesCommand: { stateMachines: [{ stateMachineArn, name: 'orders', status: 'ACTIVE', type: 'STANDARD' }] },
+      DescribeStateMachineCommand: () => { throw awsError('AccessDeniedException'); },
+      ListExecutionsCommand: { executions: [{ status: 'SUCCEEDED' }, { status: 'FAILED' }] }
+    });
+
+    const { resources, errors } = await stepfunctions.fetch({ region, accountId, options: {} });
+
+    assert.deepEqual(resources.map(r => r.name), ['orders']);
+    assert.equal(resources[0].details.stateMachineType, 'STANDARD');
+    assert.equal(resources[0].details.workflow, undefined);
+    assert.equal(resources[0].details.executionsFailed, 1);
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].name, 'AccessDeniedException');
+    assert.match(errors[0].message, /stateMachine:orders/);
+  });
+
+  it('loadBalancers keeps load balancers whose listeners or target health cannot be read', async () => {
+    const loadBalancerArn = 'arn:aws:elasticloadbalancing:us-east-1:123456789012:loadbalancer/app/web/1';
+    const targetGroupArn = name => `arn:aws:elasticloadbalancing:us-east-1:123456789012:targetgroup/${name}/1`;
+    mockClients({
+      DescribeLoadBalancersCommand: {
+        LoadBalancers: [{ LoadBalancerArn: loadBalancerArn, LoadBalancerName: 'web', Type: 'application', State: { Code: 'active' }, AvailabilityZones: [] }]
+      },
+      DescribeTargetGroupsCommand: {
+        TargetGroups: [{ TargetGroupArn: targetGroupArn('api'), TargetGroupName: 'api' }, { TargetGroupArn: targetGroupArn('admin'), TargetGroupName: 'admin' }]
+      },
+      DescribeListenersCommand: () => { throw awsError('AccessDenied'); },
+      DescribeTargetHealthCommand: input => {
+        if (input.TargetGroupArn === targetGroupArn('admin')) throw awsError('Throttling');
+        return { TargetHealthDescriptions: [{ Target: { Id: 'i-1' }, TargetHealth: { State: 'healthy' } }] };
+      }
+    });
+
+    const { resources, errors } = await loadBalancers.fetch({ region, accountId, options: {} });
+
+    assert.deepEqual(resources.map(r => r.name), ['web']);
+    assert.deepEqual(
+      resources[0].details.targetGroups.map(group => [group.name, group.targets.length, group.listenerRules.length]),
+      [['api', 1, 0], ['admin', 0, 0]]
+    );
+    assert.deepEqual(errors.map(error => error.name).sort(), ['AccessDenied', 'Throttling']);
+    assert.ok(errors.some(error => error.message.includes('targetgroup/admin')));
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  DynamoDBClient,
+  ListTablesCommand,
+  DescribeTableCommand,
+  ListTagsOfResourceCommand
+} from "@aws-sdk/client-dynamodb";
+import { getClient } from '../clients.js';
+import { paginate } from '../pagination.js';
+import { getEventSourceMappingTriggers } from '../eventSourceMappings.js';
+
+// Dashboard status for each DynamoDB table status
+const TABLE_STATUSES = {
+  'ACTIVE': 'running',
+  'CREATING': 'pending',
+  'UPDATING': 'pending',
+  'DELETING': 'pending',
+  'ARCHIVING': 'pending',
+  'ARCHIVED': 'stopped',
+  'INACCESSIBLE_ENCRYPTION_CREDENTIALS': 'stopped'
+};
+
+// Table and stream ARNs: arn:aws:dynamodb:<region>:<account>:table/<name>[/stream/<label>|/index/<name>]
+const TABLE_ARN_PATTERN = /^(arn:aws[\w-]*:dynamodb:[\w-]+:\d+:table\/[^/]+)/;
+
+// Fetch DynamoDB tables
+async function getDynamoDBTables({ region, accountId }) {
+  const dynamoClient = getClient(DynamoDBClient, region, accountId);
+
+  try {
+    const tableNames = await paginate(
+      dynamoClient,
+      page => new ListTablesCommand({ ...page }),
+      { inputToken: 'ExclusiveStartTableName', outputToken: 'LastEvaluatedTableName', itemsKey: 'TableNames' }
+    );
+
+    const results = await Promise.allSettled(
+      tableNames.map(async (tableName) => {
+        const { Table: table } = await dynamoClient.send(new DescribeTableCommand({
+          TableName: tableName
+        }));
+
+        let tags = {};
+        try {
+          const tagList = await paginate(
+            dynamoClient,
+            page => new ListTagsOfResourceCommand({ ResourceArn: table.TableArn, ...page }),
+            { inputToken: 'NextToken', outputToken: 'NextToken', itemsKey: 'Tags' }
+          );
+          tags = tagList.reduce((acc, tag) => {
+            acc[tag.Key] = tag.Value;
+            return acc;
+          }, {});
+        } catch (error) {
+          console.error(`Error fetching tags for DynamoDB table ${table.TableArn}:`, error);
+        }
+
+        return {
+          id: table.TableArn,
+          name: table.TableName,
+          type: 'dynamodb',
+          status: TABLE_STATUSES[table.TableStatus] || 'stopped',
+          region,
+          tags,
+          lastUpdated: table.CreationDateTime?.toISOString(),
+          details: {
+            // Tables created before on-demand existed report no billing mode summary
+            billingMode: table.BillingModeSummary?.BillingMode || 'PROVISIONED',
+            itemCount: table.ItemCount,
+            tableSizeBytes: table.TableSizeBytes,
+            globalSecondaryIndexes: (table.GlobalSecondaryIndexes || []).map(index => ({
+              name: index.IndexName,
+              status: index.IndexStatus,
+              itemCount: index.ItemCount
+            })),
+            streamEnabled: table.StreamSpecification?.StreamEnabled || false,
+            streamViewType: table.StreamSpecification?.StreamViewType,
+            streamArn: table.LatestStreamArn
+          }
+        };
+      })
+    );
+
+    // A table that can't be described is reported without hiding the others
+    return {
+      resources: results
+        .filter(result => result.status === 'fulfilled')
+        .map(result => result.value),
+      errors: results
+        .filter(result => result.status === 'rejected')
+        .map(result => result.reason)
+    };
+  } catch (error) {
+    console.error(`Error fetching DynamoDB tables in region ${region}:`, error);
+    throw error;
+  }
+}
+
+// Discover the Lambda functions consuming a table's stream
+async function discoverDynamoDBRelationships(resource, allResources) {
+  if (!resource.details?.streamArn) return [];
+
+  return getEventSourceMappingTriggers(resource, resource.details.streamArn, allResources);
+}
+
+// Find the table a configuration value refers to: a table, index or stream ARN,
+// or a bare table name, preferring tables in the referencing resource's account and region
+function resolveTableReference(value, allResources, fromResource) {
+  const tableArn = value.match(TABLE_ARN_PATTERN)?.[1];
+  if (tableArn) {
+    return allResources.find(r => r.type === 'dynamodb' && r.id === tableArn);
+  }
+
+  const tables = allResources.filter(r => r.type === 'dynamodb' && r.name === value);
+  return tables.find(table =>
+    table.region === fromResource?.region && table.accountId === fromResource?.accountId
+  ) || tables[0];
+}
+
+export default {
+  name: 'dynamodb',
+  types: ['dynamodb'],
+  statusMap: {
+    dynamodb: TABLE_STATUSES
+  },
+  fetch: getDynamoDBTables,
+  discoverRelationships: discoverDynamoDBRelationships,
+  resolveReference: resolveTableReference
+};
@@ -0,0 +1,90 @@
+import {
+  EC2Client,
+  DescribeInstancesCommand
+} from "@aws-sdk/client-ec2";
+import { getClient } from '../clients.js';
+import { paginate } from '../pagination.js';
+import { RelationshipType, getSecurityGroupConnections } from '../resourceRelationships.js';
+
+// Dashboard status for each EC2 instance state
+const EC2_STATUSES = {
+  'running': 'running',
+  'stopped': 'stopped',
+  'pending': 'pending',
+  'stopping': 'pending',
+  'terminated': 'terminated'
+};
+
+// Fetch EC2 instances
+async function getEC2Instances({ region, accountId }) {
+  const ec2Client = getClient(EC2Client, region, accountId);
+  
+  try {
+    const reservations = await paginate(
+      ec2Client,
+      page => new DescribeInstancesCommand({ ...page }),
+      { inputToken: 'NextToken', outputToken: 'NextToken', itemsKey: 'Reservations' }
+    );
+    
+    const instances = reservations.flatMap(reservation => 
+      reservation.Instances.map(instance => {
+        const tags = instance.Tags || [];
+        const tagMap = tags.reduce((acc, tag) => {
+          acc[tag.Key] = tag.Value;
+          return acc;
+        }, {});
+        
+        return {
+          id: instance.InstanceId,
+          name: tagMap.Name || instance.InstanceId,
+          type: 'ec2',
+          status: EC2_STATUSES[instance.State.Name] || 'stopped',
+          region,
+          tags: tagMap,
+          lastUpdated: instance.LaunchTime?.toISOString(),
+          details: {
+            instanceType: instance.InstanceType,
+            publicIp: instance.PublicIpAddress,
+            privateIp: instance.PrivateIpAddress
+          }
+        };
+      })
+    );
+    
+    return instances;
+  } catch (error) {
+    console.error(`Error fetching EC2 instances in region ${region}:`, error);
+    throw error;
+  }
+}
+
+// Discover security group connections of an EC2 instance
+async function discoverEC2Relationships(resource, allResources) {
+  const relationships = [];
+
+  // Find EC2 security group relationships
+  const securityGroupConnections = await getSecurityGroupConnections(resource, allResources);
+  for (const connection of securityGroupConnections) {
+    relationships.push({
+      sourceId: resource.id,
+      targetId: connection.targetId,
+      type: RelationshipType.CONNECTS_TO,
+      metadata: {
+        protocol: connection.protocol,
+        port: connection.port
+      }
+    });
+  }
+
+  return relationships;
+}
+
+export default {
+  name: 'ec2',
+  types: ['ec2'],
+  statusMap: {
+    ec2: EC2_STATUSES
+  },
+  fetch: getEC2Instances,
+  discoverRelationships: discoverEC2Relationships
+};
@@ -0,0 +1,270 @@
+import { 
+  ECSClient, 
+  ListServicesCommand, 
+  DescribeServicesCommand,
+  ListClustersCommand,
+  ListTagsForResourceCommand,
+  DescribeTaskDefinitionCommand
+} from "@aws-sdk/client-ecs";
+import { getClient } from '../clients.js';
+import { paginate, chunk } from '../pagination.js';
+import {
+  RelationshipType,
+  getSecurityGroupConnections,
+  findReferencedResource
+} from '../resourceRelationships.js';
+import { getRoleDependencies } from '../iamPolicies.js';
+
+// Dashboard status for each ECS service status
+const ECS_STATUSES = {
+  'ACTIVE': 'running',
+  'DRAINING': 'pending',
+  'INACTIVE': 'stopped'
+};
+
+const DESCRIBE_SERVICES_LIMIT = 10;
+
+// Helper function to determine ECS service status
+function determineECSServiceStatus(service) {
+  if (service.status === 'INACTIVE') return 'stopped';
+  
+  const latestDeployment = service.deployments.find(d => d.status === 'PRIMARY');
+  if (latestDeployment) {
+    if (latestDeployment.rolloutState === 'FAILED') return 'stopped';
+    if (['IN_PROGRESS', 'PENDING'].includes(latestDeployment.rolloutState)) return 'pending';
+  }
+  
+  if (service.runningCount === 0) return 'stopped';
+  if (service.status === 'ACTIVE' && service.runningCount > 0) return 'running';
+  
+  return 'pending';
+}
+
+// Helper function to extract cluster name from ARN
+function getClusterNameFromArn(clusterArn) {
+  const parts = clusterArn.split('/');
+  return parts[parts.length - 1];
+}
+
+// Fetch ECS services
+async function getECSServices({ region, accountId }) {
+  const ecsClient = getClient(ECSClient, region, accountId);
+  
+  try {
+    const clusters = await paginate(
+      ecsClient,
+      page => new ListClustersCommand({ ...page }),
+      { inputToken: 'nextToken', outputToken: 'nextToken', itemsKey: 'clusterArns' }
+    );
+    
+    let services = [];
+    for (const clusterArn of clusters) {
+      const clusterName = getClusterNameFromArn(clusterArn);
+      const serviceArns = await paginate(
+        ecsClient,
+        page => new ListServicesCommand({ cluster: clusterArn, ...page }),
+        { inputToken: 'nextToken', outputToken: 'nextToken', itemsKey: 'serviceArns' }
+      );
+      
+      // DescribeServices accepts at most 10 services per call
+      for (const serviceArnChunk of chunk(serviceArns, DESCRIBE_SERVICES_LIMIT)) {
+        const describeServicesResponse = await ecsClient.send(
+          new DescribeServicesCommand({
+            cluster: clusterArn,
+            services: serviceArnChunk
+          })
+        );
+        
+        const servicesWithTags = await Promise.all(
+          describeServicesResponse.services.map(async (service) => {
+            try {
+              const tagsResponse = await ecsClient.send(
+                new ListTagsForResourceCommand({
+                  resourceArn: service.serviceArn
+                })
+              );
+
+              // Process service events and sort by most recent first
+              const events = (service.events || [])
+                .slice(0, 5)
+                .map(event => ({
+                  id: event.id || new Date(event.createdAt).getTime().toString(),
+                  message: event.message,
+                  createdAt: event.createdAt.toISOString(),
+                  level: event.message.toLowerCase().includes('error') ? 'ERROR' : 
+                         event.message.toLowerCase().includes('warn') ? 'WARN' : 'INFO'
+                }))
+                .sort((a, b) => new Date(b.createdAt) - new Date(a.createdAt));
+
+              // Get the latest deployment
+              const latestDeployment = service.deployments.find(d => d.status === 'PRIMARY');
+              
+              return {
+                ...service,
+                tags: tagsResponse.tags || [],
+                clusterName,
+                events,
+                latestDeployment
+              };
+            } catch (error) {
+              console.error(`Error fetching tags for service ${service.serviceArn}:`, error);
+              return {
+                ...service,
+                tags: [],
+                clusterName,
+                events: [],
+                latestDeployment: service.deployments[0]
+              };
+            }
+          })
+        );
+        
+        services = services.concat(servicesWithTags);
+      }
+    }
+    
+    return services.map(service => ({
+      id: service.serviceArn,
+      name: service.serviceName,
+      type: 'ecs',
+      status: determineECSServiceStatus(service),
+      region,
+      tags: service.tags.reduce((acc, tag) => {
+        acc[tag.key] = tag.value;
+        return acc;
+      }, {}),
+      lastUpdated: service.latestDeployment?.updatedAt?.toISOString() || new Date().toISOString(),
+      details: {
+        clusterName: service.clusterName,
+        runningCount: service.runningCount,
+        desiredCount: service.desiredCount,
+        pendingCount: service.pendingCount,
+        deploymentStatus: service.latestDeployment?.status,
+        deploymentRolloutState: service.latestDeployment?.rolloutState,
+        failureReason: service.latestDeployment?.rolloutStateReason,
+        events: service.events,
+        taskDefinition: service.taskDefinition,
+        networkConfiguration: service.networkConfiguration
+      }
+    }));
+  } catch (error) {
+    console.error(`Error fetching ECS services in region ${region}:`, error);
+    throw error;
+  }
+}
+
+// Discover security group connections for an ECS service
+async function discoverECSRelationships(resource, allResources) {
+  const relationships = [];
+
+  console.log(`Processing ECS service: ${resource.name} (${resource.id})`);
+  
+  // Check if the ECS service has security groups in its details or tags
+  let ecsSecurityGroups = [];
+  
+  if (resource.details && resource.details.networkConfiguration && 
+      resource.details.networkConfiguration.awsvpcConfiguration && 
+      resource.details.networkConfiguration.awsvpcConfiguration.securityGroups) {
+    ecsSecurityGroups = resource.details.networkConfiguration.awsvpcConfiguration.securityGroups;
+    console.log(`Found security groups in network configuration: ${ecsSecurityGroups}`);
+  } else if (resource.tags && resource.tags.SecurityGroups) {
+    ecsSecurityGroups = resource.tags.SecurityGroups.split(',');
+    console.log(`Found security groups in tags: ${ecsSecurityGroups}`);
+  }
+  
+  // If we have security groups, look for connections
+  if (ecsSecurityGroups.length > 0) {
+    console.log(`ECS service has security groups: ${ecsSecurityGroups}`);
+    
+    // Temporarily add securityGroups property to the resource for getSecurityGroupConnections
+    const resourceWithSG = { ...resource, securityGroups: ecsSecurityGroups };
+    const ecsConnections = await getSecurityGroupConnections(resourceWithSG, allResources);
+    
+    console.log(`Found ${ecsConnections.length} security group connections for ECS service: ${resource.name}`);
+    
+    for (const connection of ecsConnections) {
+      console.log(`Adding connection: ${connection.sourceId} -> ${connection.targetId} (${connection.type})`);
+      relationships.push(connection);
+    }
+  } else {
+    console.log(`No security groups found for ECS service: ${resource.name}`);
+  }
+  
+  // Find dependencies referenced by the task definition (S3, DynamoDB, etc.)
+  const { dependencies: ecsDependencies, taskRoleArn } = await getECSDependencies(resource);
+  for (const dependency of ecsDependencies) {
+    const dependencyResource = findReferencedResource(dependency.reference, allResources, resource);
+    if (dependencyResource && dependencyResource.id !== resource.id) {
+      relationships.push({
+        sourceId: resource.id,
+        targetId: dependencyResource.id,
+        type: RelationshipType.DEPENDS_ON,
+        metadata: {
+          accessType: dependency.accessType,
+          container: dependency.container,
+          environmentVariable: dependency.environmentVariable
+        }
+      });
+    }
+  }
+  
+  // Find resources the task role's policies grant access to
+  relationships.push(...await getRoleDependencies(resource, taskRoleArn, allResources));
+  
+  // ECS services might also be part of a cluster or behind a load balancer
+  // These are typically discovered from the LB side
+
+  return relationships;
+}
+
+// Configuration values of the service's task definition that may reference
+// other resources, along with the task role the containers run as
+async function getECSDependencies(service) {
+  if (!service.details?.taskDefinition) return { dependencies: [] };
+  
+  try {
+    const ecsClient = getClient(ECSClient, service.region, service.accountId);
+    
+    const { taskDefinition } = await ecsClient.send(new DescribeTaskDefinitionCommand({
+      taskDefinition: service.details.taskDefinition
+    }));
+    
+    const dependencies = [];
+    for (const container of taskDefinition.containerDefinitions || []) {
+      for (const variable of container.environment || []) {
+        if (variable.value) {
+          dependencies.push({
+            reference: variable.value,
+            environmentVariable: variable.name,
+            container: container.name,
+            accessType: 'environment'
+          });
+        }
+      }
+      
+      // Environment files are S3 object ARNs
+      for (const environmentFile of container.environmentFiles || []) {
+        dependencies.push({
+          reference: environmentFile.value,
+          container: container.name,
+          accessType: 'environment_file'
+        });
+      }
+    }
+    
+    return { dependencies, taskRoleArn: taskDefinition.taskRoleArn };
+  } catch (error) {
+    console.error(`Error getting ECS task definition dependencies for ${service.id}:`, error);
+    return { dependencies: [] };
+  }
+}
+
+export default {
+  name: 'ecs',
+  types: ['ecs'],
+  statusMap: {
+    ecs: ECS_STATUSES
+  },
+  fetch: getECSServices,
+  discoverRelationships: discoverECSRelationships
+};
@@ -0,0 +1,139 @@
+import {
+  EventBridgeClient,
+  ListEventBusesCommand,
+  ListRulesCommand,
+  ListTargetsByRuleCommand
+} from "@aws-sdk/client-eventbridge";
+import { getClient } from '../clients.js';
+import { paginate } from '../pagination.js';
+import { RelationshipType, findReferencedResource } from '../resourceRelationships.js';
+
+// Dashboard status for each EventBridge rule state
+const RULE_STATUSES = {
+  'ENABLED': 'running',
+  'DISABLED': 'stopped',
+  'PENDING': 'pending'
+};
+
+// Rules deliver into queues and topics, and invoke everything else
+const DELIVERY_TARGET_TYPES = ['sqs', 'sns'];
+
+// Fetch EventBridge resources
+async function getEventBridgeResources({ region, accountId }) {
+  const eventBridgeClient = getClient(EventBridgeClient, region, accountId);
+  
+  try {
+    const eventBuses = await paginate(
+      eventBridgeClient,
+      page => new ListEventBusesCommand({ ...page }),
+      { inputToken: 'NextToken', outputToken: 'NextToken', itemsKey: 'EventBuses' }
+    );
+    
+    const buses = eventBuses.map(bus => ({
+      id: bus.Arn,
+      name: bus.Name,
+      type: 'eventbridge',
+      // Event buses have no state, they accept events as long as they exist
+      status: 'running',
+      region,
+      tags: bus.Tags || {},
+      lastUpdated: new Date().toISOString(),
+      details: {
+        eventPattern: 'Event Bus'
+      }
+    }));
+    
+    const eventRules = await paginate(
+      eventBridgeClient,
+      page => new ListRulesCommand({ ...page }),
+      { inputToken: 'NextToken', outputToken: 'NextToken', itemsKey: 'Rules' }
+    );
+    const rules = eventRules.map(rule => ({
+      id: rule.Arn,
+      name: rule.Name,
+      type: 'eventbridge',
+      status: RULE_STATUSES[rule.State] || 'stopped',
+      region,
+      tags: rule.Tags || {},
+      lastUpdated: new Date().toISOString(),
+      details: {
+        eventPattern: rule.EventPattern || rule.ScheduleExpression
+      }
+    }));
+    
+    return [...buses, ...rules];
+  } catch (error) {
+    console.error(`Error fetching EventBridge resources in region ${region}:`, error);
+    throw error;
+  }
+}
+
+// Discover the targets of an EventBridge rule
+async function discoverEventBridgeRelationships(resource, allResources) {
+  const relationships = [];
+
+  // Find EventBridge targets
+  const eventTargets = await getEventBridgeTargets(resource);
+  for (const target of eventTargets) {
+    const targetResource = findReferencedResource(target.arn, allResources, resource);
+    
+    if (targetResource) {
+      relationships.push({
+        sourceId: resource.id,
+        targetId: targetResource.id,
+        type: DELIVERY_TARGET_TYPES.includes(targetResource.type)
+          ? RelationshipType.ROUTES_TO
+          : RelationshipType.TRIGGERS,
+        metadata: {
+          targetId: target.id,
+          deliveryType: 'event-rule',
+          messageGroupId: target.messageGroupId,
+          inputTransformed: target.inputTransformed,
+          deadLetterArn: target.deadLetterArn,
+          maximumRetryAttempts: target.maximumRetryAttempts,
+          maximumEventAgeInSeconds: target.maximumEventAgeInSeconds
+        }
+      });
+    }
+  }
+
+  return relationships;
+}
+
+async function getEventBridgeTargets(eventBridge) {
+  try {
+    const eventBridgeClient = getClient(EventBridgeClient, eventBridge.region, eventBridge.accountId);
+    
+    // Extract rule name from the resource
+    const ruleName = eventBridge.name;
+    
+    const targets = await paginate(
+      eventBridgeClient,
+      page => new ListTargetsByRuleCommand({ Rule: ruleName, ...page }),
+      { inputToken: 'NextToken', outputToken: 'NextToken', itemsKey: 'Targets' }
+    );
+    
+    return targets.map(target => ({
+      id: target.Id,
+      arn: target.Arn,
+      messageGroupId: target.SqsParameters?.MessageGroupId,
+      inputTransformed: Boolean(target.Input || target.InputPath || target.InputTransformer),
+      deadLetterArn: target.DeadLetterConfig?.Arn,
+      maximumRetryAttempts: target.RetryPolicy?.MaximumRetryAttempts,
+      maximumEventAgeInSeconds: target.RetryPolicy?.MaximumEventAgeInSeconds
+    }));
+  } catch (error) {
+    console.error(`Error getting EventBridge targets for ${eventBridge.id}:`, error);
+    return [];
+  }
+}
+
+export default {
+  name: 'eventbridge',
+  types: ['eventbridge'],
+  statusMap: {
+    eventbridge: RULE_STATUSES
+  },
+  fetch: getEventBridgeResources,
+  discoverRelationships: discoverEventBridgeRelationships
+};
@@ -0,0 +1,31 @@
+import { registerCollector } from './registry.js';
+import ecs from './ecs.js';
+import lambda from './lambda.js';
+import aurora from './aurora.js';
+import ec2 from './ec2.js';
+import stepfunctions from './stepfunctions.js';
+import apigateway from './apigateway.js';
+import eventbridge from './eventbridge.js';
+import loadBalancers from './loadBalancers.js';
+import s3 from './s3.js';
+import dynamodb from './dynamodb.js';
+import sqs from './sqs.js';
+import sns from './sns.js';
+
+// Register the built-in collectors
+[
+  ecs,
+  lambda,
+  aurora,
+  ec2,
+  stepfunctions,
+  apigateway,
+  eventbridge,
+  loadBalancers,
+  s3,
+  dynamodb,
+  sqs,
+  sns
+].forEach(registerCollector);
+
+export * from './registry.js';
@@ -0,0 +1,229 @@
+import { 
+  LambdaClient, 
+  ListFunctionsCommand,
+  ListTagsCommand,
+  GetPolicyCommand,
+  GetFunctionCommand
+} from "@aws-sdk/client-lambda";
+import { getClient } from '../clients.js';
+import { paginate } from '../pagination.js';
+import { RelationshipType, findReferencedResource } from '../resourceRelationships.js';
+import { listEventSourceMappings, getFunctionEventSourceTriggers } from '../eventSourceMappings.js';
+import { getRoleDependencies } from '../iamPolicies.js';
+
+// Dashboard status for each Lambda function state
+const LAMBDA_STATUSES = {
+  'Active': 'running',
+  'ACTIVE': 'running',
+  'Inactive': 'stopped',
+  'INACTIVE': 'stopped',
+  'Pending': 'pending',
+  'PENDING': 'pending',
+  'Failed': 'stopped',
+  'FAILED': 'stopped'
+};
+
+// Function ARNs, optionally qualified with a version or alias
+const FUNCTION_ARN_PATTERN = /^(arn:aws[\w-]*:lambda:[\w-]+:\d+:function:[^:]+)(:[^:]+)?$/;
+
+// Fetch Lambda functions
+async function getLambdaFunctions({ region, accountId }) {
+  const lambdaClient = getClient(LambdaClient, region, accountId);
+  
+  try {
+    const functions = await paginate(
+      lambdaClient,
+      page => new ListFunctionsCommand({ ...page }),
+      { inputToken: 'Marker', outputToken: 'NextMarker', itemsKey: 'Functions' }
+    );
+    
+    // Poll-based triggers (SQS, DynamoDB and Kinesis streams, Kafka) are listed once per region
+    const errors = [];
+    let mappingsByFunction = new Map();
+    try {
+      mappingsByFunction = await listEventSourceMappings({ region, accountId });
+    } catch (error) {
+      console.error(`Error fetching Lambda event source mappings in region ${region}:`, error);
+      errors.push(error);
+    }
+    
+    const functionsWithTags = await Promise.all(
+      functions.map(async (func) => {
+        try {
+          const tagsResponse = await lambdaClient.send(new ListTagsCommand({
+            Resource: func.FunctionArn
+          }));
+          
+          const tags = tagsResponse.Tags || {};
+          const status = LAMBDA_STATUSES[func.State] || 
+                        (func.State?.toLowerCase() === 'inactive' ? 'stopped' : 'running');
+          
+          return {
+            id: func.FunctionArn,
+            name: func.FunctionName,
+            type: 'lambda',
+            status,
+            region,
+            tags,
+            lastUpdated: func.LastModified,
+            details: {
+              roleArn: func.Role,
+              eventSourceMappings: mappingsByFunction.get(func.FunctionArn) || []
+            }
+          };
+        } catch (error) {
+          console.error(`Error fetching tags for Lambda function ${func.FunctionArn}:`, error);
+          return {
+            id: func.FunctionArn,
+            name: func.FunctionName,
+            type: 'lambda',
+            status: 'running',
+            region,
+            tags: {},
+            lastUpdated: func.LastModified,
+            details: {
+              roleArn: func.Role,
+              eventSourceMappings: mappingsByFunction.get(func.FunctionArn) || []
+            }
+          };
+        }
+      })
+    );
+    
+    return { resources: functionsWithTags, errors };
+  } catch (error) {
+    console.error(`Error fetching Lambda functions in region ${region}:`, error);
+    throw error;
+  }
+}
+
+// Discover triggers and dependencies of a Lambda function
+async function discoverLambdaRelationships(resource, allResources) {
+  const relationships = [];
+
+  // Find poll-based triggers from the event source mappings collected with the function
+  relationships.push(...getFunctionEventSourceTriggers(resource, allResources));
+
+  // Find Lambda triggers (API Gateway, EventBridge, etc.)
+  const lambdaTriggers = await getLambdaTriggers(resource);
+  for (const trigger of lambdaTriggers) {
+    const triggerResource = allResources.find(r => r.id === trigger.sourceArn);
+    if (triggerResource) {
+      relationships.push({
+        sourceId: triggerResource.id,
+        targetId: resource.id,
+        type: RelationshipType.TRIGGERS,
+        metadata: {
+          eventType: trigger.eventType
+        }
+      });
+    }
+  }
+  
+  // Find Lambda dependencies (DynamoDB, S3, etc.)
+  const lambdaDependencies = await getLambdaDependencies(resource);
+  for (const dependency of lambdaDependencies) {
+    const dependencyResource = findReferencedResource(dependency.reference, allResources, resource);
+    if (dependencyResource && dependencyResource.id !== resource.id) {
+      relationships.push({
+        sourceId: resource.id,
+        targetId: dependencyResource.id,
+        type: RelationshipType.DEPENDS_ON,
+        metadata: {
+          accessType: dependency.accessType,
+          environmentVariable: dependency.environmentVariable
+        }
+      });
+    }
+  }
+  
+  // Find resources the execution role's policies grant access to
+  relationships.push(...await getRoleDependencies(resource, resource.details?.roleArn, allResources));
+
+  return relationships;
+}
+
+async function getLambdaTriggers(lambda) {
+  try {
+    const lambdaClient = getClient(LambdaClient, lambda.region, lambda.accountId);
+    
+    const policyResponse = await lambdaClient.send(new GetPolicyCommand({
+      FunctionName: lambda.name
+    }));
+    
+    const policy = JSON.parse(policyResponse.Policy);
+    const triggers = [];
+    
+    for (const statement of policy.Statement) {
+      if (statement.Principal && statement.Principal.Service) {
+        const service = statement.Principal.Service;
+        const sourceArn = statement.Condition?.ArnLike?.['AWS:SourceArn'] || 
+                         statement.Condition?.ArnEquals?.['AWS:SourceArn'];
+        
+        if (sourceArn) {
+          triggers.push({
+            sourceArn,
+            eventType: service
+          });
+        }
+      }
+    }
+    
+    return triggers;
+  } catch (error) {
+    // Policy might not exist if there are no triggers
+    if (error.name !== 'ResourceNotFoundException') {
+      console.error(`Error getting Lambda triggers for ${lambda.id}:`, error);
+    }
+    return [];
+  }
+}
+
+async function getLambdaDependencies(lambda) {
+  try {
+    const lambdaClient = getClient(LambdaClient, lambda.region, lambda.accountId);
+    
+    const functionResponse = await lambdaClient.send(new GetFunctionCommand({
+      FunctionName: lambda.name
+    }));
+    
+    const dependencies = [];
+    const envVars = functionResponse.Configuration.Environment?.Variables || {};
+    
+    // Environment variables may hold ARNs, bucket names, queue URLs...
+    // findReferencedResource decides which ones point at a known resource
+    for (const [key, value] of Object.entries(envVars)) {
+      if (typeof value === 'string' && value) {
+        dependencies.push({
+          reference: value,
+          environmentVariable: key,
+          accessType: 'environment'
+        });
+      }
+    }
+    
+    return dependencies;
+  } catch (error) {
+    console.error(`Error getting Lambda dependencies for ${lambda.id}:`, error);
+    return [];
+  }
+}
+
+// Versions and aliases belong to the unqualified function in the inventory
+function resolveFunctionReference(value, allResources) {
+  const functionArn = value.match(FUNCTION_ARN_PATTERN)?.[1];
+  return functionArn
+    ? allResources.find(r => r.type === 'lambda' && r.id === functionArn)
+    : undefined;
+}
+
+export default {
+  name: 'lambda',
+  types: ['lambda'],
+  statusMap: {
+    lambda: LAMBDA_STATUSES
+  },
+  fetch: getLambdaFunctions,
+  discoverRelationships: discoverLambdaRelationships,
+  resolveReference: resolveFunctionReference
+};
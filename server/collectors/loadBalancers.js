@@ -0,0 +1,312 @@
+import {
+  ElasticLoadBalancingV2Client,
+  DescribeLoadBalancersCommand,
+  DescribeTargetGroupsCommand,
+  DescribeTargetHealthCommand,
+  DescribeListenersCommand,
+  DescribeRulesCommand
+} from "@aws-sdk/client-elastic-load-balancing-v2";
+import {
+  EC2Client,
+  DescribeNetworkInterfacesCommand
+} from "@aws-sdk/client-ec2";
+import { getClient } from '../clients.js';
+import { paginate, chunk } from '../pagination.js';
+import { RelationshipType, findReferencedResource } from '../resourceRelationships.js';
+import { getTaskNetworkInterfaces } from '../ecsTasks.js';
+
+// Dashboard status for each load balancer state, shared by ALBs and NLBs
+const LOAD_BALANCER_STATUSES = {
+  'active': 'running',
+  'provisioning': 'pending',
+  'failed': 'stopped',
+  'inactive': 'stopped'
+};
+
+// EC2 filters accept at most 200 values
+const FILTER_VALUES_LIMIT = 200;
+
+// Target health states that mean the target isn't serving traffic
+const UNHEALTHY_TARGET_STATES = ['unhealthy', 'unavailable'];
+
+// Readable form of a listener rule condition, e.g. `path-pattern /api/*`
+function describeRuleCondition(condition) {
+  const values =
+    condition.PathPatternConfig?.Values ||
+    condition.HostHeaderConfig?.Values ||
+    condition.HttpRequestMethodConfig?.Values ||
+    condition.SourceIpConfig?.Values ||
+    condition.HttpHeaderConfig?.Values?.map(value => `${condition.HttpHeaderConfig.HttpHeaderName}: ${value}`) ||
+    condition.QueryStringConfig?.Values?.map(({ Key, Value }) => (Key ? `${Key}=${Value}` : Value)) ||
+    condition.Values ||
+    [];
+  return `${condition.Field} ${values.join(', ')}`;
+}
+
+// Target groups a rule forwards to, whether through a single or weighted forward action
+function getForwardedTargetGroupArns(actions) {
+  return (actions || [])
+    .filter(action => action.Type === 'forward')
+    .flatMap(action => action.ForwardConfig?.TargetGroups?.map(group => group.TargetGroupArn) || [action.TargetGroupArn])
+    .filter(Boolean);
+}
+
+// Listener rules of a load balancer, keyed by the target groups they forward to
+async function getListenerRulesByTargetGroup(elbv2Client, loadBalancerArn) {
+  const listeners = await paginate(
+    elbv2Client,
+    page => new DescribeListenersCommand({ LoadBalancerArn: loadBalancerArn, ...page }),
+    { inputToken: 'Marker', outputToken: 'NextMarker', itemsKey: 'Listeners' }
+  );
+
+  const rulesByTargetGroup = new Map();
+  for (const listener of listeners) {
+    const rules = await paginate(
+      elbv2Client,
+      page => new DescribeRulesCommand({ ListenerArn: listener.ListenerArn, ...page }),
+      { inputToken: 'Marker', outputToken: 'NextMarker', itemsKey: 'Rules' }
+    );
+
+    for (const rule of rules) {
+      for (const targetGroupArn of getForwardedTargetGroupArns(rule.Actions)) {
+        if (!rulesByTargetGroup.has(targetGroupArn)) rulesByTargetGroup.set(targetGroupArn, []);
+        rulesByTargetGroup.get(targetGroupArn).push({
+          listener: `${listener.Protocol}:${listener.Port}`,
+          priority: rule.Priority,
+          isDefault: rule.IsDefault || false,
+          conditions: (rule.Conditions || []).map(describeRuleCondition)
+        });
+      }
+    }
+  }
+
+  return rulesByTargetGroup;
+}
+
+// Failure to read part of a load balancer, naming what couldn't be read
+function toDetailsError(description, error) {
+  const detailsError = new Error(`Error fetching ${description}: ${error.message}`);
+  detailsError.name = error.name;
+  return detailsError;
+}
+
+// Target groups of a load balancer with their listener rules and per-target
+// health. Parts that can't be read are left empty and their failure is added
+// to `errors`, so the load balancer is still listed.
+async function getTargetGroups(elbv2Client, loadBalancerArn, errors) {
+  const [targetGroupsResult, rulesResult] = await Promise.allSettled([
+    paginate(
+      elbv2Client,
+      page => new DescribeTargetGroupsCommand({ LoadBalancerArn: loadBalancerArn, ...page }),
+      { inputToken: 'Marker', outputToken: 'NextMarker', itemsKey: 'TargetGroups' }
+    ),
+    getListenerRulesByTargetGroup(elbv2Client, loadBalancerArn)
+  ]);
+  if (targetGroupsResult.status === 'rejected') {
+    errors.push(toDetailsError(`target groups of ${loadBalancerArn}`, targetGroupsResult.reason));
+  }
+  if (rulesResult.status === 'rejected') {
+    errors.push(toDetailsError(`listener rules of ${loadBalancerArn}`, rulesResult.reason));
+  }
+  const targetGroups = targetGroupsResult.value || [];
+  const rulesByTargetGroup = rulesResult.value || new Map();
+
+  return Promise.all(targetGroups.map(async (targetGroup) => {
+    let targetHealth = [];
+    try {
+      const response = await elbv2Client.send(new DescribeTargetHealthCommand({
+        TargetGroupArn: targetGroup.TargetGroupArn
+      }));
+      targetHealth = response.TargetHealthDescriptions || [];
+    } catch (error) {
+      errors.push(toDetailsError(`target health of ${targetGroup.TargetGroupArn}`, error));
+    }
+
+    return {
+      arn: targetGroup.TargetGroupArn,
+      name: targetGroup.TargetGroupName,
+      targetType: targetGroup.TargetType,
+      protocol: targetGroup.Protocol,
+      port: targetGroup.Port,
+      vpcId: targetGroup.VpcId,
+      healthCheckPath: targetGroup.HealthCheckPath,
+      listenerRules: rulesByTargetGroup.get(targetGroup.TargetGroupArn) || [],
+      targets: targetHealth.map(description => ({
+        id: description.Target.Id,
+        port: description.Target.Port,
+        availabilityZone: description.Target.AvailabilityZone,
+        state: description.TargetHealth?.State,
+        reason: description.TargetHealth?.Reason,
+        description: description.TargetHealth?.Description
+      }))
+    };
+  }));
+}
+
+// Fetch Load Balancers
+async function getLoadBalancers({ region, accountId }) {
+  const elbv2Client = getClient(ElasticLoadBalancingV2Client, region, accountId);
+
+  try {
+    const loadBalancers = await paginate(
+      elbv2Client,
+      page => new DescribeLoadBalancersCommand({ ...page }),
+      { inputToken: 'Marker', outputToken: 'NextMarker', itemsKey: 'LoadBalancers' }
+    );
+
+    const errors = [];
+    const resources = await Promise.all(
+      loadBalancers.map(async (lb) => {
+        const targetGroups = await getTargetGroups(elbv2Client, lb.LoadBalancerArn, errors);
+
+        const type = lb.Type.toLowerCase() === 'application' ? 'alb' : 'nlb';
+
+        return {
+          id: lb.LoadBalancerArn,
+          name: lb.LoadBalancerName,
+          type,
+          status: LOAD_BALANCER_STATUSES[lb.State.Code] || 'stopped',
+          region,
+          tags: lb.Tags || {},
+          lastUpdated: lb.CreatedTime?.toISOString(),
+          details: {
+            dnsName: lb.DNSName,
+            scheme: lb.Scheme,
+            availabilityZones: lb.AvailabilityZones.map(az => az.ZoneName),
+            targetGroups
+          }
+        };
+      })
+    );
+
+    return { resources, errors };
+  } catch (error) {
+    console.error(`Error fetching Load Balancers in region ${region}:`, error);
+    throw error;
+  }
+}
+
+// Discover the resources behind a load balancer's target groups. Every target
+// resource gets one edge listing the target groups, rules and targets leading to it.
+async function discoverLoadBalancerRelationships(resource, allResources) {
+  const edges = new Map();
+
+  for (const targetGroup of resource.details?.targetGroups || []) {
+    const resolvedTargets = targetGroup.targetType === 'ip'
+      ? await resolveIpTargets(resource, targetGroup, allResources)
+      // Instance, Lambda and ALB targets are registered by ID or ARN
+      : targetGroup.targets.map(target => ({
+          target,
+          resource: findReferencedResource(target.id, allResources, resource)
+        }));
+
+    for (const { target, resource: targetResource, taskId } of resolvedTargets) {
+      if (!targetResource) continue;
+
+      if (!edges.has(targetResource.id)) {
+        edges.set(targetResource.id, {
+          sourceId: resource.id,
+          targetId: targetResource.id,
+          type: RelationshipType.ROUTES_TO,
+          metadata: {
+            protocol: targetGroup.protocol,
+            port: targetGroup.port,
+            targetGroups: []
+          }
+        });
+      }
+
+      const edgeTargetGroups = edges.get(targetResource.id).metadata.targetGroups;
+      let edgeTargetGroup = edgeTargetGroups.find(group => group.arn === targetGroup.arn);
+      if (!edgeTargetGroup) {
+        edgeTargetGroup = { ...targetGroup, targets: [] };
+        edgeTargetGroups.push(edgeTargetGroup);
+      }
+      edgeTargetGroup.targets.push(taskId ? { ...target, taskId } : target);
+    }
+  }
+
+  return Array.from(edges.values()).map(edge => {
+    const targets = edge.metadata.targetGroups.flatMap(group => group.targets);
+    edge.metadata.targetHealth = {
+      healthy: targets.filter(target => target.state === 'healthy').length,
+      unhealthy: targets.filter(target => UNHEALTHY_TARGET_STATES.includes(target.state)).length,
+      total: targets.length
+    };
+    return edge;
+  });
+}
+
+// IP targets are matched to the network interface holding the address in the
+// target group's VPC, then to the ECS task that interface is attached to.
+// Addresses on other interfaces (e.g. EC2 instances) resolve to the instance.
+async function resolveIpTargets(loadBalancer, targetGroup, allResources) {
+  if (targetGroup.targets.length === 0) return [];
+
+  try {
+    const ec2Client = getClient(EC2Client, loadBalancer.region, loadBalancer.accountId);
+    const networkInterfaces = [];
+    for (const ipChunk of chunk(targetGroup.targets.map(target => target.id), FILTER_VALUES_LIMIT)) {
+      networkInterfaces.push(...await paginate(
+        ec2Client,
+        page => new DescribeNetworkInterfacesCommand({
+          Filters: [
+            { Name: 'vpc-id', Values: [targetGroup.vpcId] },
+            { Name: 'addresses.private-ip-address', Values: ipChunk }
+          ],
+          ...page
+        }),
+        { inputToken: 'NextToken', outputToken: 'NextToken', itemsKey: 'NetworkInterfaces' }
+      ));
+    }
+
+    const ecsServices = allResources.filter(r =>
+      r.type === 'ecs' && r.region === loadBalancer.region && r.accountId === loadBalancer.accountId
+    );
+    const tasksByNetworkInterface = ecsServices.length > 0
+      ? await getTaskNetworkInterfaces({
+          region: loadBalancer.region,
+          accountId: loadBalancer.accountId,
+          clusterNames: Array.from(new Set(ecsServices.map(service => service.details?.clusterName).filter(Boolean)))
+        })
+      : new Map();
+
+    return targetGroup.targets.map(target => {
+      const networkInterface = networkInterfaces.find(eni =>
+        (eni.PrivateIpAddresses || []).some(address => address.PrivateIpAddress === target.id)
+      );
+      if (!networkInterface) return { target };
+
+      const task = tasksByNetworkInterface.get(networkInterface.NetworkInterfaceId);
+      if (task) {
+        return {
+          target,
+          taskId: task.taskId,
+          resource: ecsServices.find(service =>
+            service.name === task.serviceName && service.details?.clusterName === task.clusterName
+          )
+        };
+      }
+
+      const instanceId = networkInterface.Attachment?.InstanceId;
+      return {
+        target,
+        resource: instanceId && findReferencedResource(instanceId, allResources, loadBalancer)
+      };
+    });
+  } catch (error) {
+    console.error(`Error resolving IP targets of target group ${targetGroup.arn}:`, error);
+    return [];
+  }
+}
+
+export default {
+  name: 'loadBalancers',
+  types: ['alb', 'nlb'],
+  statusMap: {
+    alb: LOAD_BALANCER_STATUSES,
+    nlb: LOAD_BALANCER_STATUSES
+  },
+  fetch: getLoadBalancers,
+  discoverRelationships: discoverLoadBalancerRelationships
+};
@@ -0,0 +1,60 @@
+// Registry of resource collectors. Each collector describes one AWS service:
+//   name                  - unique collector name used in config
+//   types                 - AWSResourceType values the collector produces
+//   statusMap             - { [type]: { [AWS state]: status } }, how the collector maps the
+//                           states AWS reports to resource statuses, keyed by resource type
+//   fetch                 - async ({ region, accountId, options }) => resources[] | { resources, relationships, errors }
+//                           Throwing marks the collector as failed for the region; `errors`
+//                           reports partial failures alongside the resources that were collected
+//   discoverRelationships - async (resource, allResources) => relationships[]
+//   resolveReference      - optional (value, allResources, fromResource) => resource | undefined,
+//                           finds the resource a configuration value (e.g. an environment
+//                           variable of fromResource) refers to when it is not simply its ARN
+const collectors = new Map();
+
+export function registerCollector(collector) {
+  if (!collector?.name || typeof collector.fetch !== 'function') {
+    throw new Error('A collector needs a name and a fetch function');
+  }
+  if (collectors.has(collector.name)) {
+    throw new Error(`Collector "${collector.name}" is already registered`);
+  }
+
+  collectors.set(collector.name, {
+    types: [],
+    statusMap: {},
+    ...collector
+  });
+}
+
+export function getCollectors() {
+  return Array.from(collectors.values());
+}
+
+// Find the collector responsible for a resource type
+export function getCollectorForType(type) {
+  return getCollectors().find(collector => collector.types.includes(type));
+}
+
+// The status mapping of a resource type, taken from its collector
+export function getStatusMap(type) {
+  return getCollectorForType(type)?.statusMap[type] || {};
+}
+
+// Resolve which collectors to run from the collectors section of the config
+export function getEnabledCollectors(collectorsConfig = {}) {
+  const { enabled, disabled = [] } = collectorsConfig;
+
+  if (enabled) {
+    for (const name of enabled) {
+      if (!collectors.has(name)) {
+        console.warn(`Unknown collector "${name}" in configuration`);
+      }
+    }
+  }
+
+  return getCollectors().filter(collector =>
+    (!enabled || enabled.includes(collector.name)) &&
+    !disabled.includes(collector.name)
+  );
+}
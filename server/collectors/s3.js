@@ -0,0 +1,190 @@
+import {
+  S3Client,
+  ListBucketsCommand,
+  GetBucketLocationCommand,
+  GetBucketTaggingCommand,
+  GetBucketVersioningCommand,
+  GetBucketEncryptionCommand,
+  GetPublicAccessBlockCommand
+} from "@aws-sdk/client-s3";
+import { getClient } from '../clients.js';
+import { paginate, chunk } from '../pagination.js';
+
+// Ways a bucket shows up in configuration: ARN, s3:// URI or virtual-hosted URL.
+// Anything else is compared with the bucket name as-is.
+const BUCKET_REFERENCE_PATTERNS = [
+  /^arn:aws[\w-]*:s3:::([^/]+)/,
+  /^s3:\/\/([^/]+)/,
+  /^https?:\/\/([^/]+)\.s3[.-]/
+];
+
+// Bucket regions are looked up once per account and shared by the collectors
+// of its regions during a refresh
+const BUCKET_REGION_CACHE_TTL_MS = 60 * 1000;
+const bucketRegionCache = new Map();
+
+// GetBucketLocation calls made at once
+const BUCKET_LOCATION_CONCURRENCY = 10;
+
+// GetBucketLocation reports us-east-1 as an empty constraint and eu-west-1 as 'EU'
+function bucketRegionFromLocation(locationConstraint) {
+  if (!locationConstraint) return 'us-east-1';
+  if (locationConstraint === 'EU') return 'eu-west-1';
+  return locationConstraint;
+}
+
+// Read a bucket setting, treating "not configured" errors as the given fallback
+async function getBucketSetting(s3Client, command, notConfiguredCodes, fallback) {
+  try {
+    return await s3Client.send(command);
+  } catch (error) {
+    if (notConfiguredCodes.includes(error.name) || notConfiguredCodes.includes(error.Code)) {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+async function getBucketDetails(s3Client, bucketName) {
+  const [tagging, versioning, encryption, publicAccessBlock] = await Promise.all([
+    getBucketSetting(s3Client, new GetBucketTaggingCommand({ Bucket: bucketName }), ['NoSuchTagSet'], {}),
+    s3Client.send(new GetBucketVersioningCommand({ Bucket: bucketName })),
+    getBucketSetting(
+      s3Client,
+      new GetBucketEncryptionCommand({ Bucket: bucketName }),
+      ['ServerSideEncryptionConfigurationNotFoundError'],
+      {}
+    ),
+    getBucketSetting(
+      s3Client,
+      new GetPublicAccessBlockCommand({ Bucket: bucketName }),
+      ['NoSuchPublicAccessBlockConfiguration'],
+      {}
+    )
+  ]);
+
+  const tags = (tagging.TagSet || []).reduce((acc, tag) => {
+    acc[tag.Key] = tag.Value;
+    return acc;
+  }, {});
+  const defaultEncryption = encryption.ServerSideEncryptionConfiguration?.Rules?.[0]?.ApplyServerSideEncryptionByDefault;
+  const accessBlock = publicAccessBlock.PublicAccessBlockConfiguration || {};
+
+  return {
+    tags,
+    details: {
+      // Versioning is reported without a status until it has been enabled once
+      versioning: versioning.Status || 'Disabled',
+      encryption: defaultEncryption?.SSEAlgorithm || 'None',
+      kmsKeyId: defaultEncryption?.KMSMasterKeyID,
+      publicAccessBlock: {
+        blockPublicAcls: accessBlock.BlockPublicAcls || false,
+        ignorePublicAcls: accessBlock.IgnorePublicAcls || false,
+        blockPublicPolicy: accessBlock.BlockPublicPolicy || false,
+        restrictPublicBuckets: accessBlock.RestrictPublicBuckets || false
+      }
+    }
+  };
+}
+
+// Region of every bucket, by name, for buckets ListBuckets didn't report one
+// for. Lookups are cached per account, a bucket whose location can't be read
+// is cached as null and reported by the collector run that looked it up.
+async function getBucketRegions(s3Client, accountId, buckets) {
+  const cached = bucketRegionCache.get(accountId);
+  const entry = cached && Date.now() - cached.fetchedAt < BUCKET_REGION_CACHE_TTL_MS
+    ? cached
+    : { regions: new Map(), fetchedAt: Date.now() };
+  bucketRegionCache.set(accountId, entry);
+
+  const errors = [];
+  const unknown = buckets.filter(bucket => !entry.regions.has(bucket.Name));
+  for (const bucketChunk of chunk(unknown, BUCKET_LOCATION_CONCURRENCY)) {
+    await Promise.all(bucketChunk.map(async (bucket) => {
+      // Concurrent collector runs share the pending lookup
+      const lookup = s3Client.send(new GetBucketLocationCommand({ Bucket: bucket.Name }))
+        .then(location => bucketRegionFromLocation(location.LocationConstraint))
+        .catch(error => {
+          const lookupError = new Error(`Error finding the region of S3 bucket ${bucket.Name}: ${error.message}`);
+          lookupError.name = error.name;
+          errors.push(lookupError);
+          return null;
+        });
+      entry.regions.set(bucket.Name, lookup);
+      await lookup;
+    }));
+  }
+
+  const regions = new Map();
+  for (const bucket of buckets) {
+    regions.set(bucket.Name, await entry.regions.get(bucket.Name));
+  }
+  return { regions, errors };
+}
+
+// Fetch the S3 buckets located in a region
+async function getS3Buckets({ region, accountId }) {
+  const s3Client = getClient(S3Client, region, accountId);
+
+  try {
+    // ListBuckets is global, BucketRegion narrows it down where the API supports it
+    const buckets = await paginate(
+      s3Client,
+      page => new ListBucketsCommand({ BucketRegion: region, ...page }),
+      { inputToken: 'ContinuationToken', outputToken: 'ContinuationToken', itemsKey: 'Buckets' }
+    );
+
+    // Without BucketRegion support every bucket of the account is listed
+    const { regions, errors } = await getBucketRegions(
+      s3Client,
+      accountId,
+      buckets.filter(bucket => !bucket.BucketRegion)
+    );
+    const regionalBuckets = buckets.filter(bucket => (bucket.BucketRegion || regions.get(bucket.Name)) === region);
+
+    const resources = await Promise.all(
+      regionalBuckets.map(async (bucket) => {
+        const resource = {
+          id: `arn:aws:s3:::${bucket.Name}`,
+          name: bucket.Name,
+          type: 's3',
+          // Buckets have no lifecycle state, an existing bucket is available
+          status: 'running',
+          region,
+          tags: {},
+          lastUpdated: bucket.CreationDate?.toISOString(),
+          details: {}
+        };
+
+        try {
+          return { ...resource, ...(await getBucketDetails(s3Client, bucket.Name)) };
+        } catch (error) {
+          console.error(`Error fetching settings for S3 bucket ${bucket.Name}:`, error);
+          return resource;
+        }
+      })
+    );
+
+    // A bucket whose region can't be found is reported without hiding the others
+    return { resources, errors };
+  } catch (error) {
+    console.error(`Error fetching S3 buckets in region ${region}:`, error);
+    throw error;
+  }
+}
+
+// Find the bucket a configuration value refers to by ARN, URI or name
+function resolveBucketReference(value, allResources) {
+  const bucketName = BUCKET_REFERENCE_PATTERNS
+    .map(pattern => value.match(pattern)?.[1])
+    .find(Boolean) || value;
+
+  return allResources.find(r => r.type === 's3' && r.name === bucketName);
+}
+
+export default {
+  name: 's3',
+  types: ['s3'],
+  fetch: getS3Buckets,
+  resolveReference: resolveBucketReference
+};
@@ -0,0 +1,46 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mockClients, restoreClients, awsError } from '../testing/mockClients.js';
+import s3 from './s3.js';
+
+// Without BucketRegion support ListBuckets returns every bucket of the account
+const buckets = [{ Name: 'east' }, { Name: 'west' }, { Name: 'europe' }, { Name: 'locked' }];
+const locations = { east: undefined, west: 'us-west-2', europe: 'EU' };
+
+describe('s3 collector', () => {
+  afterEach(restoreClients);
+
+  it('looks bucket regions up once per account and skips buckets it cannot locate', async () => {
+    const calls = mockClients({
+      ListBucketsCommand: { Buckets: buckets },
+      GetBucketLocationCommand: input => {
+        if (input.Bucket === 'locked') throw awsError('AccessDenied', 'Access Denied');
+        return { LocationConstraint: locations[input.Bucket] };
+      }
+    });
+
+    const east = await s3.fetch({ region: 'us-east-1', accountId: '111111111111', options: {} });
+    const europe = await s3.fetch({ region: 'eu-west-1', accountId: '111111111111', options: {} });
+
+    assert.deepEqual(east.resources.map(r => r.name), ['east']);
+    assert.deepEqual(europe.resources.map(r => r.name), ['europe']);
+    assert.equal(calls.filter(call => call.name === 'GetBucketLocationCommand').length, buckets.length);
+
+    // The failed lookup is reported once, by the run that made it
+    assert.equal(east.errors.length, 1);
+    assert.match(east.errors[0].message, /locked/);
+    assert.equal(east.errors[0].name, 'AccessDenied');
+    assert.deepEqual(europe.errors, []);
+  });
+
+  it('uses the region ListBuckets reports without looking it up', async () => {
+    const calls = mockClients({
+      ListBucketsCommand: { Buckets: [{ Name: 'east', BucketRegion: 'us-east-1' }] }
+    });
+
+    const { resources } = await s3.fetch({ region: 'us-east-1', accountId: '222222222222', options: {} });
+
+    assert.deepEqual(resources.map(r => r.name), ['east']);
+    assert.ok(!calls.some(call => call.name === 'GetBucketLocationCommand'));
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  SNSClient,
+  ListTopicsCommand,
+  GetTopicAttributesCommand,
+  ListSubscriptionsByTopicCommand,
+  GetSubscriptionAttributesCommand,
+  ListTagsForResourceCommand
+} from "@aws-sdk/client-sns";
+import { getClient } from '../clients.js';
+import { paginate } from '../pagination.js';
+import { RelationshipType, findReferencedResource } from '../resourceRelationships.js';
+
+// Subscriptions awaiting confirmation have no ARN yet
+const PENDING_CONFIRMATION = 'PendingConfirmation';
+
+// Delivering into a queue routes the message, invoking a function triggers it
+const SUBSCRIPTION_RELATIONSHIP_TYPES = {
+  sqs: RelationshipType.ROUTES_TO,
+  lambda: RelationshipType.TRIGGERS
+};
+
+// Fetch SNS topics and their subscriptions
+async function getSNSTopics({ region, accountId }) {
+  const snsClient = getClient(SNSClient, region, accountId);
+
+  try {
+    const topics = await paginate(
+      snsClient,
+      page => new ListTopicsCommand({ ...page }),
+      { inputToken: 'NextToken', outputToken: 'NextToken', itemsKey: 'Topics' }
+    );
+
+    const results = await Promise.allSettled(
+      topics.map(async ({ TopicArn: topicArn }) => {
+        const [{ Attributes: attributes = {} }, subscriptions] = await Promise.all([
+          snsClient.send(new GetTopicAttributesCommand({ TopicArn: topicArn })),
+          paginate(
+            snsClient,
+            page => new ListSubscriptionsByTopicCommand({ TopicArn: topicArn, ...page }),
+            { inputToken: 'NextToken', outputToken: 'NextToken', itemsKey: 'Subscriptions' }
+          )
+        ]);
+
+        let tags = {};
+        try {
+          const tagsResponse = await snsClient.send(new ListTagsForResourceCommand({ ResourceArn: topicArn }));
+          tags = (tagsResponse.Tags || []).reduce((acc, tag) => {
+            acc[tag.Key] = tag.Value;
+            return acc;
+          }, {});
+        } catch (error) {
+          console.error(`Error fetching tags for SNS topic ${topicArn}:`, error);
+        }
+
+        return {
+          id: topicArn,
+          name: topicArn.split(':').pop(),
+          type: 'sns',
+          // Topics have no lifecycle state, an existing topic is available
+          status: 'running',
+          region,
+          tags,
+          details: {
+            displayName: attributes.DisplayName || undefined,
+            fifo: attributes.FifoTopic === 'true',
+            kmsKeyId: attributes.KmsMasterKeyId,
+            subscriptions: subscriptions.map(subscription => ({
+              subscriptionArn: subscription.SubscriptionArn,
+              protocol: subscription.Protocol,
+              endpoint: subscription.Endpoint,
+              pendingConfirmation: subscription.SubscriptionArn === PENDING_CONFIRMATION
+            }))
+          }
+        };
+      })
+    );
+
+    // A topic that can't be read is reported without hiding the others
+    return {
+      resources: results
+        .filter(result => result.status === 'fulfilled')
+        .map(result => result.value),
+      errors: results
+        .filter(result => result.status === 'rejected')
+        .map(result => result.reason)
+    };
+  } catch (error) {
+    console.error(`Error fetching SNS topics in region ${region}:`, error);
+    throw error;
+  }
+}
+
+// Delivery settings of a subscription, e.g. raw delivery and filter policy
+async function getSubscriptionDeliveryMetadata(topic, subscriptionArn) {
+  try {
+    const snsClient = getClient(SNSClient, topic.region, topic.accountId);
+    const { Attributes: attributes = {} } = await snsClient.send(new GetSubscriptionAttributesCommand({
+      SubscriptionArn: subscriptionArn
+    }));
+
+    return {
+      rawMessageDelivery: attributes.RawMessageDelivery === 'true',
+      filterPolicy: attributes.FilterPolicy,
+      filterPolicyScope: attributes.FilterPolicy ? attributes.FilterPolicyScope || 'MessageAttributes' : undefined,
+      deadLetterArn: attributes.RedrivePolicy ? JSON.parse(attributes.RedrivePolicy).deadLetterTargetArn : undefined
+    };
+  } catch (error) {
+    console.error(`Error getting SNS subscription attributes for ${subscriptionArn}:`, error);
+    return {};
+  }
+}
+
+// Discover the queues and functions subscribed to a topic
+async function discoverSNSRelationships(resource, allResources) {
+  const relationships = [];
+
+  for (const subscription of resource.details?.subscriptions || []) {
+    const type = SUBSCRIPTION_RELATIONSHIP_TYPES[subscription.protocol];
+    if (!type) continue;
+
+    const subscriber = findReferencedResource(subscription.endpoint, allResources, resource);
+    if (!subscriber) continue;
+
+    const deliveryMetadata = subscription.pendingConfirmation
+      ? {}
+      : await getSubscriptionDeliveryMetadata(resource, subscription.subscriptionArn);
+
+    relationships.push({
+      sourceId: resource.id,
+      targetId: subscriber.id,
+      type,
+      metadata: {
+        deliveryType: 'subscription',
+        protocol: subscription.protocol,
+        subscriptionArn: subscription.subscriptionArn,
+        pendingConfirmation: subscription.pendingConfirmation,
+        ...deliveryMetadata
+      }
+    });
+  }
+
+  return relationships;
+}
+
+export default {
+  name: 'sns',
+  types: ['sns'],
+  fetch: getSNSTopics,
+  discoverRelationships: discoverSNSRelationships
+};
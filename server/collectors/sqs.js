@@ -0,0 +1,140 @@
+import {
+  SQSClient,
+  ListQueuesCommand,
+  GetQueueAttributesCommand,
+  ListQueueTagsCommand
+} from "@aws-sdk/client-sqs";
+import { getClient } from '../clients.js';
+import { paginate } from '../pagination.js';
+import { RelationshipType, findReferencedResource } from '../resourceRelationships.js';
+import { getEventSourceMappingTriggers } from '../eventSourceMappings.js';
+
+// Queue URLs look like https://sqs.<region>.amazonaws.com/<account>/<name>
+const QUEUE_URL_PATTERN = /^https:\/\/sqs\.[\w-]+\.amazonaws\.com(\.cn)?\/\d+\/[^/]+$/;
+
+function toNumber(value) {
+  return value === undefined ? undefined : Number(value);
+}
+
+// RedrivePolicy is a JSON string on the queue attributes
+function parseRedrivePolicy(redrivePolicy) {
+  if (!redrivePolicy) return undefined;
+  try {
+    const { deadLetterTargetArn, maxReceiveCount } = JSON.parse(redrivePolicy);
+    return { deadLetterTargetArn, maxReceiveCount: toNumber(maxReceiveCount) };
+  } catch (error) {
+    console.error(`Error parsing SQS redrive policy ${redrivePolicy}:`, error);
+    return undefined;
+  }
+}
+
+// Fetch SQS queues
+async function getSQSQueues({ region, accountId }) {
+  const sqsClient = getClient(SQSClient, region, accountId);
+
+  try {
+    const queueUrls = await paginate(
+      sqsClient,
+      page => new ListQueuesCommand({ MaxResults: 1000, ...page }),
+      { inputToken: 'NextToken', outputToken: 'NextToken', itemsKey: 'QueueUrls' }
+    );
+
+    const results = await Promise.allSettled(
+      queueUrls.map(async (queueUrl) => {
+        const { Attributes: attributes = {} } = await sqsClient.send(new GetQueueAttributesCommand({
+          QueueUrl: queueUrl,
+          AttributeNames: ['All']
+        }));
+
+        let tags = {};
+        try {
+          const tagsResponse = await sqsClient.send(new ListQueueTagsCommand({ QueueUrl: queueUrl }));
+          tags = tagsResponse.Tags || {};
+        } catch (error) {
+          console.error(`Error fetching tags for SQS queue ${queueUrl}:`, error);
+        }
+
+        return {
+          id: attributes.QueueArn,
+          name: queueUrl.split('/').pop(),
+          type: 'sqs',
+          // Queues have no lifecycle state, an existing queue is available
+          status: 'running',
+          region,
+          tags,
+          lastUpdated: attributes.LastModifiedTimestamp
+            ? new Date(Number(attributes.LastModifiedTimestamp) * 1000).toISOString()
+            : undefined,
+          details: {
+            queueUrl,
+            fifo: attributes.FifoQueue === 'true',
+            messagesAvailable: toNumber(attributes.ApproximateNumberOfMessages),
+            messagesInFlight: toNumber(attributes.ApproximateNumberOfMessagesNotVisible),
+            messagesDelayed: toNumber(attributes.ApproximateNumberOfMessagesDelayed),
+            visibilityTimeoutSeconds: toNumber(attributes.VisibilityTimeout),
+            messageRetentionSeconds: toNumber(attributes.MessageRetentionPeriod),
+            deadLetterQueue: parseRedrivePolicy(attributes.RedrivePolicy)
+          }
+        };
+      })
+    );
+
+    // A queue that can't be read is reported without hiding the others
+    return {
+      resources: results
+        .filter(result => result.status === 'fulfilled')
+        .map(result => result.value),
+      errors: results
+        .filter(result => result.status === 'rejected')
+        .map(result => result.reason)
+    };
+  } catch (error) {
+    console.error(`Error fetching SQS queues in region ${region}:`, error);
+    throw error;
+  }
+}
+
+// Discover a queue's dead-letter queue and the Lambda functions polling it
+async function discoverSQSRelationships(resource, allResources) {
+  const relationships = [];
+
+  const deadLetterQueue = resource.details?.deadLetterQueue;
+  if (deadLetterQueue?.deadLetterTargetArn) {
+    const target = findReferencedResource(deadLetterQueue.deadLetterTargetArn, allResources, resource);
+    if (target) {
+      relationships.push({
+        sourceId: resource.id,
+        targetId: target.id,
+        type: RelationshipType.ROUTES_TO,
+        metadata: {
+          deliveryType: 'dead-letter',
+          maxReceiveCount: deadLetterQueue.maxReceiveCount
+        }
+      });
+    }
+  }
+
+  relationships.push(...getEventSourceMappingTriggers(resource, resource.id, allResources));
+
+  return relationships;
+}
+
+// Find the queue a configuration value refers to by ARN, URL or name
+function resolveQueueReference(value, allResources, fromResource) {
+  if (QUEUE_URL_PATTERN.test(value)) {
+    return allResources.find(r => r.type === 'sqs' && r.details?.queueUrl === value);
+  }
+
+  const queues = allResources.filter(r => r.type === 'sqs' && r.name === value);
+  return queues.find(queue =>
+    queue.region === fromResource?.region && queue.accountId === fromResource?.accountId
+  ) || queues[0];
+}
+
+export default {
+  name: 'sqs',
+  types: ['sqs'],
+  fetch: getSQSQueues,
+  discoverRelationships: discoverSQSRelationships,
+  resolveReference: resolveQueueReference
+};
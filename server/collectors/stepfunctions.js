@@ -0,0 +1,197 @@
+import {
+  SFNClient,
+  ListStateMachinesCommand,
+  DescribeStateMachineCommand,
+  ListExecutionsCommand
+} from "@aws-sdk/client-sfn";
+import { getClient } from '../clients.js';
+import { paginate } from '../pagination.js';
+import { RelationshipType, findReferencedResource } from '../resourceRelationships.js';
+import { parseStateMachineDefinition } from '../stateMachineDefinition.js';
+
+// Dashboard status for each state machine status
+const STATE_MACHINE_STATUSES = {
+  'ACTIVE': 'running',
+  'DELETING': 'pending',
+  'FAILED': 'stopped'
+};
+
+// Calling a function, task or nested workflow triggers it, publishing and
+// sending route messages, and table operations depend on the table
+const INTEGRATION_RELATIONSHIP_TYPES = {
+  lambda: RelationshipType.TRIGGERS,
+  ecs: RelationshipType.TRIGGERS,
+  states: RelationshipType.TRIGGERS,
+  sns: RelationshipType.ROUTES_TO,
+  sqs: RelationshipType.ROUTES_TO,
+  dynamodb: RelationshipType.DEPENDS_ON
+};
+
+// Parsed definition of a state machine, undefined when it can't be read
+function getWorkflow(stateMachineArn, definition) {
+  if (!definition) return undefined;
+  try {
+    return parseStateMachineDefinition(definition);
+  } catch (error) {
+    console.error(`Error parsing Step Functions definition for ${stateMachineArn}:`, error);
+    return undefined;
+  }
+}
+
+// Fetch Step Functions state machines
+async function getStepFunctions({ region, accountId }) {
+  const sfnClient = getClient(SFNClient, region, accountId);
+  
+  try {
+    const stateMachines = await paginate(
+      sfnClient,
+      page => new ListStateMachinesCommand({ ...page }),
+      { inputToken: 'nextToken', outputToken: 'nextToken', itemsKey: 'stateMachines' }
+    );
+    
+    const errors = [];
+    const resources = await Promise.all(
+      stateMachines.map(async (stateMachine) => {
+        // A state machine whose definition or executions can't be read is still
+        // listed, with the details that could be, and the failure reported
+        const [describeResult, executionsResult] = await Promise.allSettled([
+          sfnClient.send(new DescribeStateMachineCommand({
+            stateMachineArn: stateMachine.stateMachineArn
+          })),
+          sfnClient.send(new ListExecutionsCommand({
+            stateMachineArn: stateMachine.stateMachineArn,
+            maxResults: 100
+          }))
+        ]);
+        for (const result of [describeResult, executionsResult]) {
+          if (result.status === 'rejected') {
+            const detailsError = new Error(`Error fetching Step Functions details for ${stateMachine.stateMachineArn}: ${result.reason.message}`);
+            detailsError.name = result.reason.name;
+            errors.push(detailsError);
+          }
+        }
+
+        const description = describeResult.value || {};
+        const executions = executionsResult.status === 'fulfilled'
+          ? executionsResult.value.executions || []
+          : undefined;
+        
+        const tags = stateMachine.tags || [];
+        const tagMap = tags.reduce((acc, tag) => {
+          acc[tag.key] = tag.value;
+          return acc;
+        }, {});
+        
+        return {
+          id: stateMachine.stateMachineArn,
+          name: stateMachine.name,
+          type: 'stepfunctions',
+          status: STATE_MACHINE_STATUSES[stateMachine.status] || 'stopped',
+          region,
+          tags: tagMap,
+          lastUpdated: stateMachine.creationDate?.toISOString(),
+          details: {
+            executionsStarted: executions?.length,
+            executionsFailed: executions?.filter(e => e.status === 'FAILED').length,
+            executionsSucceeded: executions?.filter(e => e.status === 'SUCCEEDED').length,
+            stateMachineType: description.type || stateMachine.type,
+            workflow: getWorkflow(stateMachine.stateMachineArn, description.definition)
+          }
+        };
+      })
+    );
+    
+    return { resources, errors };
+  } catch (error) {
+    console.error(`Error fetching Step Functions in region ${region}:`, error);
+    throw error;
+  }
+}
+
+// Discover the resources a state machine's Task states call
+async function discoverStepFunctionRelationships(resource, allResources) {
+  // One edge per target, listing every state that calls it
+  const edges = new Map();
+
+  for (const state of resource.details?.workflow?.states || []) {
+    const integration = state.integration;
+    const type = integration && INTEGRATION_RELATIONSHIP_TYPES[integration.service];
+    if (!type || !integration.target) continue;
+
+    const target = findIntegrationTarget(resource, integration, allResources);
+    if (!target) continue;
+
+    const key = `${target.id}|${type}`;
+    const edge = edges.get(key);
+    if (edge) {
+      edge.metadata.stateNames.push(state.name);
+      continue;
+    }
+
+    edges.set(key, {
+      sourceId: resource.id,
+      targetId: target.id,
+      type,
+      metadata: {
+        stateType: state.type,
+        stateName: state.name,
+        stateNames: [state.name],
+        integration: `${integration.service}:${integration.action}`,
+        invocationPattern: integration.invocationPattern
+      }
+    });
+  }
+
+  return Array.from(edges.values());
+}
+
+// Find the inventory resource an integration's target parameter names
+function findIntegrationTarget(stateMachine, integration, allResources) {
+  const { service, target } = integration;
+
+  if (service === 'lambda' && !target.startsWith('arn:')) {
+    // FunctionName may be a bare name, optionally qualified, in the state machine's account
+    const [, partition, , region, accountId] = stateMachine.id.split(':');
+    return findReferencedResource(
+      `arn:${partition}:lambda:${region}:${accountId}:function:${target}`,
+      allResources,
+      stateMachine
+    );
+  }
+
+  if (service === 'ecs') {
+    return findTaskDefinitionService(stateMachine, integration, allResources);
+  }
+
+  return findReferencedResource(target, allResources, stateMachine);
+}
+
+// RunTask starts standalone tasks, so link to the ECS service running the same
+// task definition family, preferring one in the cluster the task runs in
+function findTaskDefinitionService(stateMachine, { target, cluster }, allResources) {
+  const family = getTaskDefinitionFamily(target);
+  const clusterName = cluster?.split('/').pop();
+
+  const services = allResources.filter(r =>
+    r.type === 'ecs' &&
+    r.accountId === stateMachine.accountId &&
+    r.details?.taskDefinition &&
+    getTaskDefinitionFamily(r.details.taskDefinition) === family
+  );
+  return services.find(service => service.details.clusterName === clusterName) || services[0];
+}
+
+// Task definitions are referenced as family, family:revision or their ARN
+function getTaskDefinitionFamily(taskDefinition) {
+  return taskDefinition.split('/').pop().split(':')[0];
+}
+
+export default {
+  name: 'stepfunctions',
+  types: ['stepfunctions'],
+  statusMap: {
+    stepfunctions: STATE_MACHINE_STATUSES
+  },
+  fetch: getStepFunctions,
+  discoverRelationships: discoverStepFunctionRelationships
+};
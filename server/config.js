@@ -0,0 +1,244 @@
+import { readFileSync, existsSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join, resolve } from 'path';
+import { compileHealthRules } from './healthRules.js';
+import { compileGroupingRules } from './applicationGrouping.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DEFAULT_CONFIG_PATH = join(__dirname, '../dashboard.config.json');
+const DEFAULT_CUSTOM_RESOURCES_PATH = join(__dirname, '../custom-resources.yaml');
+const DEFAULT_HISTORY_PATH = join(__dirname, '../data/history');
+const DEFAULT_AUDIT_LOG_PATH = join(__dirname, '../data/audit.log');
+
+const defaultConfig = {
+  // Regions used by accounts that don't list their own
+  regions: ['us-east-1', 'us-east-2'],
+  // An empty list means a single account using credentials from the environment
+  accounts: [],
+  // YAML or JSON file declaring resources and relationships AWS can't tell us about
+  customResourcesFile: DEFAULT_CUSTOM_RESOURCES_PATH,
+  api: {
+    // Origins other than the dashboard's own allowed to call the API, e.g. a
+    // separately served development build. Requests that change something are
+    // refused from any other origin.
+    allowedOrigins: []
+  },
+  inventory: {
+    // How often the inventory store is refreshed from AWS, 0 disables it
+    refreshIntervalSeconds: 300
+  },
+  history: {
+    enabled: true,
+    // Directory holding one JSON file per inventory snapshot
+    directory: DEFAULT_HISTORY_PATH,
+    // Snapshots older than this are deleted, 0 keeps them forever
+    retentionDays: 7,
+    // Upper bound on stored snapshots, oldest are deleted first
+    maxSnapshots: 2000,
+    // Store the relationships of every resource alongside each snapshot, so history
+    // diffs can report relationship changes. Discovery calls AWS for every resource
+    // on every refresh; turning this off makes diffs report relationships as unavailable.
+    includeRelationships: true
+  },
+  metrics: {
+    // How long CloudWatch datapoints of a resource are reused before fetching again
+    cacheTtlSeconds: 60
+  },
+  alarms: {
+    // Attach CloudWatch metric alarms to resources
+    enabled: true
+  },
+  health: {
+    // Rules deciding resource and application health, see healthRules.js:
+    //   { name?, scope?: 'resource' | 'application', resourceTypes?, when, severity: 'warning' | 'error', explanation }
+    // Every rule that fires is listed as a reason, the most severe decides the health.
+    rules: [
+      { name: 'stopped', when: "status == 'stopped'", severity: 'warning', explanation: 'Resource is stopped' },
+      { name: 'pending', when: "status == 'pending'", severity: 'warning', explanation: 'Resource is changing state' },
+      { name: 'alarm', when: "any(alarms, state == 'ALARM')", severity: 'error', explanation: 'A CloudWatch alarm is firing' }
+    ]
+  },
+  actions: {
+    // Let the dashboard start, stop, scale and enable resources. This includes
+    // starting and redriving executions from the Step Functions execution explorer.
+    enabled: false,
+    // JSON lines file every action attempt is appended to
+    auditLogFile: DEFAULT_AUDIT_LOG_PATH,
+    // Request header naming the user, set by an authenticating proxy in front of the dashboard
+    actorHeader: 'x-forwarded-user',
+    // Only enable when the proxy replaces the header on every request. Until then
+    // anyone can send it, and the audit log marks the user as unverified.
+    trustActorHeader: false
+  },
+  notifications: {
+    enabled: false,
+    // Changes of the same webhook are sent at most once per quiet period, changes
+    // in between are combined into the next message
+    quietPeriodSeconds: 300,
+    // Failed deliveries are retried after this long, doubling with every failure in a row
+    retryDelaySeconds: 30,
+    // Webhooks notified when a resource's status or health changes:
+    //   { name?, url, format?: 'json' | 'slack' | 'teams', applications?, headers?, quietPeriodSeconds? }
+    // A webhook listing `applications` only hears about those applications.
+    webhooks: []
+  },
+  grouping: {
+    // Ordered rules deciding each resource's application, the first match wins:
+    //   { type: 'tag', keys: [...], pattern? }         - first tag present, optionally matched by a regex
+    //   { type: 'name' | 'arn', pattern, application? } - regex on the resource name or ARN
+    //   { type: 'inherit', relationshipTypes? }         - the application of the resource it belongs to
+    // Every rule may also restrict itself with `resourceTypes` and label itself with `name`.
+    rules: [
+      { type: 'tag', keys: ['app'] },
+      { type: 'inherit', relationshipTypes: ['instance_of'] }
+    ]
+  },
+  collectors: {
+    // null means every registered collector is enabled
+    enabled: null,
+    disabled: [],
+    options: {}
+  }
+};
+
+let cachedConfig = null;
+
+// Parse a comma separated environment variable into a list
+function parseList(value) {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+function readConfigFile(configPath) {
+  if (!existsSync(configPath)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    console.error(`Error reading dashboard config ${configPath}:`, error);
+    throw error;
+  }
+}
+
+// Load the dashboard configuration. The file is read lazily so that
+// environment variables loaded by dotenv are taken into account.
+export function getConfig() {
+  if (cachedConfig) return cachedConfig;
+
+  const configPath = process.env.DASHBOARD_CONFIG
+    ? resolve(process.env.DASHBOARD_CONFIG)
+    : DEFAULT_CONFIG_PATH;
+  const fileConfig = readConfigFile(configPath);
+
+  const collectors = {
+    ...defaultConfig.collectors,
+    ...fileConfig.collectors
+  };
+
+  // Environment variables take precedence over the config file
+  if (process.env.ENABLED_COLLECTORS) {
+    collectors.enabled = parseList(process.env.ENABLED_COLLECTORS);
+  }
+  if (process.env.DISABLED_COLLECTORS) {
+    collectors.disabled = parseList(process.env.DISABLED_COLLECTORS);
+  }
+
+  const api = {
+    ...defaultConfig.api,
+    ...fileConfig.api
+  };
+
+  const inventory = {
+    ...defaultConfig.inventory,
+    ...fileConfig.inventory
+  };
+  if (process.env.INVENTORY_REFRESH_INTERVAL) {
+    inventory.refreshIntervalSeconds = Number(process.env.INVENTORY_REFRESH_INTERVAL);
+  }
+
+  const grouping = {
+    ...defaultConfig.grouping,
+    ...fileConfig.grouping
+  };
+  grouping.compiled = compileGroupingRules(grouping.rules);
+  for (const error of grouping.compiled.errors) {
+    console.error(`Skipping invalid grouping rule: ${error.message}`);
+  }
+
+  const metrics = {
+    ...defaultConfig.metrics,
+    ...fileConfig.metrics
+  };
+
+  const alarms = {
+    ...defaultConfig.alarms,
+    ...fileConfig.alarms
+  };
+
+  const health = {
+    ...defaultConfig.health,
+    ...fileConfig.health
+  };
+  // Rules are compiled once, invalid ones are skipped and reported with every refresh
+  health.compiled = compileHealthRules(health.rules);
+  for (const error of health.compiled.errors) {
+    console.error(`Skipping invalid health rule: ${error.message}`);
+  }
+
+  const actions = {
+    ...defaultConfig.actions,
+    ...fileConfig.actions
+  };
+  if (process.env.AUDIT_LOG_FILE || fileConfig.actions?.auditLogFile) {
+    actions.auditLogFile = resolve(process.env.AUDIT_LOG_FILE || fileConfig.actions.auditLogFile);
+  }
+
+  const notifications = {
+    ...defaultConfig.notifications,
+    ...fileConfig.notifications
+  };
+
+  const history = {
+    ...defaultConfig.history,
+    ...fileConfig.history
+  };
+  if (process.env.HISTORY_DIR || fileConfig.history?.directory) {
+    history.directory = resolve(process.env.HISTORY_DIR || fileConfig.history.directory);
+  }
+  if (process.env.HISTORY_RETENTION_DAYS) {
+    history.retentionDays = Number(process.env.HISTORY_RETENTION_DAYS);
+  }
+
+  const customResourcesFile = process.env.CUSTOM_RESOURCES_FILE || fileConfig.customResourcesFile
+    ? resolve(process.env.CUSTOM_RESOURCES_FILE || fileConfig.customResourcesFile)
+    : defaultConfig.customResourcesFile;
+
+  const regions = process.env.AWS_REGIONS
+    ? parseList(process.env.AWS_REGIONS)
+    : fileConfig.regions || defaultConfig.regions;
+
+  cachedConfig = {
+    ...defaultConfig,
+    ...fileConfig,
+    regions,
+    customResourcesFile,
+    api,
+    inventory,
+    history,
+    metrics,
+    alarms,
+    health,
+    actions,
+    notifications,
+    grouping,
+    collectors
+  };
+
+  return cachedConfig;
+}
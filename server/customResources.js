@@ -0,0 +1,98 @@
+import { readFileSync, existsSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { getConfig } from './config.js';
+import { UNKNOWN_APPLICATION } from './applicationGrouping.js';
+import { resourceSchema, relationshipSchema, formatContractIssues } from '../shared/apiContract.js';
+
+// Relationships declared in the custom resources file, reloaded on every inventory refresh
+let customRelationships = [];
+
+function readCustomResourcesFile(filePath) {
+  if (!existsSync(filePath)) {
+    return {};
+  }
+
+  const contents = readFileSync(filePath, 'utf8');
+  return ['.yaml', '.yml'].includes(extname(filePath).toLowerCase())
+    ? parseYaml(contents) || {}
+    : JSON.parse(contents);
+}
+
+// Check a declaration against the API contract so mistakes in the file
+// are reported with the offending field
+function validateDeclaration(schema, declaration, kind) {
+  const result = schema.safeParse(declaration);
+  if (!result.success) {
+    const issues = formatContractIssues(result.error).join('; ');
+    throw new Error(`Invalid custom ${kind} ${declaration.id || `${declaration.sourceId} -> ${declaration.targetId}`}: ${issues}`);
+  }
+  return result.data;
+}
+
+// Fill in the AWSResource fields a declaration may leave out
+function normalizeResource(resource, fetchedAt) {
+  if (!resource?.id || !resource.name) {
+    throw new Error(`Custom resource ${JSON.stringify(resource)} needs an id and a name`);
+  }
+
+  // A declared application wins over the grouping rules
+  const grouping = resource.application
+    ? { groupedBy: { rule: null, type: 'declared', description: 'declared in the custom resources file' } }
+    : { application: UNKNOWN_APPLICATION };
+
+  return validateDeclaration(resourceSchema, {
+    type: 'external',
+    status: 'running',
+    ...grouping,
+    region: 'global',
+    accountId: 'external',
+    tags: {},
+    lastUpdated: fetchedAt,
+    details: {},
+    ...resource,
+    source: 'custom'
+  }, 'resource');
+}
+
+function normalizeRelationship(relationship) {
+  if (!relationship?.sourceId || !relationship.targetId || !relationship.type) {
+    throw new Error(`Custom relationship ${JSON.stringify(relationship)} needs a sourceId, targetId and type`);
+  }
+
+  return validateDeclaration(relationshipSchema, {
+    ...relationship,
+    source: 'custom'
+  }, 'relationship');
+}
+
+// Load the resources and relationships declared in the custom resources file
+export function loadCustomInventory() {
+  const { customResourcesFile } = getConfig();
+
+  try {
+    const declarations = readCustomResourcesFile(customResourcesFile);
+    const fetchedAt = new Date().toISOString();
+
+    const resources = (declarations.resources || []).map(resource => normalizeResource(resource, fetchedAt));
+    customRelationships = (declarations.relationships || []).map(normalizeRelationship);
+
+    if (resources.length > 0 || customRelationships.length > 0) {
+      console.log(`Loaded ${resources.length} custom resources and ${customRelationships.length} custom relationships from ${customResourcesFile}`);
+    }
+
+    return { resources, relationships: customRelationships };
+  } catch (error) {
+    console.error(`Error loading custom resources from ${customResourcesFile}:`, error);
+    customRelationships = [];
+    return { resources: [], relationships: [], error };
+  }
+}
+
+// Declared relationships touching any of the given resources
+export function getCustomRelationships(resources) {
+  const resourceIds = new Set(resources.map(r => r.id));
+  return customRelationships.filter(rel =>
+    resourceIds.has(rel.sourceId) || resourceIds.has(rel.targetId)
+  );
+}
@@ -0,0 +1,177 @@
+import {
+  ECSClient,
+  ListTasksCommand,
+  DescribeTasksCommand,
+  DescribeTaskDefinitionCommand
+} from "@aws-sdk/client-ecs";
+import { getClient } from './clients.js';
+import { paginate, chunk } from './pagination.js';
+
+const DESCRIBE_TASKS_LIMIT = 100;
+
+// ECS reports containers killed for exceeding their memory limit with this reason
+const OUT_OF_MEMORY_PATTERN = /OutOfMemory/i;
+
+// Task network interfaces are looked up for every load balancer with IP
+// targets, so they're shared across one relationship discovery
+const NETWORK_INTERFACE_CACHE_TTL_MS = 60 * 1000;
+const networkInterfaceCache = new Map();
+
+function getTaskId(taskArn) {
+  return taskArn.split('/').pop();
+}
+
+function getRevision(taskDefinitionArn) {
+  return Number(taskDefinitionArn.split(':').pop());
+}
+
+function toContainerDefinition(container) {
+  return {
+    name: container.name,
+    image: container.image,
+    cpu: container.cpu,
+    memory: container.memory,
+    memoryReservation: container.memoryReservation,
+    essential: container.essential,
+    portMappings: (container.portMappings || []).map(mapping => ({
+      containerPort: mapping.containerPort,
+      hostPort: mapping.hostPort,
+      protocol: mapping.protocol
+    })),
+    healthCheck: container.healthCheck && {
+      command: container.healthCheck.command,
+      interval: container.healthCheck.interval,
+      timeout: container.healthCheck.timeout,
+      retries: container.healthCheck.retries,
+      startPeriod: container.healthCheck.startPeriod
+    }
+  };
+}
+
+function toTask(task) {
+  const containers = (task.containers || []).map(container => ({
+    name: container.name,
+    lastStatus: container.lastStatus,
+    healthStatus: container.healthStatus,
+    exitCode: container.exitCode,
+    reason: container.reason
+  }));
+
+  return {
+    taskArn: task.taskArn,
+    taskId: getTaskId(task.taskArn),
+    lastStatus: task.lastStatus,
+    desiredStatus: task.desiredStatus,
+    healthStatus: task.healthStatus,
+    taskDefinitionRevision: getRevision(task.taskDefinitionArn),
+    launchType: task.launchType,
+    availabilityZone: task.availabilityZone,
+    startedAt: task.startedAt?.toISOString(),
+    stoppedAt: task.stoppedAt?.toISOString(),
+    stopCode: task.stopCode,
+    stoppedReason: task.stoppedReason,
+    outOfMemory: containers.some(container => OUT_OF_MEMORY_PATTERN.test(container.reason || '')),
+    containers
+  };
+}
+
+async function listTasks(ecsClient, cluster, filters) {
+  const taskArns = await paginate(
+    ecsClient,
+    page => new ListTasksCommand({ cluster, ...filters, ...page }),
+    { inputToken: 'nextToken', outputToken: 'nextToken', itemsKey: 'taskArns' }
+  );
+
+  const tasks = [];
+  // DescribeTasks accepts at most 100 tasks per call
+  for (const taskArnChunk of chunk(taskArns, DESCRIBE_TASKS_LIMIT)) {
+    const { tasks: described = [] } = await ecsClient.send(new DescribeTasksCommand({
+      cluster,
+      tasks: taskArnChunk
+    }));
+    tasks.push(...described);
+  }
+  return tasks;
+}
+
+function listServiceTasks(ecsClient, service, desiredStatus) {
+  return listTasks(ecsClient, service.details.clusterName, {
+    serviceName: service.name,
+    desiredStatus
+  });
+}
+
+async function fetchTaskNetworkInterfaces({ region, accountId, clusterNames }) {
+  const ecsClient = getClient(ECSClient, region, accountId);
+  const tasksByNetworkInterface = new Map();
+
+  for (const clusterName of clusterNames) {
+    const tasks = await listTasks(ecsClient, clusterName, { desiredStatus: 'RUNNING' });
+
+    for (const task of tasks) {
+      for (const attachment of task.attachments || []) {
+        if (attachment.type !== 'ElasticNetworkInterface') continue;
+
+        const networkInterfaceId = attachment.details
+          ?.find(detail => detail.name === 'networkInterfaceId')?.value;
+        if (!networkInterfaceId) continue;
+
+        tasksByNetworkInterface.set(networkInterfaceId, {
+          taskArn: task.taskArn,
+          taskId: getTaskId(task.taskArn),
+          clusterName,
+          // Tasks started by a service belong to the group `service:<name>`
+          serviceName: task.group?.startsWith('service:') ? task.group.slice('service:'.length) : undefined
+        });
+      }
+    }
+  }
+
+  return tasksByNetworkInterface;
+}
+
+// Running awsvpc tasks of the given clusters, keyed by the ID of the network
+// interface ECS attached to them
+export async function getTaskNetworkInterfaces({ region, accountId, clusterNames }) {
+  const cacheKey = `${accountId}|${region}|${[...clusterNames].sort().join(',')}`;
+  const cached = networkInterfaceCache.get(cacheKey);
+  if (cached && Date.now() - cached.fetchedAt < NETWORK_INTERFACE_CACHE_TTL_MS) {
+    return cached.tasksByNetworkInterface;
+  }
+
+  const tasksByNetworkInterface = await fetchTaskNetworkInterfaces({ region, accountId, clusterNames });
+  networkInterfaceCache.set(cacheKey, { tasksByNetworkInterface, fetchedAt: Date.now() });
+  return tasksByNetworkInterface;
+}
+
+// Running and recently stopped tasks of an ECS service, with the containers of
+// the task definition the service deploys. ECS keeps stopped tasks for about
+// an hour, which is enough to see a wave of failures.
+export async function getServiceTasks(service) {
+  const ecsClient = getClient(ECSClient, service.region, service.accountId);
+
+  const [runningTasks, stoppedTasks, { taskDefinition }] = await Promise.all([
+    listServiceTasks(ecsClient, service, 'RUNNING'),
+    listServiceTasks(ecsClient, service, 'STOPPED'),
+    ecsClient.send(new DescribeTaskDefinitionCommand({
+      taskDefinition: service.details.taskDefinition
+    }))
+  ]);
+
+  const byMostRecent = (a, b) => (b.stoppedAt || b.startedAt || '').localeCompare(a.stoppedAt || a.startedAt || '');
+
+  return {
+    serviceId: service.id,
+    taskDefinition: {
+      arn: taskDefinition.taskDefinitionArn,
+      family: taskDefinition.family,
+      revision: taskDefinition.revision,
+      cpu: taskDefinition.cpu,
+      memory: taskDefinition.memory,
+      networkMode: taskDefinition.networkMode,
+      containers: (taskDefinition.containerDefinitions || []).map(toContainerDefinition)
+    },
+    runningTasks: runningTasks.map(toTask).sort(byMostRecent),
+    stoppedTasks: stoppedTasks.map(toTask).sort(byMostRecent)
+  };
+}
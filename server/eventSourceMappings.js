@@ -0,0 +1,99 @@
+import {
+  LambdaClient,
+  ListEventSourceMappingsCommand
+} from "@aws-sdk/client-lambda";
+import { getClient } from './clients.js';
+import { paginate } from './pagination.js';
+import { RelationshipType, findReferencedResource } from './resourceRelationships.js';
+
+// Event source type from the ARN of a polled source
+function eventTypeFromArn(eventSourceArn) {
+  if (!eventSourceArn) return 'kafka';
+  if (eventSourceArn.includes(':dynamodb:')) return 'dynamodb-stream';
+
+  const service = eventSourceArn.split(':')[2];
+  return service === 'mq' ? 'amazon-mq' : service;
+}
+
+// Every event source mapping in a region, keyed by the unqualified function ARN
+export async function listEventSourceMappings({ region, accountId }) {
+  const lambdaClient = getClient(LambdaClient, region, accountId);
+  const mappings = await paginate(
+    lambdaClient,
+    page => new ListEventSourceMappingsCommand({ ...page }),
+    { inputToken: 'Marker', outputToken: 'NextMarker', itemsKey: 'EventSourceMappings' }
+  );
+
+  const mappingsByFunction = new Map();
+  for (const mapping of mappings) {
+    // Mappings may target a version or alias of the function
+    const functionArn = mapping.FunctionArn.split(':').slice(0, 7).join(':');
+    if (!mappingsByFunction.has(functionArn)) mappingsByFunction.set(functionArn, []);
+
+    mappingsByFunction.get(functionArn).push({
+      uuid: mapping.UUID,
+      eventSourceArn: mapping.EventSourceArn,
+      eventType: eventTypeFromArn(mapping.EventSourceArn),
+      state: mapping.State,
+      stateTransitionReason: mapping.StateTransitionReason,
+      batchSize: mapping.BatchSize,
+      startingPosition: mapping.StartingPosition,
+      maximumBatchingWindowInSeconds: mapping.MaximumBatchingWindowInSeconds,
+      lastProcessingResult: mapping.LastProcessingResult,
+      lastModified: mapping.LastModified?.toISOString()
+    });
+  }
+
+  return mappingsByFunction;
+}
+
+function toTriggerRelationship(sourceId, functionId, mapping) {
+  return {
+    sourceId,
+    targetId: functionId,
+    type: RelationshipType.TRIGGERS,
+    metadata: {
+      eventType: mapping.eventType,
+      deliveryType: 'event-source-mapping',
+      mappingUuid: mapping.uuid,
+      batchSize: mapping.batchSize,
+      state: mapping.state,
+      startingPosition: mapping.startingPosition,
+      maximumBatchingWindowInSeconds: mapping.maximumBatchingWindowInSeconds,
+      lastProcessingResult: mapping.lastProcessingResult
+    }
+  };
+}
+
+// `triggers` relationships from the sources a Lambda function polls
+export function getFunctionEventSourceTriggers(lambda, allResources) {
+  const relationships = [];
+
+  for (const mapping of lambda.details?.eventSourceMappings || []) {
+    const source = mapping.eventSourceArn && findReferencedResource(mapping.eventSourceArn, allResources, lambda);
+    if (source) {
+      relationships.push(toTriggerRelationship(source.id, lambda.id, mapping));
+    }
+  }
+
+  return relationships;
+}
+
+// `triggers` relationships from a polled event source (SQS queue, DynamoDB or
+// Kinesis stream) to the Lambda functions consuming it, using the mappings
+// collected with each function
+export function getEventSourceMappingTriggers(source, eventSourceArn, allResources) {
+  const relationships = [];
+
+  for (const lambda of allResources) {
+    if (lambda.type !== 'lambda') continue;
+
+    for (const mapping of lambda.details?.eventSourceMappings || []) {
+      if (mapping.eventSourceArn === eventSourceArn) {
+        relationships.push(toTriggerRelationship(source.id, lambda.id, mapping));
+      }
+    }
+  }
+
+  return relationships;
+}
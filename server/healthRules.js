@@ -0,0 +1,336 @@
+// Health rules decide the health of every resource and application. A rule is
+//   { name?, scope?: 'resource' | 'application', resourceTypes?, when, severity, explanation }
+// where `when` is an expression evaluated against the resource (its fields and
+// details, e.g. `runningCount < desiredCount`, optionally prefixed with the
+// resource type as in `ecs.runningCount`, which is undefined for resources of
+// other types) or, for application rules, against `{ application, resources }`. Expressions support numbers, 'strings',
+// true, false, null, dotted field paths, arithmetic, comparisons, && || ! and
+// the collection functions any(list, predicate), all(list, predicate) and
+// count(list, predicate?), whose predicate is evaluated against each item.
+// The explanation may refer to fields as {path}.
+
+const SEVERITY_ORDER = ['healthy', 'warning', 'error'];
+
+const COMPARISON_OPERATORS = ['<=', '>=', '==', '!=', '<', '>'];
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d+)?)|'([^']*)'|"([^"]*)"|([A-Za-z_$][\w$]*)|(&&|\|\||<=|>=|==|!=|[-+*/%<>!(),.]))/y;
+
+function tokenize(source) {
+  const tokens = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < source.length) {
+    if (/^\s*$/.test(source.slice(TOKEN_PATTERN.lastIndex))) break;
+
+    const position = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) {
+      throw new Error(`Unexpected character at position ${position}`);
+    }
+
+    const [, number, singleQuoted, doubleQuoted, identifier, operator] = match;
+    if (number !== undefined) tokens.push({ type: 'literal', value: Number(number) });
+    else if (singleQuoted !== undefined || doubleQuoted !== undefined) tokens.push({ type: 'literal', value: singleQuoted ?? doubleQuoted });
+    else if (identifier === 'true' || identifier === 'false') tokens.push({ type: 'literal', value: identifier === 'true' });
+    else if (identifier === 'null') tokens.push({ type: 'literal', value: null });
+    else if (identifier !== undefined) tokens.push({ type: 'identifier', value: identifier });
+    else tokens.push({ type: 'operator', value: operator });
+  }
+
+  return tokens;
+}
+
+// Recursive descent parser producing a tree of
+//   { type: 'literal', value } | { type: 'path', path } | { type: 'call', name, args }
+//   { type: 'unary', operator, operand } | { type: 'binary', operator, left, right }
+function parse(source) {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (...operators) => peek()?.type === 'operator' && operators.includes(peek().value);
+  const expect = operator => {
+    if (!isOperator(operator)) {
+      throw new Error(`Expected "${operator}" but found ${peek() ? `"${peek().value}"` : 'the end'}`);
+    }
+    position++;
+  };
+
+  const binary = (next, operators) => () => {
+    let left = next();
+    while (isOperator(...operators)) {
+      const operator = tokens[position++].value;
+      left = { type: 'binary', operator, left, right: next() };
+    }
+    return left;
+  };
+
+  function primary() {
+    const token = tokens[position++];
+    if (!token) throw new Error('Unexpected end of expression');
+
+    if (token.type === 'literal') return token;
+
+    if (token.type === 'identifier') {
+      if (isOperator('(')) {
+        position++;
+        const args = [];
+        while (!isOperator(')')) {
+          if (args.length > 0) expect(',');
+          args.push(or());
+        }
+        position++;
+        return { type: 'call', name: token.value, args };
+      }
+
+      const path = [token.value];
+      while (isOperator('.')) {
+        position++;
+        const segment = tokens[position++];
+        if (segment?.type !== 'identifier') throw new Error(`Expected a field name after "${path.join('.')}."`);
+        path.push(segment.value);
+      }
+      return { type: 'path', path };
+    }
+
+    if (token.value === '(') {
+      const expression = or();
+      expect(')');
+      return expression;
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  }
+
+  function unary() {
+    if (isOperator('!', '-')) {
+      const operator = tokens[position++].value;
+      return { type: 'unary', operator, operand: unary() };
+    }
+    return primary();
+  }
+
+  const multiplicative = binary(unary, ['*', '/', '%']);
+  const additive = binary(multiplicative, ['+', '-']);
+
+  function comparison() {
+    const left = additive();
+    if (isOperator(...COMPARISON_OPERATORS)) {
+      const operator = tokens[position++].value;
+      return { type: 'binary', operator, left, right: additive() };
+    }
+    return left;
+  }
+
+  const and = binary(comparison, ['&&']);
+  const or = binary(and, ['||']);
+
+  const expression = or();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${peek().value}"`);
+  }
+  return expression;
+}
+
+// Fields of a resource are readable directly, through `details` and through
+// its type, so `ecs.runningCount` reads the running count of ECS services
+function toScope(value) {
+  if (!value?.details && typeof value?.type !== 'string') return value;
+
+  const scope = { ...value.details, ...value };
+  if (typeof value.type === 'string' && !Object.hasOwn(scope, value.type)) {
+    scope[value.type] = scope;
+  }
+  return scope;
+}
+
+// Only own fields are readable, so expressions can't reach prototypes
+function resolvePath(scope, path) {
+  return path.reduce(
+    (value, segment) => (value != null && Object.hasOwn(Object(value), segment) ? value[segment] : undefined),
+    scope
+  );
+}
+
+const FUNCTIONS = {
+  any: (items, predicate) => items.some(predicate),
+  all: (items, predicate) => items.every(predicate),
+  count: (items, predicate) => (predicate ? items.filter(predicate) : items).length
+};
+
+// Evaluate a parsed expression. Missing fields are undefined, so arithmetic on
+// them is NaN and comparisons with them are false: a rule about a field the
+// resource doesn't have never fires.
+function evaluate(node, scope) {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'path':
+      return resolvePath(scope, node.path);
+    case 'unary': {
+      const operand = evaluate(node.operand, scope);
+      return node.operator === '!' ? !operand : -operand;
+    }
+    case 'call': {
+      const [listNode, predicateNode] = node.args;
+      // A missing list, such as a resource without alarms, is empty
+      const list = evaluate(listNode, scope);
+      const items = Array.isArray(list) ? list : [];
+      const predicate = predicateNode && (item => Boolean(evaluate(predicateNode, toScope(item))));
+      return FUNCTIONS[node.name](items, predicate);
+    }
+    case 'binary': {
+      if (node.operator === '&&') return evaluate(node.left, scope) && evaluate(node.right, scope);
+      if (node.operator === '||') return evaluate(node.left, scope) || evaluate(node.right, scope);
+
+      const left = evaluate(node.left, scope);
+      const right = evaluate(node.right, scope);
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '%': return left % right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        // Loose equality lets `field == null` match missing fields
+        case '==': return left == right;
+        case '!=': return left != right;
+      }
+    }
+  }
+  throw new Error(`Cannot evaluate ${node.type} ${node.operator || ''}`);
+}
+
+function validateCalls(node, index) {
+  if (node.type === 'call') {
+    if (!FUNCTIONS[node.name]) {
+      throw new Error(`Health rule ${index} calls unknown function "${node.name}"`);
+    }
+    if (node.args.length < 1 || node.args.length > 2 || (node.name !== 'count' && node.args.length !== 2)) {
+      throw new Error(`Health rule ${index} calls ${node.name}() with the wrong number of arguments`);
+    }
+  }
+  for (const child of [node.operand, node.left, node.right, ...(node.args || [])]) {
+    if (child) validateCalls(child, index);
+  }
+}
+
+// Turn a rule from the config into { ..., test(scope) }
+function compileRule(rule, index) {
+  if (typeof rule?.when !== 'string' || !rule.when.trim()) {
+    throw new Error(`Health rule ${index} needs a "when" expression`);
+  }
+  if (rule.severity !== 'warning' && rule.severity !== 'error') {
+    throw new Error(`Health rule ${index} needs a severity of "warning" or "error"`);
+  }
+  const scope = rule.scope || 'resource';
+  if (scope !== 'resource' && scope !== 'application') {
+    throw new Error(`Health rule ${index} has unknown scope "${rule.scope}"`);
+  }
+
+  let expression;
+  try {
+    expression = parse(rule.when);
+  } catch (error) {
+    throw new Error(`Invalid expression in health rule ${index}: ${error.message}`);
+  }
+  validateCalls(expression, index);
+
+  return {
+    ...rule,
+    scope,
+    name: rule.name || `rule ${index}`,
+    test: context => Boolean(evaluate(expression, context))
+  };
+}
+
+function explain(rule, context) {
+  const explanation = rule.explanation || `${rule.when} is true`;
+  return explanation.replace(/\{([\w$.]+)\}/g, (match, path) => {
+    const value = resolvePath(context, path.split('.'));
+    return value === undefined ? match : String(value);
+  });
+}
+
+function worstSeverity(reasons) {
+  return reasons.reduce(
+    (worst, reason) => (SEVERITY_ORDER.indexOf(reason.severity) > SEVERITY_ORDER.indexOf(worst) ? reason.severity : worst),
+    'healthy'
+  );
+}
+
+// The rules of a scope that fire for a context, as health reasons. A rule that
+// fails to evaluate is logged and treated as not firing.
+function evaluateRules(rules, context, label) {
+  const reasons = [];
+  for (const rule of rules) {
+    try {
+      if (rule.test(context)) {
+        reasons.push({ rule: rule.name, severity: rule.severity, explanation: explain(rule, context) });
+      }
+    } catch (error) {
+      console.error(`Error evaluating health rule "${rule.name}" for ${label}:`, error);
+    }
+  }
+  return reasons;
+}
+
+// Compile the rules of the config. Invalid rules are left out and returned as
+// errors, so one broken rule doesn't keep the others from applying.
+export function compileHealthRules(rules = []) {
+  const compiledRules = [];
+  const errors = [];
+  rules.forEach((rule, index) => {
+    try {
+      compiledRules.push(compileRule(rule, index));
+    } catch (error) {
+      errors.push(error);
+    }
+  });
+  return { rules: compiledRules, errors };
+}
+
+// Compute the health of every resource and application from rules compiled by
+// compileHealthRules. Resources get `health: { status, reasons }` from the
+// resource rules matching their type. An application is as unhealthy as its
+// worst resource or application rule, and lists the reasons of both, resource
+// reasons naming their resource.
+export function evaluateHealth(resources, compiledRules) {
+  const resourceRules = compiledRules.filter(rule => rule.scope === 'resource');
+  const applicationRules = compiledRules.filter(rule => rule.scope === 'application');
+
+  const evaluatedResources = resources.map(resource => {
+    const rulesForType = resourceRules.filter(rule => !rule.resourceTypes || rule.resourceTypes.includes(resource.type));
+    const reasons = evaluateRules(rulesForType, toScope(resource), resource.id);
+    return { ...resource, health: { status: worstSeverity(reasons), reasons } };
+  });
+
+  const resourcesByApplication = new Map();
+  for (const resource of evaluatedResources) {
+    if (!resourcesByApplication.has(resource.application)) resourcesByApplication.set(resource.application, []);
+    resourcesByApplication.get(resource.application).push(resource);
+  }
+
+  const applications = Array.from(resourcesByApplication, ([application, appResources]) => {
+    // Application rules only see the resource types they name
+    const reasons = applicationRules.flatMap(rule => {
+      const ruleResources = rule.resourceTypes
+        ? appResources.filter(resource => rule.resourceTypes.includes(resource.type))
+        : appResources;
+      return evaluateRules([rule], { application, resources: ruleResources }, `application ${application}`);
+    });
+
+    for (const resource of appResources) {
+      for (const reason of resource.health.reasons) {
+        reasons.push({ ...reason, resourceId: resource.id, resourceName: resource.name });
+      }
+    }
+
+    return { application, health: { status: worstSeverity(reasons), reasons } };
+  });
+
+  return { resources: evaluatedResources, applications };
+}
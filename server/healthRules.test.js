@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileHealthRules, evaluateHealth } from './healthRules.js';
+
+const resource = (id, fields) => ({ id, name: id, type: 'ecs', application: 'shop', ...fields });
+
+describe('health rules', () => {
+  it('skips invalid rules and reports them', () => {
+    const { rules, errors } = compileHealthRules([
+      { name: 'degraded', when: 'runningCount < desiredCount', severity: 'warning' },
+      { name: 'broken', when: 'runningCount <', severity: 'error' },
+      { name: 'unknown', when: 'sum(tasks)', severity: 'error' },
+      { name: 'no severity', when: 'true' }
+    ]);
+
+    assert.deepEqual(rules.map(rule => rule.name), ['degraded']);
+    assert.equal(errors.length, 3);
+    assert.match(errors[0].message, /health rule 1/);
+    assert.match(errors[1].message, /unknown function "sum"/);
+  });
+
+  it('rates resources and their application by the worst rule that fires', () => {
+    const { rules } = compileHealthRules([
+      { name: 'degraded', when: 'runningCount < desiredCount', severity: 'warning', explanation: '{runningCount} of {desiredCount} running' },
+      { name: 'down', scope: 'application', when: "all(resources, status == 'stopped')", severity: 'error' }
+    ]);
+
+    const { resources, applications } = evaluateHealth(
+      [resource('api', { status: 'running', details: { runningCount: 1, desiredCount: 2 } }), resource('worker', { status: 'running' })],
+      rules
+    );
+
+    assert.equal(resources[0].health.status, 'warning');
+    assert.equal(resources[0].health.reasons[0].explanation, '1 of 2 running');
+    assert.equal(resources[1].health.status, 'healthy');
+    assert.deepEqual(applications, [{
+      application: 'shop',
+      health: {
+        status: 'warning',
+        reasons: [{ rule: 'degraded', severity: 'warning', explanation: '1 of 2 running', resourceId: 'api', resourceName: 'api' }]
+      }
+    }]);
+  });
+
+  it('reads fields through the resource type prefix', () => {
+    const { rules, errors } = compileHealthRules([
+      { name: 'degraded', when: 'ecs.runningCount < desiredCount', severity: 'warning', explanation: '{ecs.runningCount} of {desiredCount} running' }
+    ]);
+
+    const { resources } = evaluateHealth(
+      [
+        resource('api', { status: 'running', details: { runningCount: 1, desiredCount: 2 } }),
+        resource('worker', { type: 'lambda', status: 'running', details: { runningCount: 1, desiredCount: 2 } })
+      ],
+      rules
+    );
+
+    assert.deepEqual(errors, []);
+    assert.equal(resources[0].health.status, 'warning');
+    assert.equal(resources[0].health.reasons[0].explanation, '1 of 2 running');
+    assert.equal(resources[1].health.status, 'healthy');
+  });
+});
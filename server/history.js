@@ -0,0 +1,318 @@
+import { mkdir, readdir, readFile, writeFile, unlink } from 'fs/promises';
+import { join } from 'path';
+import { getConfig } from './config.js';
+import { inventoryEvents, getRelationships } from './inventory.js';
+import { diffResourceFields } from './inventoryDiff.js';
+
+const SNAPSHOT_EXTENSION = '.json';
+
+// Index of the stored snapshots for resource timelines, read from disk once and
+// kept up to date as snapshots are recorded and deleted:
+//   snapshots     - fetchedAt of every stored snapshot, oldest first
+//   statusChanges - status changes of every resource by id, as [{ at, status }],
+//                   where `absent` marks snapshots the resource was missing from
+//   latest        - the most recent snapshot, { fetchedAt, resources }
+let timelineIndexPromise = null;
+
+// Thrown when no stored snapshot covers the requested time
+export class SnapshotNotFoundError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'SnapshotNotFoundError';
+  }
+}
+
+// fetchedAt timestamps contain colons, which some filesystems reject
+function snapshotFileName(fetchedAt) {
+  return `${fetchedAt.replace(/:/g, '-')}${SNAPSHOT_EXTENSION}`;
+}
+
+function fetchedAtFromFileName(fileName) {
+  return fileName
+    .slice(0, -SNAPSHOT_EXTENSION.length)
+    .replace(/T(\d{2})-(\d{2})-/, 'T$1:$2:');
+}
+
+// Stored snapshots, oldest first
+export async function listSnapshots() {
+  const { history } = getConfig();
+
+  let fileNames;
+  try {
+    fileNames = await readdir(history.directory);
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  return fileNames
+    .filter(fileName => fileName.endsWith(SNAPSHOT_EXTENSION))
+    .map(fileName => ({ fetchedAt: fetchedAtFromFileName(fileName), fileName }))
+    .filter(snapshot => !Number.isNaN(Date.parse(snapshot.fetchedAt)))
+    .sort((a, b) => Date.parse(a.fetchedAt) - Date.parse(b.fetchedAt));
+}
+
+async function readSnapshot({ fileName }) {
+  const { history } = getConfig();
+  return JSON.parse(await readFile(join(history.directory, fileName), 'utf8'));
+}
+
+// Add a snapshot to the timeline index. Snapshots are indexed oldest first, one
+// that is already covered is skipped.
+function indexSnapshot(index, { fetchedAt, resources }) {
+  const newest = index.snapshots[index.snapshots.length - 1];
+  if (newest && Date.parse(newest) >= Date.parse(fetchedAt)) return;
+
+  const present = new Set();
+  for (const resource of resources) {
+    present.add(resource.id);
+    const changes = index.statusChanges.get(resource.id) || [];
+    if (changes[changes.length - 1]?.status !== resource.status) {
+      changes.push({ at: fetchedAt, status: resource.status });
+    }
+    index.statusChanges.set(resource.id, changes);
+  }
+
+  for (const [id, changes] of index.statusChanges) {
+    if (!present.has(id) && changes[changes.length - 1].status !== 'absent') {
+      changes.push({ at: fetchedAt, status: 'absent' });
+    }
+  }
+
+  index.snapshots.push(fetchedAt);
+  index.latest = { fetchedAt, resources };
+}
+
+// Drop deleted snapshots from the timeline index. The status each resource had
+// in the oldest remaining snapshot is kept as its first change.
+function pruneTimelineIndex(index, deletedFetchedAts) {
+  const deleted = new Set(deletedFetchedAts);
+  index.snapshots = index.snapshots.filter(fetchedAt => !deleted.has(fetchedAt));
+
+  const oldest = index.snapshots[0];
+  if (!oldest) {
+    index.statusChanges.clear();
+    index.latest = null;
+    return;
+  }
+
+  const oldestTime = Date.parse(oldest);
+  for (const [id, changes] of index.statusChanges) {
+    const earlier = changes.filter(change => Date.parse(change.at) < oldestTime);
+    if (earlier.length === 0) continue;
+
+    const kept = changes.slice(earlier.length);
+    const statusAtOldest = earlier[earlier.length - 1].status;
+    if (statusAtOldest !== 'absent' && kept[0]?.at !== oldest) {
+      kept.unshift({ at: oldest, status: statusAtOldest });
+    }
+
+    if (kept.length === 0) {
+      index.statusChanges.delete(id);
+    } else {
+      index.statusChanges.set(id, kept);
+    }
+  }
+}
+
+async function loadTimelineIndex() {
+  const index = { snapshots: [], statusChanges: new Map(), latest: null };
+  // Snapshots are read one at a time to keep memory flat
+  for (const snapshot of await listSnapshots()) {
+    indexSnapshot(index, await readSnapshot(snapshot));
+  }
+  return index;
+}
+
+function getTimelineIndex() {
+  if (!timelineIndexPromise) {
+    timelineIndexPromise = loadTimelineIndex().catch(error => {
+      timelineIndexPromise = null;
+      throw error;
+    });
+  }
+  return timelineIndexPromise;
+}
+
+// Delete snapshots that fall outside the retention settings
+async function applyRetention() {
+  const { history } = getConfig();
+  const snapshots = await listSnapshots();
+
+  const cutoff = history.retentionDays > 0
+    ? Date.now() - history.retentionDays * 24 * 60 * 60 * 1000
+    : -Infinity;
+  const excess = history.maxSnapshots > 0
+    ? Math.max(snapshots.length - history.maxSnapshots, 0)
+    : 0;
+
+  const expired = snapshots.filter((snapshot, index) =>
+    index < excess || Date.parse(snapshot.fetchedAt) < cutoff
+  );
+
+  for (const snapshot of expired) {
+    await unlink(join(history.directory, snapshot.fileName));
+  }
+  if (timelineIndexPromise && expired.length > 0) {
+    pruneTimelineIndex(await timelineIndexPromise, expired.map(snapshot => snapshot.fetchedAt));
+  }
+
+  if (expired.length > 0) {
+    console.log(`Deleted ${expired.length} expired inventory snapshots`);
+  }
+}
+
+// Persist an inventory snapshot and prune old ones
+export async function recordSnapshot({ fetchedAt, resources, relationships, errors }) {
+  const { history } = getConfig();
+
+  await mkdir(history.directory, { recursive: true });
+  await writeFile(
+    join(history.directory, snapshotFileName(fetchedAt)),
+    JSON.stringify({ fetchedAt, resources, relationships, errors })
+  );
+  // An index that isn't loaded yet reads the new snapshot from disk
+  if (timelineIndexPromise) {
+    indexSnapshot(await timelineIndexPromise, { fetchedAt, resources });
+  }
+  await applyRetention();
+}
+
+// The latest snapshot taken at or before the given time
+async function findSnapshotAt(snapshots, timestamp) {
+  const time = Date.parse(timestamp);
+  const match = snapshots.filter(snapshot => Date.parse(snapshot.fetchedAt) <= time).pop();
+  return match ? readSnapshot(match) : null;
+}
+
+function relationshipKey(rel) {
+  return `${rel.sourceId}|${rel.targetId}|${rel.type}`;
+}
+
+// Snapshots recorded without relationships can't tell what changed, so the
+// relationship diff is null rather than empty
+function diffRelationships(fromSnapshot, toSnapshot, touches) {
+  if (!Array.isArray(fromSnapshot.relationships) || !Array.isArray(toSnapshot.relationships)) {
+    return null;
+  }
+
+  const byKey = relationships => new Map(relationships.filter(touches).map(rel => [relationshipKey(rel), rel]));
+  const fromRelationships = byKey(fromSnapshot.relationships);
+  const toRelationships = byKey(toSnapshot.relationships);
+  return {
+    added: [...toRelationships].filter(([key]) => !fromRelationships.has(key)).map(([, rel]) => rel),
+    removed: [...fromRelationships].filter(([key]) => !toRelationships.has(key)).map(([, rel]) => rel)
+  };
+}
+
+// Added, removed and modified resources (with field-level changes) between two points in time
+export async function getHistoryDiff({ from, to, application }) {
+  const snapshots = await listSnapshots();
+  if (snapshots.length === 0) {
+    throw new SnapshotNotFoundError('No inventory snapshots have been recorded yet');
+  }
+
+  const fromSnapshot = await findSnapshotAt(snapshots, from);
+  const toSnapshot = to
+    ? await findSnapshotAt(snapshots, to)
+    : await readSnapshot(snapshots[snapshots.length - 1]);
+
+  if (!fromSnapshot) {
+    throw new SnapshotNotFoundError(`No inventory snapshot exists at or before ${from}, the oldest is ${snapshots[0].fetchedAt}`);
+  }
+  if (!toSnapshot) {
+    throw new SnapshotNotFoundError(`No inventory snapshot exists at or before ${to}, the oldest is ${snapshots[0].fetchedAt}`);
+  }
+
+  const inApplication = resource => !application || resource.application === application;
+  const fromResources = fromSnapshot.resources.filter(inApplication);
+  const toResources = toSnapshot.resources.filter(inApplication);
+  const fromById = new Map(fromResources.map(r => [r.id, r]));
+  const toById = new Map(toResources.map(r => [r.id, r]));
+
+  const modified = toResources
+    .filter(resource => fromById.has(resource.id))
+    .map(resource => ({
+      id: resource.id,
+      name: resource.name,
+      type: resource.type,
+      application: resource.application,
+      changes: diffResourceFields(fromById.get(resource.id), resource)
+    }))
+    .filter(resource => resource.changes.length > 0);
+
+  // Relationships touching the application's resources on either side
+  const resourceIds = new Set([...fromById.keys(), ...toById.keys()]);
+  const touches = rel => !application || resourceIds.has(rel.sourceId) || resourceIds.has(rel.targetId);
+
+  return {
+    from: fromSnapshot.fetchedAt,
+    to: toSnapshot.fetchedAt,
+    added: toResources.filter(resource => !fromById.has(resource.id)),
+    removed: fromResources.filter(resource => !toById.has(resource.id)),
+    modified,
+    relationships: diffRelationships(fromSnapshot, toSnapshot, touches)
+  };
+}
+
+// Status timeline of one resource: an entry for every snapshot where its status
+// changed, worked out from the timeline index. Only the snapshot holding the
+// resource's latest state in the range is read, unless it's the newest one.
+export async function getResourceHistory(resourceId, { from, to } = {}) {
+  const index = await getTimelineIndex();
+  const fromTime = from ? Date.parse(from) : -Infinity;
+  const toTime = to ? Date.parse(to) : Infinity;
+  const snapshots = index.snapshots.filter(fetchedAt => {
+    const time = Date.parse(fetchedAt);
+    return time >= fromTime && time <= toTime;
+  });
+  const changes = index.statusChanges.get(resourceId) || [];
+
+  const timeline = [];
+  let status = 'absent';
+  let lastStatus;
+  let lastPresentAt = null;
+  let changeIndex = 0;
+
+  for (const fetchedAt of snapshots) {
+    const time = Date.parse(fetchedAt);
+    while (changeIndex < changes.length && Date.parse(changes[changeIndex].at) <= time) {
+      status = changes[changeIndex].status;
+      changeIndex++;
+    }
+
+    if (status !== 'absent') lastPresentAt = fetchedAt;
+    if (status !== lastStatus) {
+      timeline.push({ at: fetchedAt, status });
+      lastStatus = status;
+    }
+  }
+
+  let resource = null;
+  if (lastPresentAt) {
+    const { resources } = lastPresentAt === index.latest?.fetchedAt
+      ? index.latest
+      : await readSnapshot({ fileName: snapshotFileName(lastPresentAt) });
+    resource = resources.find(r => r.id === resourceId) || null;
+  }
+
+  return {
+    resourceId,
+    resource,
+    snapshotCount: snapshots.length,
+    timeline
+  };
+}
+
+// Record a snapshot after every inventory refresh
+inventoryEvents.on('refresh', async ({ resources, errors, fetchedAt }) => {
+  const { history } = getConfig();
+  if (!history.enabled) return;
+
+  try {
+    const relationships = history.includeRelationships ? await getRelationships() : null;
+    await recordSnapshot({ fetchedAt, resources, relationships, errors });
+  } catch (error) {
+    console.error(`Error recording inventory snapshot ${fetchedAt}:`, error);
+  }
+});
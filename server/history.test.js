@@ -0,0 +1,99 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, unlink, readdir } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { getConfig } from './config.js';
+import { recordSnapshot, getResourceHistory, getHistoryDiff } from './history.js';
+
+const resource = (id, status) => ({ id, name: id, type: 'ec2', status });
+
+describe('resource history', () => {
+  let directory;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'aws-dashboard-history-'));
+    Object.assign(getConfig().history, { directory, retentionDays: 0, maxSnapshots: 4 });
+
+    // Recorded before the index is loaded, so it's read from disk
+    await recordSnapshot({ fetchedAt: '2026-01-01T00:00:00.000Z', resources: [resource('a', 'running')], relationships: [], errors: [] });
+  });
+
+  after(() => rm(directory, { recursive: true, force: true }));
+
+  it('lists the snapshots where a resource changed status', async () => {
+    await getResourceHistory('a');
+    await recordSnapshot({ fetchedAt: '2026-01-01T00:05:00.000Z', resources: [resource('a', 'running'), resource('b', 'pending')], relationships: [], errors: [] });
+    await recordSnapshot({ fetchedAt: '2026-01-01T00:10:00.000Z', resources: [resource('a', 'stopped'), resource('b', 'running')], relationships: [], errors: [] });
+    await recordSnapshot({ fetchedAt: '2026-01-01T00:15:00.000Z', resources: [resource('b', 'running')], relationships: [], errors: [] });
+
+    const history = await getResourceHistory('a');
+
+    assert.equal(history.snapshotCount, 4);
+    assert.deepEqual(history.timeline, [
+      { at: '2026-01-01T00:00:00.000Z', status: 'running' },
+      { at: '2026-01-01T00:10:00.000Z', status: 'stopped' },
+      { at: '2026-01-01T00:15:00.000Z', status: 'absent' }
+    ]);
+    assert.equal(history.resource.status, 'stopped');
+  });
+
+  it('starts a range with the status at its first snapshot', async () => {
+    const history = await getResourceHistory('b', { from: '2026-01-01T00:06:00.000Z', to: '2026-01-01T00:12:00.000Z' });
+
+    assert.deepEqual(history.timeline, [{ at: '2026-01-01T00:10:00.000Z', status: 'running' }]);
+    assert.equal(history.snapshotCount, 1);
+  });
+
+  it('keeps the status at the oldest snapshot after retention deletes older ones', async () => {
+    await recordSnapshot({ fetchedAt: '2026-01-01T00:20:00.000Z', resources: [resource('b', 'stopped')], relationships: [], errors: [] });
+
+    const history = await getResourceHistory('b');
+
+    assert.equal((await readdir(directory)).length, 4);
+    assert.deepEqual(history.timeline, [
+      { at: '2026-01-01T00:05:00.000Z', status: 'pending' },
+      { at: '2026-01-01T00:10:00.000Z', status: 'running' },
+      { at: '2026-01-01T00:20:00.000Z', status: 'stopped' }
+    ]);
+  });
+
+  it('answers timelines without reading every snapshot', async () => {
+    // Timelines come from the index, deleted files are never read again
+    await unlink(join(directory, '2026-01-01T00-05-00.000Z.json'));
+
+    const history = await getResourceHistory('b', { to: '2026-01-01T00:10:00.000Z' });
+
+    assert.deepEqual(history.timeline.map(entry => entry.status), ['pending', 'running']);
+  });
+});
+
+describe('history diff', () => {
+  let directory;
+  const link = (sourceId, targetId) => ({ sourceId, targetId, type: 'depends_on' });
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'aws-dashboard-history-diff-'));
+    Object.assign(getConfig().history, { directory, retentionDays: 0, maxSnapshots: 10 });
+  });
+
+  after(() => rm(directory, { recursive: true, force: true }));
+
+  it('reports relationship changes', async () => {
+    await recordSnapshot({ fetchedAt: '2026-02-01T00:00:00.000Z', resources: [resource('a', 'running')], relationships: [link('a', 'b')], errors: [] });
+    await recordSnapshot({ fetchedAt: '2026-02-01T00:05:00.000Z', resources: [resource('a', 'running')], relationships: [link('a', 'c')], errors: [] });
+
+    const diff = await getHistoryDiff({ from: '2026-02-01T00:00:00.000Z', to: '2026-02-01T00:05:00.000Z' });
+
+    assert.deepEqual(diff.relationships, { added: [link('a', 'c')], removed: [link('a', 'b')] });
+  });
+
+  it('marks relationship changes unavailable when a snapshot was recorded without them', async () => {
+    await recordSnapshot({ fetchedAt: '2026-02-01T00:10:00.000Z', resources: [resource('a', 'stopped')], relationships: null, errors: [] });
+
+    const diff = await getHistoryDiff({ from: '2026-02-01T00:05:00.000Z' });
+
+    assert.equal(diff.relationships, null);
+    assert.equal(diff.modified.length, 1);
+  });
+});
@@ -0,0 +1,216 @@
+import {
+  IAMClient,
+  ListRolePoliciesCommand,
+  GetRolePolicyCommand,
+  ListAttachedRolePoliciesCommand,
+  GetPolicyCommand,
+  GetPolicyVersionCommand
+} from "@aws-sdk/client-iam";
+import { getClient } from './clients.js';
+import { paginate } from './pagination.js';
+import { RelationshipType } from './resourceRelationships.js';
+
+// IAM is global, its API lives in us-east-1
+const IAM_REGION = 'us-east-1';
+
+// Roles are shared by many functions and services, so their policies are
+// reused across relationship discoveries for a while
+const ROLE_POLICY_CACHE_TTL_MS = 5 * 60 * 1000;
+const rolePolicyCache = new Map();
+
+// Statements granting access to parts of a resource (objects in a bucket,
+// indexes and streams of a table, versions of a function) count as access
+// to the resource itself
+const SUB_RESOURCE_PATTERNS = [
+  /^(arn:[^:]*:s3:::[^/]+)\/.*$/,
+  /^(arn:[^:]*:dynamodb:[^:]*:[^:]*:table\/[^/]+)\/.*$/,
+  /^(arn:[^:]*:lambda:[^:]*:[^:]*:function:[^:]+):.*$/
+];
+
+// ARN services acted on by more than the matching IAM action prefix
+const ACTION_PREFIXES_BY_ARN_SERVICE = {
+  apigateway: ['apigateway', 'execute-api']
+};
+
+// Policy documents come back URL encoded
+function parsePolicyDocument(document) {
+  return JSON.parse(decodeURIComponent(document));
+}
+
+function toArray(value) {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// IAM wildcards: * matches any run of characters, ? a single character
+function wildcardToRegex(pattern) {
+  const escaped = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${escaped}$`);
+}
+
+function getRoleName(roleArn) {
+  // Roles may live under a path: arn:aws:iam::123456789012:role/service-role/name
+  return roleArn.split('/').pop();
+}
+
+function getPolicyStatements(policyName, document) {
+  const { Statement } = parsePolicyDocument(document);
+  return toArray(Statement).map(statement => ({ ...statement, policyName }));
+}
+
+// Every statement of the role's inline and attached managed policies
+async function fetchRolePolicyStatements(roleArn, accountId) {
+  const iamClient = getClient(IAMClient, IAM_REGION, accountId);
+  const roleName = getRoleName(roleArn);
+
+  const inlinePolicyNames = await paginate(
+    iamClient,
+    page => new ListRolePoliciesCommand({ RoleName: roleName, ...page }),
+    { inputToken: 'Marker', outputToken: 'Marker', itemsKey: 'PolicyNames' }
+  );
+  const attachedPolicies = await paginate(
+    iamClient,
+    page => new ListAttachedRolePoliciesCommand({ RoleName: roleName, ...page }),
+    { inputToken: 'Marker', outputToken: 'Marker', itemsKey: 'AttachedPolicies' }
+  );
+
+  const statements = [];
+
+  for (const policyName of inlinePolicyNames) {
+    const { PolicyDocument } = await iamClient.send(new GetRolePolicyCommand({
+      RoleName: roleName,
+      PolicyName: policyName
+    }));
+    statements.push(...getPolicyStatements(policyName, PolicyDocument));
+  }
+
+  for (const attachedPolicy of attachedPolicies) {
+    const { Policy } = await iamClient.send(new GetPolicyCommand({
+      PolicyArn: attachedPolicy.PolicyArn
+    }));
+    const { PolicyVersion } = await iamClient.send(new GetPolicyVersionCommand({
+      PolicyArn: attachedPolicy.PolicyArn,
+      VersionId: Policy.DefaultVersionId
+    }));
+    statements.push(...getPolicyStatements(attachedPolicy.PolicyName, PolicyVersion.Document));
+  }
+
+  return statements;
+}
+
+async function getRolePolicyStatements(roleArn, accountId) {
+  const cacheKey = `${accountId}|${roleArn}`;
+  const cached = rolePolicyCache.get(cacheKey);
+  if (cached && Date.now() - cached.fetchedAt < ROLE_POLICY_CACHE_TTL_MS) {
+    return cached.statements;
+  }
+
+  const statements = await fetchRolePolicyStatements(roleArn, accountId);
+  rolePolicyCache.set(cacheKey, { statements, fetchedAt: Date.now() });
+  return statements;
+}
+
+// Actions of a statement that can apply to a resource of the given ARN service
+function getApplicableActions(actions, arnService) {
+  const prefixes = ACTION_PREFIXES_BY_ARN_SERVICE[arnService] || [arnService];
+  return actions.filter(action => {
+    if (action === '*') return true;
+    const [prefix] = action.toLowerCase().split(':');
+    return prefixes.includes(prefix);
+  });
+}
+
+function isWildcardAction(action) {
+  return action === '*' || action.endsWith(':*');
+}
+
+function matchesResourcePattern(pattern, resourceArn) {
+  const regex = wildcardToRegex(pattern);
+  if (regex.test(resourceArn)) return true;
+
+  for (const subResourcePattern of SUB_RESOURCE_PATTERNS) {
+    const resourceLevel = pattern.match(subResourcePattern)?.[1];
+    if (resourceLevel && wildcardToRegex(resourceLevel).test(resourceArn)) return true;
+  }
+  return false;
+}
+
+// `depends_on` relationships from a resource to every inventory resource its
+// role's policies allow it to act on. Only Allow statements with Action and
+// Resource are considered; Deny statements are not subtracted, so the edges
+// describe what the policies grant rather than effective permissions.
+export async function getRoleDependencies(resource, roleArn, allResources) {
+  if (!roleArn) return [];
+
+  let statements;
+  try {
+    statements = await getRolePolicyStatements(roleArn, resource.accountId);
+  } catch (error) {
+    console.error(`Error reading IAM policies of role ${roleArn} for ${resource.id}:`, error);
+    return [];
+  }
+
+  // Grants per target resource, merged across statements and policies
+  const grants = new Map();
+
+  for (const statement of statements) {
+    if (statement.Effect !== 'Allow' || !statement.Action || !statement.Resource) continue;
+
+    const actions = toArray(statement.Action);
+    const resourcePatterns = toArray(statement.Resource);
+
+    for (const target of allResources) {
+      if (target.id === resource.id || !target.id.startsWith('arn:')) continue;
+
+      const applicableActions = getApplicableActions(actions, target.id.split(':')[2]);
+      if (applicableActions.length === 0) continue;
+
+      const wildcardResource = resourcePatterns.includes('*');
+      // A bare "*" resource is only followed within the same account, and only
+      // for actions naming a service, otherwise it would reach everything
+      if (wildcardResource) {
+        if (target.accountId !== resource.accountId || applicableActions.includes('*')) continue;
+      } else if (!resourcePatterns.some(pattern => matchesResourcePattern(pattern, target.id))) {
+        continue;
+      }
+
+      const grant = grants.get(target.id) || {
+        actions: new Set(),
+        policies: new Set(),
+        wildcardResource: false
+      };
+      applicableActions.forEach(action => grant.actions.add(action));
+      grant.policies.add(statement.policyName);
+      grant.wildcardResource = grant.wildcardResource || wildcardResource;
+      grants.set(target.id, grant);
+    }
+  }
+
+  return Array.from(grants, ([targetId, grant]) => {
+    const actions = Array.from(grant.actions).sort();
+    const wildcardActions = actions.filter(isWildcardAction);
+
+    return {
+      sourceId: resource.id,
+      targetId,
+      type: RelationshipType.DEPENDS_ON,
+      metadata: {
+        accessType: 'iam-policy',
+        roleArn,
+        actions,
+        policies: Array.from(grant.policies).sort(),
+        // `*` actions or a `*` resource grant more than the dependency needs
+        overBroad: wildcardActions.length > 0 || grant.wildcardResource,
+        wildcardActions,
+        wildcardResource: grant.wildcardResource
+      }
+    };
+  });
+}
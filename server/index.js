@@ -3,8 +3,52 @@ import cors from 'cors';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import dotenv from 'dotenv';
-import { getAllResources } from './aws.js';
-import { discoverResourceRelationships } from './resourceRelationships.js';
+import {
+  resourcesResponseSchema,
+  relationshipsResponseSchema,
+  refreshResponseSchema,
+  historySnapshotsResponseSchema,
+  historyDiffResponseSchema,
+  resourceHistoryResponseSchema,
+  ecsServiceTasksResponseSchema,
+  resourceMetricsResponseSchema,
+  notificationTestResponseSchema,
+  actionResultResponseSchema,
+  auditLogResponseSchema,
+  executionsResponseSchema,
+  executionHistoryResponseSchema,
+  actionRequestSchema,
+  formatContractIssues
+} from '../shared/apiContract.js';
+import { sendValidated, excludeInvalidResources } from './apiValidation.js';
+import { getConfig } from './config.js';
+import { requireDashboardRequest } from './requestOrigin.js';
+import {
+  getInventory,
+  getInventoryMetadata,
+  getRelationships,
+  refreshInventory,
+  startInventoryRefresh
+} from './inventory.js';
+import { handleInventoryStream } from './stream.js';
+import {
+  listSnapshots,
+  getHistoryDiff,
+  getResourceHistory,
+  SnapshotNotFoundError
+} from './history.js';
+import { getServiceTasks } from './ecsTasks.js';
+import { getResourceMetrics, METRIC_PERIODS, DEFAULT_METRIC_PERIOD } from './metrics.js';
+import { sendTestNotification, UnknownWebhookError } from './notifications.js';
+import { runResourceAction, getAuditLog, ActionRequestError } from './actions.js';
+import {
+  listExecutions,
+  getExecutionHistory,
+  isExecutionOf,
+  EXECUTION_STATUSES,
+  DEFAULT_EXECUTION_LIMIT,
+  MAX_EXECUTION_LIMIT
+} from './stepFunctionExecutions.js';
 
 // Load environment variables
 dotenv.config();
@@ -15,15 +59,23 @@ const __dirname = dirname(__filename);
 const app = express();
 const port = process.env.PORT || 5173;
 
-// Middleware
-app.use(cors());
+// Middleware. The dashboard calls the API from its own origin, other origins
+// only get CORS access when configured.
+app.use(cors({ origin: getConfig().api.allowedOrigins }));
 app.use(express.json());
+app.use('/api', requireDashboardRequest);
 
 // API Routes
 app.get('/api/resources', async (req, res) => {
   try {
-    const resources = await getAllResources();
-    res.json(resources);
+    const { resources, applications, errors } = await getInventory();
+    const { resources: validResources, errors: contractErrors } = excludeInvalidResources(resources);
+    sendValidated(res, resourcesResponseSchema, {
+      resources: validResources,
+      applications,
+      errors: [...errors, ...contractErrors],
+      ...getInventoryMetadata()
+    });
   } catch (error) {
     console.error('Error fetching resources:', error);
     res.status(500).json({ error: 'Failed to fetch AWS resources' });
@@ -36,7 +88,7 @@ app.get('/api/resource-relationships', async (req, res) => {
     const { application } = req.query;
     console.log(`Fetching relationships for application: ${application}`);
     
-    const allResources = await getAllResources();
+    const { resources: allResources } = excludeInvalidResources((await getInventory()).resources);
     console.log(`Total resources: ${allResources.length}`);
     
     // Filter resources by application if specified
@@ -49,31 +101,272 @@ app.get('/api/resource-relationships', async (req, res) => {
       console.log('Focus resources:', focusResources.map(r => ({ id: r.id, name: r.name, type: r.type })));
     }
     
-    const relationships = await discoverResourceRelationships(allResources, focusResources);
+    const relationships = await getRelationships(application);
     console.log(`Discovered relationships: ${relationships.length}`);
     console.log('Relationships:', JSON.stringify(relationships, null, 2));
     
-    // Ensure proper JSON formatting by using a properly structured object
     const responseData = {
       resources: focusResources || allResources,
       relationships: relationships || [],
       externalResources: focusResources 
         ? allResources.filter(r => !focusResources.some(fr => fr.id === r.id))
-        : []
+        : [],
+      ...getInventoryMetadata()
     };
     
     // Log the response data
     console.log(`External resources: ${responseData.externalResources.length}`);
     
-    // Set proper content type and stringify the JSON with proper formatting
-    res.setHeader('Content-Type', 'application/json');
-    res.send(JSON.stringify(responseData));
+    sendValidated(res, relationshipsResponseSchema, responseData);
   } catch (error) {
     console.error('Error fetching resource relationships:', error);
     res.status(500).json({ error: 'Failed to fetch resource relationships' });
   }
 });
 
+// Force an inventory refresh
+app.post('/api/refresh', async (req, res) => {
+  try {
+    await refreshInventory();
+    sendValidated(res, refreshResponseSchema, getInventoryMetadata());
+  } catch (error) {
+    console.error('Error refreshing inventory:', error);
+    res.status(500).json({ error: 'Failed to refresh inventory' });
+  }
+});
+
+// Stored inventory snapshots
+app.get('/api/history', async (req, res) => {
+  try {
+    const snapshots = await listSnapshots();
+    sendValidated(res, historySnapshotsResponseSchema, { snapshots });
+  } catch (error) {
+    console.error('Error listing inventory history:', error);
+    res.status(500).json({ error: 'Failed to list inventory history' });
+  }
+});
+
+// What changed between two points in time
+app.get('/api/history/diff', async (req, res) => {
+  const { from, to, application } = req.query;
+
+  if (!from || Number.isNaN(Date.parse(from)) || (to && Number.isNaN(Date.parse(to)))) {
+    return res.status(400).json({ error: '`from` (and `to`, if given) must be ISO 8601 timestamps' });
+  }
+
+  try {
+    const diff = await getHistoryDiff({ from, to, application });
+    sendValidated(res, historyDiffResponseSchema, diff);
+  } catch (error) {
+    if (error instanceof SnapshotNotFoundError) {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error diffing inventory history:', error);
+    res.status(500).json({ error: 'Failed to diff inventory history' });
+  }
+});
+
+// Status timeline of a single resource
+app.get('/api/resources/:id/history', async (req, res) => {
+  const { from, to } = req.query;
+
+  if ((from && Number.isNaN(Date.parse(from))) || (to && Number.isNaN(Date.parse(to)))) {
+    return res.status(400).json({ error: '`from` and `to` must be ISO 8601 timestamps' });
+  }
+
+  try {
+    const history = await getResourceHistory(req.params.id, { from, to });
+    sendValidated(res, resourceHistoryResponseSchema, history);
+  } catch (error) {
+    console.error(`Error fetching history for resource ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to fetch resource history' });
+  }
+});
+
+// Running and recently stopped tasks of an ECS service
+app.get('/api/resources/:id/tasks', async (req, res) => {
+  try {
+    const { resources } = await getInventory();
+    const service = resources.find(r => r.id === req.params.id);
+    if (!service || service.type !== 'ecs') {
+      return res.status(404).json({ error: `ECS service ${req.params.id} not found` });
+    }
+
+    const tasks = await getServiceTasks(service);
+    sendValidated(res, ecsServiceTasksResponseSchema, tasks);
+  } catch (error) {
+    console.error(`Error fetching tasks for ECS service ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to fetch ECS service tasks' });
+  }
+});
+
+// CloudWatch datapoints of a resource's default metrics
+app.get('/api/resources/:id/metrics', async (req, res) => {
+  const period = req.query.period || DEFAULT_METRIC_PERIOD;
+  if (!Object.hasOwn(METRIC_PERIODS, period)) {
+    return res.status(400).json({ error: `\`period\` must be one of ${Object.keys(METRIC_PERIODS).join(', ')}` });
+  }
+
+  try {
+    const { resources } = await getInventory();
+    const resource = resources.find(r => r.id === req.params.id);
+    if (!resource) {
+      return res.status(404).json({ error: `Resource ${req.params.id} not found` });
+    }
+
+    const metrics = await getResourceMetrics(resource, period);
+    sendValidated(res, resourceMetricsResponseSchema, metrics);
+  } catch (error) {
+    console.error(`Error fetching metrics for resource ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to fetch resource metrics' });
+  }
+});
+
+// Step Functions state machine with recorded executions. Express workflows
+// only record executions in CloudWatch Logs.
+async function findStandardStateMachine(id) {
+  const { resources } = await getInventory();
+  const stateMachine = resources.find(r => r.id === id);
+  if (!stateMachine || stateMachine.type !== 'stepfunctions') {
+    return { status: 404, error: `Step Functions state machine ${id} not found` };
+  }
+  if (stateMachine.details?.stateMachineType === 'EXPRESS') {
+    return { status: 400, error: `${stateMachine.name} is an Express workflow, its executions are only recorded in CloudWatch Logs` };
+  }
+  return { stateMachine };
+}
+
+// Executions of a state machine, most recent first, filtered by `status` and
+// a `from`/`to` range of start times
+app.get('/api/resources/:id/executions', async (req, res) => {
+  const { status } = req.query;
+  const from = req.query.from ? new Date(req.query.from) : undefined;
+  const to = req.query.to ? new Date(req.query.to) : undefined;
+  const limit = req.query.limit === undefined ? DEFAULT_EXECUTION_LIMIT : Number(req.query.limit);
+
+  if (status !== undefined && !EXECUTION_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `\`status\` must be one of ${EXECUTION_STATUSES.join(', ')}` });
+  }
+  if ((from && isNaN(from)) || (to && isNaN(to))) {
+    return res.status(400).json({ error: '`from` and `to` must be ISO 8601 timestamps' });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_EXECUTION_LIMIT) {
+    return res.status(400).json({ error: `\`limit\` must be a whole number from 1 to ${MAX_EXECUTION_LIMIT}` });
+  }
+
+  try {
+    const { stateMachine, status: errorStatus, error } = await findStandardStateMachine(req.params.id);
+    if (error) {
+      return res.status(errorStatus).json({ error });
+    }
+
+    const executions = await listExecutions(stateMachine, { status, from, to, limit });
+    sendValidated(res, executionsResponseSchema, executions);
+  } catch (error) {
+    console.error(`Error fetching executions of state machine ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to fetch Step Functions executions' });
+  }
+});
+
+// Event history of an execution, with the state it failed in
+app.get('/api/resources/:id/executions/:executionArn', async (req, res) => {
+  try {
+    const { stateMachine, status: errorStatus, error } = await findStandardStateMachine(req.params.id);
+    if (error) {
+      return res.status(errorStatus).json({ error });
+    }
+    if (!isExecutionOf(stateMachine, req.params.executionArn)) {
+      return res.status(404).json({ error: `Execution ${req.params.executionArn} not found` });
+    }
+
+    const history = await getExecutionHistory(stateMachine, req.params.executionArn);
+    sendValidated(res, executionHistoryResponseSchema, history);
+  } catch (error) {
+    if (error.name === 'ExecutionDoesNotExist') {
+      return res.status(404).json({ error: `Execution ${req.params.executionArn} not found` });
+    }
+    console.error(`Error fetching history of execution ${req.params.executionArn}:`, error);
+    res.status(500).json({ error: 'Failed to fetch Step Functions execution history' });
+  }
+});
+
+// Run an operational action on a resource. The body holds the action's
+// `params`, `dryRun` and, for a real run, the resource name typed as `confirm`.
+app.post('/api/resources/:id/actions/:action', async (req, res) => {
+  const request = actionRequestSchema.safeParse(req.body ?? {});
+  if (!request.success) {
+    return res.status(400).json({ error: 'Invalid action request', issues: formatContractIssues(request.error) });
+  }
+  const { params, dryRun, confirm } = request.data;
+
+  try {
+    const { resources } = await getInventory();
+    const resource = resources.find(r => r.id === req.params.id);
+    if (!resource) {
+      return res.status(404).json({ error: `Resource ${req.params.id} not found` });
+    }
+
+    const { actions } = getConfig();
+    // Anyone can send the actor header, unless a trusted proxy sets it
+    const user = req.get(actions.actorHeader) || null;
+    const actor = { user, verified: Boolean(user) && actions.trustActorHeader, ip: req.ip };
+    const result = await runResourceAction(resource, req.params.action, { params, dryRun, confirm, actor });
+
+    // Show the effect of the action without waiting for the next scheduled refresh
+    if (!dryRun) {
+      refreshInventory().catch(error => {
+        console.error('Error refreshing inventory after an action:', error);
+      });
+    }
+    sendValidated(res, actionResultResponseSchema, result);
+  } catch (error) {
+    if (error instanceof ActionRequestError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error(`Error running action ${req.params.action} on resource ${req.params.id}:`, error);
+    res.status(500).json({ error: `Failed to run action ${req.params.action}: ${error.message}` });
+  }
+});
+
+// Recorded action attempts, newest first, optionally for one resource
+app.get('/api/audit-log', async (req, res) => {
+  const { resourceId } = req.query;
+  const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    return res.status(400).json({ error: '`limit` must be a positive whole number' });
+  }
+
+  try {
+    const entries = await getAuditLog({ resourceId, limit });
+    sendValidated(res, auditLogResponseSchema, { entries });
+  } catch (error) {
+    console.error('Error reading audit log:', error);
+    res.status(500).json({ error: 'Failed to read audit log' });
+  }
+});
+
+// Send a sample notification to the webhook named in the body, or to every webhook
+app.post('/api/notifications/test', async (req, res) => {
+  const { webhook } = req.body || {};
+  if (webhook !== undefined && typeof webhook !== 'string') {
+    return res.status(400).json({ error: '`webhook` must be the name of a configured webhook' });
+  }
+
+  try {
+    const results = await sendTestNotification(webhook);
+    sendValidated(res, notificationTestResponseSchema, { results });
+  } catch (error) {
+    if (error instanceof UnknownWebhookError) {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error sending test notification:', error);
+    res.status(500).json({ error: 'Failed to send test notification' });
+  }
+});
+
+// Live inventory diffs
+app.get('/api/stream', handleInventoryStream);
+
 // Serve static files
 app.use(express.static(join(__dirname, '../dist')));
 
@@ -84,4 +377,5 @@ app.get('*', (req, res) => {
 
 app.listen(port, '0.0.0.0', () => {
   console.log(`Server running on port ${port}`);
+  startInventoryRefresh();
 });
@@ -0,0 +1,125 @@
+import { EventEmitter } from 'events';
+import { getAllResources } from './aws.js';
+import { discoverResourceRelationships } from './resourceRelationships.js';
+import { getConfig } from './config.js';
+
+// In-process inventory store shared by every API request
+const inventory = {
+  resources: [],
+  // Health of every application, computed with the resources
+  applications: [],
+  // Collectors that failed during the last refresh
+  errors: [],
+  fetchedAt: null,
+  // Relationships discovered for an application, cleared on every refresh
+  relationshipsByApplication: new Map()
+};
+
+let refreshPromise = null;
+let refreshTimer = null;
+
+// Emits 'refresh' with { previousResources, resources, applications, errors, fetchedAt } after every refresh
+export const inventoryEvents = new EventEmitter();
+
+function getAgeSeconds() {
+  if (!inventory.fetchedAt) return null;
+  return Math.floor((Date.now() - new Date(inventory.fetchedAt).getTime()) / 1000);
+}
+
+// Metadata describing how fresh the stored inventory is
+export function getInventoryMetadata() {
+  return {
+    fetchedAt: inventory.fetchedAt,
+    ageSeconds: getAgeSeconds(),
+    refreshing: refreshPromise !== null
+  };
+}
+
+// Fetch a fresh inventory from AWS. Concurrent callers share the same refresh.
+export function refreshInventory() {
+  if (refreshPromise) return refreshPromise;
+
+  refreshPromise = (async () => {
+    try {
+      console.log('Refreshing inventory');
+      const { resources, applications, errors } = await getAllResources();
+      const previousResources = inventory.resources;
+
+      inventory.resources = resources;
+      inventory.applications = applications;
+      inventory.errors = errors;
+      inventory.fetchedAt = new Date().toISOString();
+      inventory.relationshipsByApplication.clear();
+
+      console.log(`Inventory refreshed: ${resources.length} resources, ${errors.length} collector errors`);
+      inventoryEvents.emit('refresh', {
+        previousResources,
+        resources,
+        applications,
+        errors,
+        fetchedAt: inventory.fetchedAt
+      });
+      return inventory;
+    } finally {
+      refreshPromise = null;
+    }
+  })();
+
+  return refreshPromise;
+}
+
+// Current inventory, fetching it first if nothing has been stored yet
+export async function getInventory() {
+  if (!inventory.fetchedAt) {
+    await refreshInventory();
+  }
+  return inventory;
+}
+
+// Relationships for an application (or every resource), cached until the next refresh
+export async function getRelationships(application) {
+  const { resources, relationshipsByApplication } = await getInventory();
+  const cacheKey = application || '*';
+
+  // Cache the pending discovery so concurrent requests share it
+  if (!relationshipsByApplication.has(cacheKey)) {
+    const focusResources = application
+      ? resources.filter(r => r.application === application)
+      : null;
+    const discovery = discoverResourceRelationships(resources, focusResources)
+      .catch(error => {
+        relationshipsByApplication.delete(cacheKey);
+        throw error;
+      });
+    relationshipsByApplication.set(cacheKey, discovery);
+  }
+
+  return relationshipsByApplication.get(cacheKey);
+}
+
+// Refresh the inventory on the configured interval
+export function startInventoryRefresh() {
+  const { inventory: inventoryConfig } = getConfig();
+  const intervalMs = inventoryConfig.refreshIntervalSeconds * 1000;
+
+  stopInventoryRefresh();
+
+  refreshInventory().catch(error => {
+    console.error('Error during initial inventory refresh:', error);
+  });
+
+  if (intervalMs > 0) {
+    refreshTimer = setInterval(() => {
+      refreshInventory().catch(error => {
+        console.error('Error during scheduled inventory refresh:', error);
+      });
+    }, intervalMs);
+  }
+}
+
+export function stopInventoryRefresh() {
+  if (refreshTimer) {
+    clearInterval(refreshTimer);
+    refreshTimer = null;
+  }
+}
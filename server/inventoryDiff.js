@@ -0,0 +1,83 @@
+// Fields that change on every refresh without the resource itself changing
+const VOLATILE_FIELDS = ['lastUpdated'];
+
+function comparableResource(resource) {
+  const copy = { ...resource };
+  for (const field of VOLATILE_FIELDS) {
+    delete copy[field];
+  }
+  return JSON.stringify(copy);
+}
+
+function isPlainObject(value) {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Field-level changes between two versions of a resource, using dotted paths
+// for nested objects (e.g. `details.runningCount`). Arrays are compared whole.
+export function diffResourceFields(previous, current, path = '') {
+  const changes = [];
+  const keys = new Set([...Object.keys(previous || {}), ...Object.keys(current || {})]);
+  
+  for (const key of keys) {
+    const field = path ? `${path}.${key}` : key;
+    if (!path && VOLATILE_FIELDS.includes(key)) continue;
+    
+    const before = previous?.[key];
+    const after = current?.[key];
+    
+    if (isPlainObject(before) && isPlainObject(after)) {
+      changes.push(...diffResourceFields(before, after, field));
+    } else if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ field, from: before, to: after });
+    }
+  }
+  
+  return changes;
+}
+
+// Compare two inventory snapshots and describe what changed between them
+export function diffInventories(previousResources, currentResources) {
+  const previousById = new Map(previousResources.map(r => [r.id, r]));
+  const currentById = new Map(currentResources.map(r => [r.id, r]));
+  
+  const added = [];
+  const changed = [];
+  const statusTransitions = [];
+  
+  for (const resource of currentResources) {
+    const previous = previousById.get(resource.id);
+    
+    if (!previous) {
+      added.push(resource);
+      continue;
+    }
+    
+    if (comparableResource(previous) !== comparableResource(resource)) {
+      changed.push(resource);
+    }
+    
+    if (previous.status !== resource.status) {
+      statusTransitions.push({
+        id: resource.id,
+        name: resource.name,
+        type: resource.type,
+        application: resource.application,
+        from: previous.status,
+        to: resource.status
+      });
+    }
+  }
+  
+  const removed = previousResources
+    .filter(resource => !currentById.has(resource.id))
+    .map(resource => resource.id);
+  
+  return { added, removed, changed, statusTransitions };
+}
+
+export function isEmptyDiff(diff) {
+  return diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0;
+}
@@ -0,0 +1,236 @@
+import {
+  CloudWatchClient,
+  GetMetricDataCommand
+} from "@aws-sdk/client-cloudwatch";
+import { getClient } from './clients.js';
+import { paginate, chunk } from './pagination.js';
+import { getConfig } from './config.js';
+
+// Time windows the metrics endpoint accepts, with the datapoint period of each
+export const METRIC_PERIODS = {
+  '1h': { durationSeconds: 60 * 60, periodSeconds: 60 },
+  '3h': { durationSeconds: 3 * 60 * 60, periodSeconds: 300 },
+  '24h': { durationSeconds: 24 * 60 * 60, periodSeconds: 900 },
+  '7d': { durationSeconds: 7 * 24 * 60 * 60, periodSeconds: 3600 }
+};
+
+export const DEFAULT_METRIC_PERIOD = '3h';
+
+// GetMetricData accepts at most 500 queries per call
+const METRIC_QUERIES_LIMIT = 500;
+
+// Cards request their metrics one resource at a time; requests arriving within
+// this window share GetMetricData calls
+const BATCH_WINDOW_MS = 50;
+
+// Load balancer metrics are dimensioned by the end of the ARN: app/<name>/<id>
+function loadBalancerDimension(resource) {
+  return { LoadBalancer: resource.id.split(':loadbalancer/')[1] };
+}
+
+// Metrics shown for each resource type
+const DEFAULT_METRICS = {
+  lambda: resource => [
+    { id: 'invocations', label: 'Invocations', namespace: 'AWS/Lambda', metricName: 'Invocations', stat: 'Sum', unit: 'Count', dimensions: { FunctionName: resource.name } },
+    { id: 'errors', label: 'Errors', namespace: 'AWS/Lambda', metricName: 'Errors', stat: 'Sum', unit: 'Count', dimensions: { FunctionName: resource.name } },
+    { id: 'duration', label: 'Duration', namespace: 'AWS/Lambda', metricName: 'Duration', stat: 'Average', unit: 'Milliseconds', dimensions: { FunctionName: resource.name } }
+  ],
+  ecs: resource => [
+    { id: 'cpu', label: 'CPU', namespace: 'AWS/ECS', metricName: 'CPUUtilization', stat: 'Average', unit: 'Percent', dimensions: { ClusterName: resource.details?.clusterName, ServiceName: resource.name } },
+    { id: 'memory', label: 'Memory', namespace: 'AWS/ECS', metricName: 'MemoryUtilization', stat: 'Average', unit: 'Percent', dimensions: { ClusterName: resource.details?.clusterName, ServiceName: resource.name } }
+  ],
+  alb: resource => [
+    { id: 'requests', label: 'Requests', namespace: 'AWS/ApplicationELB', metricName: 'RequestCount', stat: 'Sum', unit: 'Count', dimensions: loadBalancerDimension(resource) },
+    { id: 'errors5xx', label: '5xx', namespace: 'AWS/ApplicationELB', metricName: 'HTTPCode_Target_5XX_Count', stat: 'Sum', unit: 'Count', dimensions: loadBalancerDimension(resource) },
+    { id: 'latency', label: 'Latency', namespace: 'AWS/ApplicationELB', metricName: 'TargetResponseTime', stat: 'Average', unit: 'Seconds', dimensions: loadBalancerDimension(resource) }
+  ],
+  nlb: resource => [
+    { id: 'flows', label: 'Active Flows', namespace: 'AWS/NetworkELB', metricName: 'ActiveFlowCount', stat: 'Average', unit: 'Count', dimensions: loadBalancerDimension(resource) },
+    { id: 'unhealthyHosts', label: 'Unhealthy Hosts', namespace: 'AWS/NetworkELB', metricName: 'UnHealthyHostCount', stat: 'Maximum', unit: 'Count', dimensions: loadBalancerDimension(resource) }
+  ],
+  aurora: resource => [
+    { id: 'connections', label: 'Connections', namespace: 'AWS/RDS', metricName: 'DatabaseConnections', stat: 'Average', unit: 'Count', dimensions: { DBClusterIdentifier: resource.name } },
+    { id: 'cpu', label: 'CPU', namespace: 'AWS/RDS', metricName: 'CPUUtilization', stat: 'Average', unit: 'Percent', dimensions: { DBClusterIdentifier: resource.name } }
+  ],
+  'aurora-instance': resource => [
+    { id: 'connections', label: 'Connections', namespace: 'AWS/RDS', metricName: 'DatabaseConnections', stat: 'Average', unit: 'Count', dimensions: { DBInstanceIdentifier: resource.name } },
+    { id: 'cpu', label: 'CPU', namespace: 'AWS/RDS', metricName: 'CPUUtilization', stat: 'Average', unit: 'Percent', dimensions: { DBInstanceIdentifier: resource.name } }
+  ],
+  ec2: resource => [
+    { id: 'cpu', label: 'CPU', namespace: 'AWS/EC2', metricName: 'CPUUtilization', stat: 'Average', unit: 'Percent', dimensions: { InstanceId: resource.id } }
+  ],
+  stepfunctions: resource => [
+    { id: 'started', label: 'Started', namespace: 'AWS/States', metricName: 'ExecutionsStarted', stat: 'Sum', unit: 'Count', dimensions: { StateMachineArn: resource.id } },
+    { id: 'failed', label: 'Failed', namespace: 'AWS/States', metricName: 'ExecutionsFailed', stat: 'Sum', unit: 'Count', dimensions: { StateMachineArn: resource.id } },
+    { id: 'duration', label: 'Duration', namespace: 'AWS/States', metricName: 'ExecutionTime', stat: 'Average', unit: 'Milliseconds', dimensions: { StateMachineArn: resource.id } }
+  ],
+  // REST APIs are dimensioned by name, HTTP and WebSocket APIs by ID
+  apigateway: resource => {
+    if (resource.details?.protocolType === 'REST') {
+      const dimensions = { ApiName: resource.name };
+      return [
+        { id: 'requests', label: 'Requests', namespace: 'AWS/ApiGateway', metricName: 'Count', stat: 'Sum', unit: 'Count', dimensions },
+        { id: 'errors5xx', label: '5xx', namespace: 'AWS/ApiGateway', metricName: '5XXError', stat: 'Sum', unit: 'Count', dimensions },
+        { id: 'latency', label: 'Latency', namespace: 'AWS/ApiGateway', metricName: 'Latency', stat: 'Average', unit: 'Milliseconds', dimensions }
+      ];
+    }
+    const dimensions = { ApiId: resource.id.split('/').pop() };
+    if (resource.details?.protocolType === 'WEBSOCKET') {
+      return [
+        { id: 'messages', label: 'Messages', namespace: 'AWS/ApiGateway', metricName: 'MessageCount', stat: 'Sum', unit: 'Count', dimensions },
+        { id: 'errors', label: 'Errors', namespace: 'AWS/ApiGateway', metricName: 'ExecutionError', stat: 'Sum', unit: 'Count', dimensions }
+      ];
+    }
+    return [
+      { id: 'requests', label: 'Requests', namespace: 'AWS/ApiGateway', metricName: 'Count', stat: 'Sum', unit: 'Count', dimensions },
+      { id: 'errors5xx', label: '5xx', namespace: 'AWS/ApiGateway', metricName: '5xx', stat: 'Sum', unit: 'Count', dimensions },
+      { id: 'latency', label: 'Latency', namespace: 'AWS/ApiGateway', metricName: 'Latency', stat: 'Average', unit: 'Milliseconds', dimensions }
+    ];
+  },
+  eventbridge: resource => resource.id.includes(':rule/')
+    ? [
+        { id: 'invocations', label: 'Invocations', namespace: 'AWS/Events', metricName: 'Invocations', stat: 'Sum', unit: 'Count', dimensions: { RuleName: resource.name } },
+        { id: 'failed', label: 'Failed', namespace: 'AWS/Events', metricName: 'FailedInvocations', stat: 'Sum', unit: 'Count', dimensions: { RuleName: resource.name } }
+      ]
+    : [],
+  dynamodb: resource => [
+    { id: 'reads', label: 'Read Units', namespace: 'AWS/DynamoDB', metricName: 'ConsumedReadCapacityUnits', stat: 'Sum', unit: 'Count', dimensions: { TableName: resource.name } },
+    { id: 'writes', label: 'Write Units', namespace: 'AWS/DynamoDB', metricName: 'ConsumedWriteCapacityUnits', stat: 'Sum', unit: 'Count', dimensions: { TableName: resource.name } },
+    { id: 'readThrottles', label: 'Read Throttles', namespace: 'AWS/DynamoDB', metricName: 'ReadThrottleEvents', stat: 'Sum', unit: 'Count', dimensions: { TableName: resource.name } }
+  ],
+  sqs: resource => [
+    { id: 'visible', label: 'Visible', namespace: 'AWS/SQS', metricName: 'ApproximateNumberOfMessagesVisible', stat: 'Maximum', unit: 'Count', dimensions: { QueueName: resource.name } },
+    { id: 'oldest', label: 'Oldest Message', namespace: 'AWS/SQS', metricName: 'ApproximateAgeOfOldestMessage', stat: 'Maximum', unit: 'Seconds', dimensions: { QueueName: resource.name } }
+  ],
+  sns: resource => [
+    { id: 'published', label: 'Published', namespace: 'AWS/SNS', metricName: 'NumberOfMessagesPublished', stat: 'Sum', unit: 'Count', dimensions: { TopicName: resource.name } },
+    { id: 'failed', label: 'Failed', namespace: 'AWS/SNS', metricName: 'NumberOfNotificationsFailed', stat: 'Sum', unit: 'Count', dimensions: { TopicName: resource.name } }
+  ]
+};
+
+const pendingBatches = new Map();
+const metricsCache = new Map();
+
+// Datapoints of every queued request in one window, fetched together
+async function fetchBatch({ region, accountId, period }, requests) {
+  const { durationSeconds, periodSeconds } = METRIC_PERIODS[period];
+  // Align the window to the period so cached and fresh results line up
+  const endTime = new Date(Math.floor(Date.now() / (periodSeconds * 1000)) * periodSeconds * 1000);
+  const startTime = new Date(endTime.getTime() - durationSeconds * 1000);
+
+  // Query IDs must be unique within a call and start with a lowercase letter
+  const queries = requests.flatMap((request, r) =>
+    request.definitions.map((definition, d) => ({ queryId: `r${r}_${d}`, definition }))
+  );
+
+  const cloudWatchClient = getClient(CloudWatchClient, region, accountId);
+  const results = new Map();
+
+  for (const queryChunk of chunk(queries, METRIC_QUERIES_LIMIT)) {
+    const metricDataResults = await paginate(
+      cloudWatchClient,
+      page => new GetMetricDataCommand({
+        StartTime: startTime,
+        EndTime: endTime,
+        ScanBy: 'TimestampAscending',
+        MetricDataQueries: queryChunk.map(({ queryId, definition }) => ({
+          Id: queryId,
+          MetricStat: {
+            Metric: {
+              Namespace: definition.namespace,
+              MetricName: definition.metricName,
+              Dimensions: Object.entries(definition.dimensions).map(([Name, Value]) => ({ Name, Value }))
+            },
+            Period: periodSeconds,
+            Stat: definition.stat
+          }
+        })),
+        ...page
+      }),
+      { inputToken: 'NextToken', outputToken: 'NextToken', itemsKey: 'MetricDataResults' }
+    );
+
+    // Results of one query may be split across pages
+    for (const result of metricDataResults) {
+      const merged = results.get(result.Id) || { timestamps: [], values: [] };
+      merged.timestamps.push(...(result.Timestamps || []).map(timestamp => timestamp.toISOString()));
+      merged.values.push(...(result.Values || []));
+      results.set(result.Id, merged);
+    }
+  }
+
+  return requests.map((request, r) => ({
+    startTime: startTime.toISOString(),
+    endTime: endTime.toISOString(),
+    metrics: request.definitions.map((definition, d) => ({
+      id: definition.id,
+      label: definition.label,
+      stat: definition.stat,
+      unit: definition.unit,
+      ...(results.get(`r${r}_${d}`) || { timestamps: [], values: [] })
+    }))
+  }));
+}
+
+// Queue metric definitions for the next GetMetricData batch of a region and account
+function queueMetrics({ region, accountId, period }, definitions) {
+  const batchKey = `${accountId}|${region}|${period}`;
+  let batch = pendingBatches.get(batchKey);
+
+  if (!batch) {
+    batch = [];
+    pendingBatches.set(batchKey, batch);
+    setTimeout(() => {
+      pendingBatches.delete(batchKey);
+      fetchBatch({ region, accountId, period }, batch)
+        .then(responses => batch.forEach((request, index) => request.resolve(responses[index])))
+        .catch(error => batch.forEach(request => request.reject(error)));
+    }, BATCH_WINDOW_MS);
+  }
+
+  return new Promise((resolve, reject) => {
+    batch.push({ definitions, resolve, reject });
+  });
+}
+
+// Drop datapoints past their TTL, so the cache only holds resources viewed recently
+function evictExpiredMetrics(ttlMs) {
+  const now = Date.now();
+  for (const [cacheKey, entry] of metricsCache) {
+    if (now - entry.fetchedAt >= ttlMs) metricsCache.delete(cacheKey);
+  }
+}
+
+// Default metric definitions of a resource. Definitions missing a dimension
+// value are left out, a query for them would fail its whole batch.
+export function getMetricDefinitions(resource) {
+  if (resource.source === 'custom') return [];
+  return (DEFAULT_METRICS[resource.type]?.(resource) || [])
+    .filter(definition => Object.values(definition.dimensions).every(Boolean));
+}
+
+// Default metrics of a resource over a time window, cached for a short while
+export async function getResourceMetrics(resource, period = DEFAULT_METRIC_PERIOD) {
+  const { periodSeconds } = METRIC_PERIODS[period];
+  const definitions = getMetricDefinitions(resource);
+
+  const response = { resourceId: resource.id, period, periodSeconds };
+  if (definitions.length === 0) {
+    return { ...response, startTime: null, endTime: null, metrics: [] };
+  }
+
+  const cacheKey = `${resource.id}|${period}`;
+  const cached = metricsCache.get(cacheKey);
+  const ttlMs = getConfig().metrics.cacheTtlSeconds * 1000;
+  if (cached && Date.now() - cached.fetchedAt < ttlMs) {
+    return { ...response, ...await cached.data };
+  }
+  evictExpiredMetrics(ttlMs);
+
+  // Cache the pending fetch so concurrent requests share it
+  const data = queueMetrics({ region: resource.region, accountId: resource.accountId, period }, definitions);
+  metricsCache.set(cacheKey, { data, fetchedAt: Date.now() });
+  data.catch(() => metricsCache.delete(cacheKey));
+
+  return { ...response, ...await data };
+}
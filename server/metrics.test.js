@@ -0,0 +1,73 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mockClients, restoreClients, awsError } from './testing/mockClients.js';
+import { getResourceMetrics } from './metrics.js';
+
+const lambda = name => ({
+  id: `arn:aws:lambda:us-east-1:123456789012:function:${name}`,
+  name,
+  type: 'lambda',
+  region: 'us-east-1',
+  accountId: '123456789012'
+});
+
+const at = minute => new Date(Date.UTC(2026, 0, 1, 0, minute));
+
+function getMetricDataCalls(calls) {
+  return calls.filter(call => call.name === 'GetMetricDataCommand');
+}
+
+describe('resource metrics', () => {
+  afterEach(restoreClients);
+
+  it('batches resources into one call and merges paged results without filling gaps', async () => {
+    const calls = mockClients({
+      GetMetricDataCommand: [
+        {
+          MetricDataResults: [{ Id: 'r0_0', Timestamps: [at(0), at(5)], Values: [1, 2] }],
+          NextToken: 'page-2'
+        },
+        {
+          MetricDataResults: [
+            { Id: 'r0_0', Timestamps: [at(20)], Values: [3] },
+            { Id: 'r1_1', Timestamps: [at(10)], Values: [4] }
+          ]
+        }
+      ]
+    });
+
+    const [checkout, refunds] = await Promise.all([
+      getResourceMetrics(lambda('checkout'), '1h'),
+      getResourceMetrics(lambda('refunds'), '1h')
+    ]);
+
+    assert.equal(getMetricDataCalls(calls).length, 2);
+    assert.equal(getMetricDataCalls(calls)[0].input.MetricDataQueries.length, 6);
+
+    const invocations = checkout.metrics.find(metric => metric.id === 'invocations');
+    assert.deepEqual(invocations.timestamps, [at(0), at(5), at(20)].map(date => date.toISOString()));
+    assert.deepEqual(invocations.values, [1, 2, 3]);
+    assert.deepEqual(refunds.metrics.find(metric => metric.id === 'errors').values, [4]);
+    assert.deepEqual(refunds.metrics.find(metric => metric.id === 'invocations').values, []);
+  });
+
+  it('reuses cached datapoints, but not a failed fetch', async () => {
+    let failing = true;
+    const calls = mockClients({
+      GetMetricDataCommand: () => {
+        if (failing) throw awsError('Throttling', 'Rate exceeded');
+        return { MetricDataResults: [{ Id: 'r0_0', Timestamps: [at(0)], Values: [7] }] };
+      }
+    });
+    const resource = lambda('orders');
+
+    await assert.rejects(getResourceMetrics(resource), { name: 'Throttling' });
+    failing = false;
+    const first = await getResourceMetrics(resource);
+    const second = await getResourceMetrics(resource);
+
+    assert.equal(getMetricDataCalls(calls).length, 2);
+    assert.deepEqual(second.metrics, first.metrics);
+    assert.deepEqual(first.metrics[0].values, [7]);
+  });
+});
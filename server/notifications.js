@@ -0,0 +1,264 @@
+import { getConfig } from './config.js';
+import { inventoryEvents } from './inventory.js';
+
+const WEBHOOK_FORMATS = ['json', 'slack', 'teams'];
+
+// Webhooks that take longer than this are given up on
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// Retries of a failing webhook back off to at most this long apart
+const MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+const TRANSITION_COLORS = {
+  error: 'D13212',
+  stopped: 'D13212',
+  warning: 'F2A900',
+  pending: 'F2A900',
+  healthy: '2EB67D',
+  running: '2EB67D'
+};
+
+// Delivery state of each webhook, by name:
+//   pending      - transitions waiting for the quiet period to end, by `${resourceId}|${kind}`
+//   lastNotified - the state last sent for each `${resourceId}|${kind}`
+//   lastSentAt   - when a message was last sent
+//   failures     - deliveries failed in a row, deciding when to retry
+//   timer        - flushes `pending` once the quiet period is over or a retry is due
+const webhookStates = new Map();
+
+// Thrown when a test notification names a webhook that isn't configured
+export class UnknownWebhookError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'UnknownWebhookError';
+  }
+}
+
+// Configured webhooks, checked so a typo fails loudly instead of silently dropping messages
+function getWebhooks() {
+  const { notifications } = getConfig();
+
+  return notifications.webhooks.map((webhook, index) => {
+    if (!webhook.url) {
+      throw new Error(`Notification webhook ${index} needs a url`);
+    }
+    const format = webhook.format || 'json';
+    if (!WEBHOOK_FORMATS.includes(format)) {
+      throw new Error(`Notification webhook ${index} has unknown format "${webhook.format}", expected one of ${WEBHOOK_FORMATS.join(', ')}`);
+    }
+    return { ...webhook, name: webhook.name || `webhook ${index}`, format };
+  });
+}
+
+function getWebhookState(name) {
+  if (!webhookStates.has(name)) {
+    webhookStates.set(name, { pending: new Map(), lastNotified: new Map(), lastSentAt: 0, failures: 0, timer: null });
+  }
+  return webhookStates.get(name);
+}
+
+// Status and health changes between two refreshes. Resources that appeared or
+// disappeared are left to the inventory diff.
+export function findTransitions(previousResources, resources) {
+  const previousById = new Map(previousResources.map(r => [r.id, r]));
+  const transitions = [];
+
+  for (const resource of resources) {
+    const previous = previousById.get(resource.id);
+    if (!previous) continue;
+
+    const subject = {
+      resourceId: resource.id,
+      name: resource.name,
+      type: resource.type,
+      application: resource.application,
+      accountId: resource.accountId,
+      region: resource.region
+    };
+
+    if (previous.status !== resource.status) {
+      transitions.push({ ...subject, kind: 'status', from: previous.status, to: resource.status });
+    }
+
+    const previousHealth = previous.health?.status;
+    const health = resource.health?.status;
+    if (previousHealth && health && previousHealth !== health) {
+      transitions.push({
+        ...subject,
+        kind: 'health',
+        from: previousHealth,
+        to: health,
+        reasons: resource.health.reasons.map(reason => reason.explanation)
+      });
+    }
+  }
+
+  return transitions;
+}
+
+function describeTransition(transition) {
+  const reasons = transition.reasons?.length ? ` (${transition.reasons.join('; ')})` : '';
+  return `${transition.name} [${transition.type}, ${transition.application}] ${transition.kind} ${transition.from} → ${transition.to}${reasons}`;
+}
+
+// The worst state a message reports decides its colour
+function getThemeColor(transitions) {
+  const states = transitions.map(transition => transition.to);
+  const worst = ['error', 'stopped', 'warning', 'pending'].find(state => states.includes(state));
+  return TRANSITION_COLORS[worst] || TRANSITION_COLORS.healthy;
+}
+
+// The request body for a webhook in its format
+export function formatMessage(format, transitions, { title = 'AWS dashboard: resource changes', sentAt = new Date().toISOString() } = {}) {
+  switch (format) {
+    case 'slack':
+      return {
+        text: `*${title}*\n${transitions.map(transition => `• ${describeTransition(transition)}`).join('\n')}`
+      };
+    case 'teams':
+      // Office 365 connector card, accepted by Teams incoming webhooks
+      return {
+        '@type': 'MessageCard',
+        '@context': 'https://schema.org/extensions',
+        summary: title,
+        themeColor: getThemeColor(transitions),
+        title,
+        text: transitions.map(describeTransition).join('\n\n')
+      };
+    default:
+      return { title, sentAt, transitions };
+  }
+}
+
+async function deliver(webhook, transitions, options) {
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...webhook.headers },
+      body: JSON.stringify(formatMessage(webhook.format, transitions, options)),
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+    }
+    return { webhook: webhook.name, delivered: true, statusCode: response.status };
+  } catch (error) {
+    console.error(`Error delivering notification to webhook ${webhook.name}:`, error);
+    return { webhook: webhook.name, delivered: false, error: error.message };
+  }
+}
+
+// Retries start after the configured delay and double with every failure in a row
+function getRetryDelayMs(failures) {
+  const { retryDelaySeconds } = getConfig().notifications;
+  return Math.min(retryDelaySeconds * 1000 * 2 ** (failures - 1), MAX_RETRY_DELAY_MS);
+}
+
+// Send everything pending for a webhook in one message. Transitions back to the
+// state last sent cancel out, so flapping during a quiet period is not reported.
+// Transitions that fail to deliver are queued again and retried with backoff.
+async function flush(webhook) {
+  const state = getWebhookState(webhook.name);
+  state.timer = null;
+
+  const transitions = Array.from(state.pending, ([key, transition]) => ({ key, transition }))
+    .filter(({ key, transition }) => transition.from !== transition.to && state.lastNotified.get(key) !== transition.to);
+  state.pending.clear();
+  if (transitions.length === 0) return;
+
+  // Recorded before delivering so a refresh arriving meanwhile compares against it
+  const previouslyNotified = transitions.map(({ key }) => [key, state.lastNotified.get(key)]);
+  for (const { key, transition } of transitions) {
+    state.lastNotified.set(key, transition.to);
+  }
+  state.lastSentAt = Date.now();
+
+  const result = await deliver(webhook, transitions.map(({ transition }) => transition));
+  if (!result.delivered) {
+    // Undelivered states shouldn't suppress the next message about them
+    for (const [key, notified] of previouslyNotified) {
+      if (notified === undefined) state.lastNotified.delete(key);
+      else state.lastNotified.set(key, notified);
+    }
+    // Changes queued meanwhile are reported from the state that failed to go out
+    for (const { key, transition } of transitions) {
+      const queued = state.pending.get(key);
+      state.pending.set(key, queued ? { ...queued, from: transition.from } : transition);
+    }
+    state.failures++;
+    if (!state.timer) {
+      state.timer = setTimeout(() => flush(webhook), getRetryDelayMs(state.failures));
+    }
+    return;
+  }
+  state.failures = 0;
+}
+
+// Queue transitions for a webhook and send them now, or once its quiet period is over
+function notify(webhook, transitions, quietPeriodSeconds) {
+  const state = getWebhookState(webhook.name);
+
+  for (const transition of transitions) {
+    const key = `${transition.resourceId}|${transition.kind}`;
+    const queued = state.pending.get(key);
+    // A resource changing again before the message goes out is reported from its first state
+    state.pending.set(key, queued ? { ...transition, from: queued.from } : transition);
+  }
+
+  if (state.timer) return;
+
+  const waitMs = state.lastSentAt + quietPeriodSeconds * 1000 - Date.now();
+  if (waitMs <= 0) {
+    flush(webhook);
+  } else {
+    state.timer = setTimeout(() => flush(webhook), waitMs);
+  }
+}
+
+// Send a sample message to one webhook, or every webhook, to check the configuration
+export async function sendTestNotification(webhookName) {
+  const webhooks = getWebhooks().filter(webhook => !webhookName || webhook.name === webhookName);
+  if (webhookName && webhooks.length === 0) {
+    throw new UnknownWebhookError(`No notification webhook is named ${webhookName}`);
+  }
+
+  const sample = {
+    resourceId: 'arn:aws:lambda:us-east-1:123456789012:function:example',
+    name: 'example',
+    type: 'lambda',
+    application: 'example',
+    accountId: '123456789012',
+    region: 'us-east-1',
+    kind: 'health',
+    from: 'healthy',
+    to: 'error',
+    reasons: ['This is a test notification']
+  };
+
+  return Promise.all(webhooks.map(webhook =>
+    deliver(webhook, [sample], { title: 'AWS dashboard: test notification' })
+  ));
+}
+
+// Notify the webhooks routed to each application after every refresh. The
+// first refresh has nothing to compare with.
+inventoryEvents.on('refresh', ({ previousResources, resources }) => {
+  const { notifications } = getConfig();
+  if (!notifications.enabled || previousResources.length === 0) return;
+
+  try {
+    const transitions = findTransitions(previousResources, resources);
+    if (transitions.length === 0) return;
+
+    for (const webhook of getWebhooks()) {
+      const routed = webhook.applications
+        ? transitions.filter(transition => webhook.applications.includes(transition.application))
+        : transitions;
+      if (routed.length > 0) {
+        notify(webhook, routed, webhook.quietPeriodSeconds ?? notifications.quietPeriodSeconds);
+      }
+    }
+  } catch (error) {
+    console.error('Error sending notifications:', error);
+  }
+});
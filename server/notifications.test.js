@@ -0,0 +1,87 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { once } from 'events';
+import { getConfig } from './config.js';
+import { inventoryEvents } from './inventory.js';
+import './notifications.js';
+
+const resource = (status, name) => ({ id: name, name, type: 'ec2', application: 'shop', status });
+
+function refresh(name, from, to) {
+  inventoryEvents.emit('refresh', { previousResources: [resource(from, name)], resources: [resource(to, name)] });
+}
+
+// Webhook receiver answering each request with the next queued status code
+function startReceiver() {
+  const requests = [];
+  const statusCodes = [];
+  let onRequest = null;
+
+  const server = createServer((request, response) => {
+    let body = '';
+    request.on('data', part => { body += part; });
+    request.on('end', async () => {
+      const answer = statusCodes.shift() ?? 200;
+      requests.push(JSON.parse(body));
+      onRequest?.();
+      response.statusCode = typeof answer === 'function' ? await answer() : answer;
+      response.end();
+    });
+  });
+
+  // Resolves once `count` requests have arrived
+  const received = count => new Promise(resolve => {
+    onRequest = () => {
+      if (requests.length >= count) resolve(requests);
+    };
+    onRequest();
+  });
+
+  return { server, requests, statusCodes, received };
+}
+
+// A delivery that is never retried would leave the tests waiting
+describe('webhook notifications', { timeout: 5000 }, () => {
+  let receiver;
+  let url;
+
+  before(async () => {
+    receiver = startReceiver();
+    receiver.server.listen(0, '127.0.0.1');
+    await once(receiver.server, 'listening');
+    url = `http://127.0.0.1:${receiver.server.address().port}/hooks`;
+
+    Object.assign(getConfig().notifications, { enabled: true, retryDelaySeconds: 0.05 });
+  });
+
+  after(() => {
+    receiver.server.closeAllConnections();
+    receiver.server.close();
+  });
+
+  it('retries a failed delivery', async () => {
+    getConfig().notifications.webhooks = [{ name: 'retry', url, quietPeriodSeconds: 0 }];
+    receiver.statusCodes.push(500);
+
+    refresh('web', 'running', 'stopped');
+    const [failed, retried] = (await receiver.received(2)).splice(0);
+
+    assert.deepEqual(retried.transitions, failed.transitions);
+    assert.deepEqual(retried.transitions.map(({ name, from, to }) => ({ name, from, to })), [{ name: 'web', from: 'running', to: 'stopped' }]);
+  });
+
+  it('reports changes made during a failed delivery from the state that failed to go out', async () => {
+    getConfig().notifications.webhooks = [{ name: 'merge', url, quietPeriodSeconds: 0.2 }];
+    let failDelivery;
+    receiver.statusCodes.push(() => new Promise(resolve => { failDelivery = resolve; }));
+
+    refresh('db', 'running', 'stopped');
+    await receiver.received(1);
+    refresh('db', 'stopped', 'pending');
+    failDelivery(503);
+    const [, sent] = (await receiver.received(2)).splice(0);
+
+    assert.deepEqual(sent.transitions.map(({ from, to }) => ({ from, to })), [{ from: 'running', to: 'pending' }]);
+  });
+});
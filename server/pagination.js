@@ -0,0 +1,34 @@
+// Safety net against APIs that keep returning the same token
+const MAX_PAGES = 1000;
+
+// Collect every page of an AWS list call. `buildCommand` receives the
+// pagination parameter for the next page ({ [inputToken]: token }) and the
+// response token is read from `outputToken`, e.g.
+//   paginate(ecsClient, page => new ListServicesCommand({ cluster, ...page }), {
+//     inputToken: 'nextToken', outputToken: 'nextToken', itemsKey: 'serviceArns'
+//   })
+export async function paginate(client, buildCommand, { inputToken, outputToken, itemsKey }) {
+  const items = [];
+  const seenTokens = new Set();
+  let token;
+  
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const response = await client.send(buildCommand(token ? { [inputToken]: token } : {}));
+    items.push(...(response[itemsKey] || []));
+    
+    token = response[outputToken];
+    if (!token || seenTokens.has(token)) break;
+    seenTokens.add(token);
+  }
+  
+  return items;
+}
+
+// Split a list into chunks for describe calls that cap their input size
+export function chunk(items, size) {
+  const chunks = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { paginate, chunk } from './pagination.js';
+
+describe('paginate', () => {
+  it('collects every page until no token is returned', async () => {
+    const pages = { undefined: { items: [1, 2], next: 'b' }, b: { items: [3], next: 'c' }, c: { items: [4] } };
+    const client = { send: async command => pages[command.token] };
+
+    const items = await paginate(client, page => ({ token: page.token }), { inputToken: 'token', outputToken: 'next', itemsKey: 'items' });
+
+    assert.deepEqual(items, [1, 2, 3, 4]);
+  });
+
+  it('stops when an API keeps returning the same token', async () => {
+    let calls = 0;
+    const client = { send: async () => ({ items: [++calls], next: 'same' }) };
+
+    const items = await paginate(client, page => page, { inputToken: 'token', outputToken: 'next', itemsKey: 'items' });
+
+    assert.deepEqual(items, [1, 2]);
+  });
+});
+
+describe('chunk', () => {
+  it('splits a list into chunks of at most the given size', () => {
+    assert.deepEqual(chunk([1, 2, 3, 4, 5], 2), [[1, 2], [3, 4], [5]]);
+    assert.deepEqual(chunk([], 10), []);
+  });
+});
@@ -0,0 +1,29 @@
+import { DASHBOARD_REQUEST_HEADER } from '../shared/apiContract.js';
+import { getConfig } from './config.js';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// The dashboard's own origin, and the origins configured in `api.allowedOrigins`
+export function isAllowedOrigin(origin, host, allowedOrigins) {
+  if (allowedOrigins.includes(origin)) return true;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+// Requests that change something, such as running an action, must come from
+// the dashboard: they carry the dashboard header, and an allowed origin when
+// the browser names one. Other web pages the operator visits can't send either.
+export function requireDashboardRequest(req, res, next) {
+  if (SAFE_METHODS.includes(req.method)) return next();
+
+  const origin = req.get('origin');
+  const fromDashboard = Boolean(req.get(DASHBOARD_REQUEST_HEADER))
+    && (!origin || isAllowedOrigin(origin, req.get('host'), getConfig().api.allowedOrigins));
+  if (!fromDashboard) {
+    return res.status(403).json({ error: 'Only the dashboard may make requests that change something' });
+  }
+  next();
+}
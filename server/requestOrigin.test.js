@@ -0,0 +1,51 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { getConfig } from './config.js';
+import { isAllowedOrigin, requireDashboardRequest } from './requestOrigin.js';
+
+function request(method, headers = {}) {
+  const lowerCased = Object.fromEntries(Object.entries({ host: 'dashboard.internal:5173', ...headers }).map(([name, value]) => [name.toLowerCase(), value]));
+  return { method, get: name => lowerCased[name.toLowerCase()] };
+}
+
+// Runs the middleware, returning 'next' or the refused status code
+function guard(req) {
+  let outcome;
+  const res = {
+    status: code => {
+      outcome = code;
+      return { json: () => {} };
+    }
+  };
+  requireDashboardRequest(req, res, () => { outcome = 'next'; });
+  return outcome;
+}
+
+describe('requireDashboardRequest', () => {
+  before(() => {
+    getConfig().api.allowedOrigins = ['http://localhost:5174'];
+  });
+
+  it('lets reads through', () => {
+    assert.equal(guard(request('GET', { origin: 'https://evil.example' })), 'next');
+  });
+
+  it('accepts changes from the dashboard and the allowed origins', () => {
+    assert.equal(guard(request('POST', { 'X-Dashboard-Request': '1', origin: 'http://dashboard.internal:5173' })), 'next');
+    assert.equal(guard(request('POST', { 'X-Dashboard-Request': '1', origin: 'http://localhost:5174' })), 'next');
+    assert.equal(guard(request('POST', { 'X-Dashboard-Request': '1' })), 'next');
+  });
+
+  it('refuses changes without the dashboard header or from other origins', () => {
+    assert.equal(guard(request('POST', { origin: 'http://dashboard.internal:5173' })), 403);
+    assert.equal(guard(request('POST', { 'X-Dashboard-Request': '1', origin: 'https://evil.example' })), 403);
+    assert.equal(guard(request('POST', { 'X-Dashboard-Request': '1', origin: 'null' })), 403);
+  });
+});
+
+describe('isAllowedOrigin', () => {
+  it('matches the origin host against the request host', () => {
+    assert.equal(isAllowedOrigin('https://dashboard.internal', 'dashboard.internal', []), true);
+    assert.equal(isAllowedOrigin('https://dashboard.internal.evil.example', 'dashboard.internal', []), false);
+  });
+});
@@ -1,33 +1,10 @@
-import { 
-  ECSClient, 
-  DescribeServicesCommand,
-  DescribeTaskDefinitionCommand
-} from "@aws-sdk/client-ecs";
-import { 
-  LambdaClient, 
-  GetPolicyCommand,
-  GetFunctionCommand
-} from "@aws-sdk/client-lambda";
 import { 
   EC2Client,
-  DescribeSecurityGroupsCommand,
-  DescribeNetworkInterfacesCommand
+  DescribeSecurityGroupsCommand
 } from "@aws-sdk/client-ec2";
-import {
-  APIGatewayClient,
-  GetResourcesCommand,
-  GetMethodCommand
-} from "@aws-sdk/client-api-gateway";
-import {
-  EventBridgeClient,
-  ListTargetsByRuleCommand
-} from "@aws-sdk/client-eventbridge";
-import {
-  ElasticLoadBalancingV2Client,
-  DescribeTargetGroupsCommand,
-  DescribeTargetHealthCommand
-} from "@aws-sdk/client-elastic-load-balancing-v2";
-import { fromEnv } from "@aws-sdk/credential-providers";
+import { getClient } from './clients.js';
+import { getCollectors, getCollectorForType } from './collectors/registry.js';
+import { getCustomRelationships } from './customResources.js';
 
 // Define relationship types
 export const RelationshipType = {
@@ -39,20 +16,6 @@ export const RelationshipType = {
   INSTANCE_OF: 'instance_of'
 };
 
-// Initialize clients with credentials
-const getClient = (ClientClass, region) => {
-  try {
-    const config = {
-      region,
-      credentials: fromEnv()
-    };
-    return new ClientClass(config);
-  } catch (error) {
-    console.error(`Error initializing AWS client for region ${region}:`, error);
-    throw error;
-  }
-};
-
 // Discover relationships between resources
 export async function discoverResourceRelationships(allResources, focusResources = null) {
   const relationships = [];
@@ -60,505 +23,64 @@ export async function discoverResourceRelationships(allResources, focusResources
   
   console.log(`Starting relationship discovery for ${resourcesOfInterest.length} resources`);
   
-  // Process each resource type to find relationships
+  // Let the collector that owns each resource type find its relationships
   for (const resource of resourcesOfInterest) {
     try {
+      // Declared resources have no AWS APIs to ask, their relationships come from the file
+      if (resource.source === 'custom') continue;
+      
       console.log(`Processing resource: ${resource.name} (${resource.type})`);
-      switch (resource.type) {
-        case 'alb':
-        case 'nlb':
-          // Find load balancer target relationships
-          const lbTargets = await getLoadBalancerTargets(resource);
-          for (const target of lbTargets) {
-            const targetResource = allResources.find(r => 
-              (r.type === 'ec2' && r.id === target.targetId) ||
-              (r.type === 'ecs' && r.details?.clusterName === target.clusterName)
-            );
-            
-            if (targetResource) {
-              relationships.push({
-                sourceId: resource.id,
-                targetId: targetResource.id,
-                type: RelationshipType.ROUTES_TO,
-                metadata: {
-                  protocol: target.protocol,
-                  port: target.port
-                }
-              });
-            }
-          }
-          break;
-          
-        case 'lambda':
-          // Find Lambda triggers (API Gateway, EventBridge, etc.)
-          const lambdaTriggers = await getLambdaTriggers(resource);
-          for (const trigger of lambdaTriggers) {
-            const triggerResource = allResources.find(r => r.id === trigger.sourceArn);
-            if (triggerResource) {
-              relationships.push({
-                sourceId: triggerResource.id,
-                targetId: resource.id,
-                type: RelationshipType.TRIGGERS,
-                metadata: {
-                  eventType: trigger.eventType
-                }
-              });
-            }
-          }
-          
-          // Find Lambda dependencies (DynamoDB, S3, etc.)
-          const lambdaDependencies = await getLambdaDependencies(resource);
-          for (const dependency of lambdaDependencies) {
-            const dependencyResource = allResources.find(r => r.id === dependency.targetArn);
-            if (dependencyResource) {
-              relationships.push({
-                sourceId: resource.id,
-                targetId: dependencyResource.id,
-                type: RelationshipType.DEPENDS_ON,
-                metadata: {
-                  accessType: dependency.accessType
-                }
-              });
-            }
-          }
-          break;
-          
-        case 'apigateway':
-          // Find API Gateway integrations (Lambda, etc.)
-          const apiIntegrations = await getApiGatewayIntegrations(resource);
-          for (const integration of apiIntegrations) {
-            const targetResource = allResources.find(r => 
-              r.type === 'lambda' && integration.uri.includes(r.id)
-            );
-            
-            if (targetResource) {
-              relationships.push({
-                sourceId: resource.id,
-                targetId: targetResource.id,
-                type: RelationshipType.TRIGGERS,
-                metadata: {
-                  method: integration.method,
-                  path: integration.path
-                }
-              });
-            }
-          }
-          break;
-          
-        case 'eventbridge':
-          // Find EventBridge targets
-          const eventTargets = await getEventBridgeTargets(resource);
-          for (const target of eventTargets) {
-            const targetResource = allResources.find(r => 
-              target.arn.includes(r.id)
-            );
-            
-            if (targetResource) {
-              relationships.push({
-                sourceId: resource.id,
-                targetId: targetResource.id,
-                type: RelationshipType.TRIGGERS,
-                metadata: {
-                  targetId: target.id
-                }
-              });
-            }
-          }
-          break;
-          
-        case 'ec2':
-          // Find EC2 security group relationships
-          const securityGroupConnections = await getSecurityGroupConnections(resource, allResources);
-          for (const connection of securityGroupConnections) {
-            relationships.push({
-              sourceId: resource.id,
-              targetId: connection.targetId,
-              type: RelationshipType.CONNECTS_TO,
-              metadata: {
-                protocol: connection.protocol,
-                port: connection.port
-              }
-            });
-          }
-          break;
-          
-        case 'aurora':
-          console.log(`Processing aurora cluster: ${resource.name} (${resource.id})`);
-          
-          // Extract the cluster name from the ARN
-          const clusterName = resource.id.split(':').pop();
-          console.log(`Cluster name extracted: ${clusterName}`);
-          
-          // Add instance_of relationships for any instances of this cluster
-          const clusterInstances = allResources.filter(r => 
-            r.type === 'aurora-instance' && 
-            (r.clusterId === resource.id || r.clusterId === clusterName)
-          );
-          
-          console.log(`Found ${clusterInstances.length} instances for cluster ${resource.name}`);
-          
-          for (const instance of clusterInstances) {
-            console.log(`Adding instance_of relationship: ${instance.name} -> ${resource.name}`);
-            relationships.push({
-              sourceId: instance.id,
-              targetId: resource.id,
-              type: RelationshipType.INSTANCE_OF
-            });
-          }
-          
-          // Also check for any instances that might have this cluster's name as clusterId
-          const nameBasedInstances = allResources.filter(r => 
-            r.type === 'aurora-instance' && 
-            r.clusterId === resource.name
-          );
-          
-          if (nameBasedInstances.length > 0) {
-            console.log(`Found ${nameBasedInstances.length} instances with cluster name match`);
-            
-            for (const instance of nameBasedInstances) {
-              if (!clusterInstances.some(ci => ci.id === instance.id)) {
-                console.log(`Adding name-based instance_of relationship: ${instance.name} -> ${resource.name}`);
-                relationships.push({
-                  sourceId: instance.id,
-                  targetId: resource.id,
-                  type: RelationshipType.INSTANCE_OF
-                });
-              }
-            }
-          }
-          
-          // Check if the Aurora cluster has security groups in its details or tags
-          let auroraClusterSecurityGroups = [];
-          
-          if (resource.securityGroups) {
-            auroraClusterSecurityGroups = resource.securityGroups;
-            console.log(`Found security groups in resource: ${auroraClusterSecurityGroups}`);
-          } else if (resource.tags && resource.tags.SecurityGroups) {
-            auroraClusterSecurityGroups = resource.tags.SecurityGroups.split(',');
-            console.log(`Found security groups in tags: ${auroraClusterSecurityGroups}`);
-          }
-          
-          // If we have security groups, look for connections
-          if (auroraClusterSecurityGroups.length > 0) {
-            console.log(`Aurora cluster has security groups: ${auroraClusterSecurityGroups}`);
-            
-            // Temporarily add securityGroups property to the resource for getSecurityGroupConnections
-            const resourceWithSG = { ...resource, securityGroups: auroraClusterSecurityGroups };
-            const auroraClusterConnections = await getSecurityGroupConnections(resourceWithSG, allResources);
-            
-            console.log(`Found ${auroraClusterConnections.length} security group connections for Aurora cluster: ${resource.name}`);
-            
-            for (const connection of auroraClusterConnections) {
-              console.log(`Adding connection: ${connection.sourceId} -> ${connection.targetId} (${connection.type})`);
-              relationships.push(connection);
-            }
-          } else {
-            console.log(`No security groups found for Aurora cluster: ${resource.name}`);
-            
-            // If the cluster doesn't have security groups directly, check if any of its instances have them
-            // and use those for connections
-            const instancesWithSecurityGroups = clusterInstances.filter(instance => 
-              instance.securityGroups && instance.securityGroups.length > 0
-            );
-            
-            if (instancesWithSecurityGroups.length > 0) {
-              console.log(`Found ${instancesWithSecurityGroups.length} instances with security groups`);
-              
-              // For each instance with security groups, find connections and associate them with the cluster
-              for (const instance of instancesWithSecurityGroups) {
-                console.log(`Checking security groups from instance: ${instance.name}`);
-                
-                const instanceConnections = await getSecurityGroupConnections(instance, allResources);
-                
-                // Replace the instance ID with the cluster ID in the connections
-                for (const connection of instanceConnections) {
-                  const modifiedConnection = { ...connection };
-                  
-                  if (connection.sourceId === instance.id) {
-                    modifiedConnection.sourceId = resource.id;
-                  }
-                  
-                  if (connection.targetId === instance.id) {
-                    modifiedConnection.targetId = resource.id;
-                  }
-                  
-                  console.log(`Adding cluster-level connection: ${modifiedConnection.sourceId} -> ${modifiedConnection.targetId} (${modifiedConnection.type})`);
-                  relationships.push(modifiedConnection);
-                }
-              }
-            }
-          }
-          break;
-          
-        case 'aurora-instance':
-          console.log(`Processing aurora-instance: ${resource.name}`);
-          
-          // Add instance_of relationship to parent cluster
-          if (resource.clusterId) {
-            // Try to find the parent cluster by matching the cluster name in the ARN
-            // or by exact match of the clusterId
-            const parentCluster = allResources.find(r => 
-              r.type === 'aurora' && 
-              (r.id === resource.clusterId || r.id.endsWith(`:cluster:${resource.clusterId}`))
-            );
-            
-            if (parentCluster) {
-              console.log(`Found parent cluster: ${parentCluster.name} (${parentCluster.id})`);
-              relationships.push({
-                sourceId: resource.id,
-                targetId: parentCluster.id,
-                type: RelationshipType.INSTANCE_OF
-              });
-            } else {
-              console.log(`Parent cluster not found for clusterId: ${resource.clusterId}`);
-              console.log(`Available aurora clusters:`, allResources.filter(r => r.type === 'aurora').map(r => ({ id: r.id, name: r.name })));
-            }
-          } else {
-            console.log(`No clusterId found for aurora-instance: ${resource.name}`);
-          }
-          
-          // Find security group relationships
-          console.log(`Finding security group connections for aurora-instance: ${resource.name}`);
-          console.log(`Security groups:`, resource.securityGroups || 'none');
-          
-          const auroraConnections = await getSecurityGroupConnections(resource, allResources);
-          console.log(`Found ${auroraConnections.length} security group connections for aurora-instance: ${resource.name}`);
-          
-          for (const connection of auroraConnections) {
-            console.log(`Adding connection: ${connection.sourceId} -> ${connection.targetId} (${connection.type})`);
-            relationships.push(connection);
-          }
-          break;
-          
-        case 'ecs':
-          console.log(`Processing ECS service: ${resource.name} (${resource.id})`);
-          
-          // Check if the ECS service has security groups in its details or tags
-          let ecsSecurityGroups = [];
-          
-          if (resource.details && resource.details.networkConfiguration && 
-              resource.details.networkConfiguration.awsvpcConfiguration && 
-              resource.details.networkConfiguration.awsvpcConfiguration.securityGroups) {
-            ecsSecurityGroups = resource.details.networkConfiguration.awsvpcConfiguration.securityGroups;
-            console.log(`Found security groups in network configuration: ${ecsSecurityGroups}`);
-          } else if (resource.tags && resource.tags.SecurityGroups) {
-            ecsSecurityGroups = resource.tags.SecurityGroups.split(',');
-            console.log(`Found security groups in tags: ${ecsSecurityGroups}`);
-          }
-          
-          // If we have security groups, look for connections
-          if (ecsSecurityGroups.length > 0) {
-            console.log(`ECS service has security groups: ${ecsSecurityGroups}`);
-            
-            // Temporarily add securityGroups property to the resource for getSecurityGroupConnections
-            const resourceWithSG = { ...resource, securityGroups: ecsSecurityGroups };
-            const ecsConnections = await getSecurityGroupConnections(resourceWithSG, allResources);
-            
-            console.log(`Found ${ecsConnections.length} security group connections for ECS service: ${resource.name}`);
-            
-            for (const connection of ecsConnections) {
-              console.log(`Adding connection: ${connection.sourceId} -> ${connection.targetId} (${connection.type})`);
-              relationships.push(connection);
-            }
-          } else {
-            console.log(`No security groups found for ECS service: ${resource.name}`);
-          }
-          
-          // ECS services might also be part of a cluster or behind a load balancer
-          // These are typically discovered from the LB side
-          break;
-          
-        case 'stepfunctions':
-          // Step Functions might invoke Lambda functions
-          const stepFunctionTargets = await getStepFunctionTargets(resource);
-          for (const target of stepFunctionTargets) {
-            const targetResource = allResources.find(r => 
-              target.arn.includes(r.id)
-            );
-            
-            if (targetResource) {
-              relationships.push({
-                sourceId: resource.id,
-                targetId: targetResource.id,
-                type: RelationshipType.TRIGGERS,
-                metadata: {
-                  stateType: target.stateType
-                }
-              });
-            }
-          }
-          break;
+      const collector = getCollectorForType(resource.type);
+      
+      if (collector?.discoverRelationships) {
+        const discovered = await collector.discoverRelationships(resource, allResources);
+        relationships.push(...discovered);
       }
     } catch (error) {
       console.error(`Error discovering relationships for ${resource.type} ${resource.id}:`, error);
     }
   }
   
-  // Deduplicate relationships
+  // Add relationships declared in the custom resources file
+  relationships.push(...getCustomRelationships(resourcesOfInterest));
+  
+  // Deduplicate relationships, keeping what each discovery learned about the edge
+  // (e.g. an environment variable and an IAM policy pointing at the same table)
   const uniqueRelationships = [];
   const relationshipMap = new Map();
   
   for (const rel of relationships) {
     const key = `${rel.sourceId}|${rel.targetId}|${rel.type}`;
-    if (!relationshipMap.has(key)) {
-      relationshipMap.set(key, rel);
-      uniqueRelationships.push(rel);
+    const existing = relationshipMap.get(key);
+    if (!existing) {
+      const unique = { ...rel };
+      relationshipMap.set(key, unique);
+      uniqueRelationships.push(unique);
+    } else if (rel.metadata) {
+      existing.metadata = { ...rel.metadata, ...existing.metadata };
     }
   }
   
   return uniqueRelationships;
 }
 
-// Helper functions to discover specific relationships
-async function getLoadBalancerTargets(loadBalancer) {
-  try {
-    const elbClient = getClient(ElasticLoadBalancingV2Client, loadBalancer.region);
-    
-    const targetGroupsResponse = await elbClient.send(new DescribeTargetGroupsCommand({
-      LoadBalancerArn: loadBalancer.id
-    }));
-    
-    const targets = [];
-    
-    for (const targetGroup of targetGroupsResponse.TargetGroups) {
-      const targetHealthResponse = await elbClient.send(new DescribeTargetHealthCommand({
-        TargetGroupArn: targetGroup.TargetGroupArn
-      }));
-      
-      for (const target of targetHealthResponse.TargetHealthDescriptions) {
-        targets.push({
-          targetId: target.Target.Id,
-          port: target.Target.Port,
-          protocol: targetGroup.Protocol,
-          clusterName: target.Target.AvailabilityZone // This might contain ECS cluster info in some cases
-        });
-      }
-    }
-    
-    return targets;
-  } catch (error) {
-    console.error(`Error getting load balancer targets for ${loadBalancer.id}:`, error);
-    return [];
-  }
-}
-
-async function getLambdaTriggers(lambda) {
-  try {
-    const lambdaClient = getClient(LambdaClient, lambda.region);
-    
-    const policyResponse = await lambdaClient.send(new GetPolicyCommand({
-      FunctionName: lambda.name
-    }));
-    
-    const policy = JSON.parse(policyResponse.Policy);
-    const triggers = [];
-    
-    for (const statement of policy.Statement) {
-      if (statement.Principal && statement.Principal.Service) {
-        const service = statement.Principal.Service;
-        const sourceArn = statement.Condition?.ArnLike?.['AWS:SourceArn'] || 
-                         statement.Condition?.ArnEquals?.['AWS:SourceArn'];
-        
-        if (sourceArn) {
-          triggers.push({
-            sourceArn,
-            eventType: service
-          });
-        }
-      }
-    }
-    
-    return triggers;
-  } catch (error) {
-    // Policy might not exist if there are no triggers
-    if (error.name !== 'ResourceNotFoundException') {
-      console.error(`Error getting Lambda triggers for ${lambda.id}:`, error);
-    }
-    return [];
-  }
-}
-
-async function getLambdaDependencies(lambda) {
-  try {
-    const lambdaClient = getClient(LambdaClient, lambda.region);
-    
-    const functionResponse = await lambdaClient.send(new GetFunctionCommand({
-      FunctionName: lambda.name
-    }));
-    
-    const dependencies = [];
-    const envVars = functionResponse.Configuration.Environment?.Variables || {};
-    
-    // Look for ARNs in environment variables
-    for (const [key, value] of Object.entries(envVars)) {
-      if (typeof value === 'string' && value.includes('arn:aws')) {
-        dependencies.push({
-          targetArn: value,
-          accessType: 'environment'
-        });
-      }
-    }
-    
-    // We could also check IAM role policies for more dependencies
-    
-    return dependencies;
-  } catch (error) {
-    console.error(`Error getting Lambda dependencies for ${lambda.id}:`, error);
-    return [];
-  }
-}
+// Find the resource a configuration value such as an environment variable refers to.
+// ARNs match directly; collectors with a resolveReference hook recognise other
+// forms, e.g. bare S3 bucket names.
+export function findReferencedResource(value, allResources, fromResource) {
+  if (typeof value !== 'string' || !value) return undefined;
 
-async function getApiGatewayIntegrations(apiGateway) {
-  try {
-    const apiClient = getClient(APIGatewayClient, apiGateway.region);
-    
-    const resourcesResponse = await apiClient.send(new GetResourcesCommand({
-      restApiId: apiGateway.id.split('/').pop()
-    }));
-    
-    const integrations = [];
-    
-    for (const resource of resourcesResponse.items) {
-      for (const [method, methodResource] of Object.entries(resource.resourceMethods || {})) {
-        if (methodResource.methodIntegration && methodResource.methodIntegration.uri) {
-          integrations.push({
-            uri: methodResource.methodIntegration.uri,
-            method,
-            path: resource.path
-          });
-        }
-      }
-    }
-    
-    return integrations;
-  } catch (error) {
-    console.error(`Error getting API Gateway integrations for ${apiGateway.id}:`, error);
-    return [];
-  }
-}
+  const byArn = allResources.find(r => r.id === value);
+  if (byArn) return byArn;
 
-async function getEventBridgeTargets(eventBridge) {
-  try {
-    const eventBridgeClient = getClient(EventBridgeClient, eventBridge.region);
-    
-    // Extract rule name from the resource
-    const ruleName = eventBridge.name;
-    
-    const targetsResponse = await eventBridgeClient.send(new ListTargetsByRuleCommand({
-      Rule: ruleName
-    }));
-    
-    return targetsResponse.Targets.map(target => ({
-      id: target.Id,
-      arn: target.Arn
-    }));
-  } catch (error) {
-    console.error(`Error getting EventBridge targets for ${eventBridge.id}:`, error);
-    return [];
+  for (const collector of getCollectors()) {
+    const resource = collector.resolveReference?.(value, allResources, fromResource);
+    if (resource) return resource;
   }
+  return undefined;
 }
 
-async function getSecurityGroupConnections(resource, allResources) {
+export async function getSecurityGroupConnections(resource, allResources) {
   try {
     // Get security groups based on resource type
     let securityGroupIds = [];
@@ -584,56 +106,8 @@ async function getSecurityGroupConnections(resource, allResources) {
       return [];
     }
     
-    // Special case for mock security group IDs
-    const mockSecurityGroupIds = ['sg-0123456789abcdef0'];
-    const hasMockSecurityGroups = securityGroupIds.some(id => mockSecurityGroupIds.includes(id));
-    
-    if (hasMockSecurityGroups) {
-      console.log(`Resource ${resource.name} has mock security groups, using mock data`);
-      
-      // Special case for database-2-instance-1 and service-test-2
-      if (resource.name === 'database-2-instance-1' && resource.application === 'test-app2') {
-        // This is handled in processSecurityGroupRule
-        return [];
-      }
-      
-      if (resource.name === 'service-test-2' && resource.application === 'test-app2') {
-        // Find the database instance
-        const dbInstance = allResources.find(r => 
-          r.type === 'aurora-instance' && 
-          r.name === 'database-2-instance-1'
-        );
-        
-        if (dbInstance) {
-          console.log(`Found database instance: ${dbInstance.name} (${dbInstance.id})`);
-          
-          // Create a mock connection from the ECS service to the database
-          return [{
-            sourceId: resource.id,
-            targetId: dbInstance.id,
-            type: RelationshipType.CONNECTS_TO,
-            metadata: {
-              securityGroups: {
-                source: ['sg-0123456789abcdef0'],
-                target: dbInstance.securityGroups || [],
-                rules: [{
-                  protocol: 'tcp',
-                  fromPort: 3306,
-                  toPort: 3306,
-                  securityGroupId: 'sg-0123456789abcdef0',
-                  direction: 'outbound'
-                }]
-              }
-            }
-          }];
-        }
-      }
-      
-      return [];
-    }
-    
-    // For real security groups, use the AWS API
-    const ec2Client = getClient(EC2Client, resource.region);
+    // Look up the security group rules
+    const ec2Client = getClient(EC2Client, resource.region, resource.accountId);
     const securityGroupsResponse = await ec2Client.send(new DescribeSecurityGroupsCommand({
       GroupIds: securityGroupIds
     }));
@@ -669,44 +143,6 @@ async function processSecurityGroupRule(rule, sourceResource, allResources, sour
   console.log(`Rule: ${JSON.stringify(rule)}`);
   console.log(`Direction: ${direction}, Source Group ID: ${sourceGroupId}`);
   
-  // Special case for database-2-instance-1 to add a mock security group rule
-  if (sourceResource.name === 'database-2-instance-1' && sourceResource.application === 'test-app2') {
-    console.log(`Adding mock security group rule for database-2-instance-1`);
-    
-    // Find the ECS service in test-app2
-    const ecsService = allResources.find(r => 
-      r.type === 'ecs' && 
-      r.application === 'test-app2' && 
-      r.name === 'service-test-2'
-    );
-    
-    if (ecsService) {
-      console.log(`Found ECS service: ${ecsService.name} (${ecsService.id})`);
-      
-      // Create a mock connection from the ECS service to the database
-      connections.push({
-        sourceId: ecsService.id,
-        targetId: sourceResource.id,
-        type: RelationshipType.CONNECTS_TO,
-        metadata: {
-          securityGroups: {
-            source: ['sg-0123456789abcdef0'],
-            target: [sourceGroupId],
-            rules: [{
-              protocol: 'tcp',
-              fromPort: 3306,
-              toPort: 3306,
-              securityGroupId: sourceGroupId,
-              direction: 'inbound'
-            }]
-          }
-        }
-      });
-      
-      console.log(`Added mock connection: ${ecsService.id} -> ${sourceResource.id} (${RelationshipType.CONNECTS_TO})`);
-    }
-  }
-  
   // Look for rules that reference other security groups
   for (const sgRef of rule.UserIdGroupPairs || []) {
     console.log(`Found security group reference: ${sgRef.GroupId}`);
@@ -768,9 +204,3 @@ async function processSecurityGroupRule(rule, sourceResource, allResources, sour
   
   return connections;
 }
-
-async function getStepFunctionTargets(stepFunction) {
-  // This would require parsing the state machine definition
-  // For simplicity, we'll return an empty array for now
-  return [];
-}
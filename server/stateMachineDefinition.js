@@ -0,0 +1,111 @@
+// Amazon States Language parsing. A definition is flattened into a list of
+// states: ASL state names are unique across the whole state machine, so states
+// nested in Parallel branches and Map iterators keep their names and point back
+// at the state containing them.
+
+// Service integrations: arn:aws:states:::<service>:<action>[.sync|.waitForTaskToken][:2]
+// and AWS SDK integrations: arn:aws:states:::aws-sdk:<service>:<action>[...]
+const INTEGRATION_RESOURCE_PATTERN =
+  /^arn:aws[\w-]*:states:::(?:aws-sdk:)?([\w-]+):(\w+)(?:\.(sync|waitForTaskToken))?(?::\d+)?$/;
+
+// Lambda functions can also be used directly as a Task's Resource
+const FUNCTION_RESOURCE_PATTERN = /^arn:aws[\w-]*:lambda:[\w-]+:\d+:function:[^:]+(:[^:]+)?$/;
+
+// The parameter naming the resource an integration acts on
+const TARGET_PARAMETERS = {
+  lambda: 'FunctionName',
+  ecs: 'TaskDefinition',
+  sns: 'TopicArn',
+  sqs: 'QueueUrl',
+  dynamodb: 'TableName',
+  states: 'StateMachineArn'
+};
+
+// Parameters resolved at runtime (`Key.$` paths and JSONata `{% %}` expressions)
+// don't name a resource we can link to
+function getStaticParameter(parameters, key) {
+  const value = parameters?.[key];
+  if (typeof value !== 'string' || value.startsWith('{%')) return undefined;
+  return value;
+}
+
+function toInvocationPattern(suffix) {
+  if (suffix === 'sync') return 'sync';
+  if (suffix === 'waitForTaskToken') return 'waitForTaskToken';
+  return 'requestResponse';
+}
+
+// What a Task state calls, or undefined for activities and unknown resources
+function parseTaskIntegration(state) {
+  const resource = state.Resource;
+  if (typeof resource !== 'string') return undefined;
+
+  if (FUNCTION_RESOURCE_PATTERN.test(resource)) {
+    return {
+      service: 'lambda',
+      action: 'invoke',
+      invocationPattern: 'requestResponse',
+      target: resource
+    };
+  }
+
+  const match = resource.match(INTEGRATION_RESOURCE_PATTERN);
+  if (!match) return undefined;
+
+  const [, service, action, suffix] = match;
+  // JSONata states pass their inputs as Arguments instead of Parameters
+  const parameters = state.Parameters || state.Arguments;
+  const targetParameter = TARGET_PARAMETERS[service];
+
+  return {
+    service,
+    action,
+    invocationPattern: toInvocationPattern(suffix),
+    target: targetParameter ? getStaticParameter(parameters, targetParameter) : undefined,
+    cluster: service === 'ecs' ? getStaticParameter(parameters, 'Cluster') : undefined
+  };
+}
+
+// States a state can move to next, besides error handling
+function getTransitions(state) {
+  const transitions = [];
+  if (state.Next) transitions.push(state.Next);
+  for (const choice of state.Choices || []) {
+    if (choice.Next) transitions.push(choice.Next);
+  }
+  if (state.Default) transitions.push(state.Default);
+  return Array.from(new Set(transitions));
+}
+
+function parseStates(states, parent, branch, parsed) {
+  for (const [name, state] of Object.entries(states || {})) {
+    const nested = state.Type === 'Parallel'
+      ? state.Branches || []
+      // ItemProcessor replaced Iterator for Map states
+      : state.Type === 'Map' ? [state.ItemProcessor || state.Iterator].filter(Boolean) : [];
+
+    parsed.push({
+      name,
+      type: state.Type,
+      next: getTransitions(state),
+      catch: Array.from(new Set((state.Catch || []).map(catcher => catcher.Next).filter(Boolean))),
+      end: state.End === true || state.Type === 'Succeed' || state.Type === 'Fail',
+      parent,
+      branch,
+      branches: nested.length > 0 ? nested.map(definition => definition.StartAt) : undefined,
+      integration: state.Type === 'Task' ? parseTaskIntegration(state) : undefined
+    });
+
+    nested.forEach((definition, index) => parseStates(definition.States, name, index, parsed));
+  }
+  return parsed;
+}
+
+// Parse a state machine definition (the JSON string DescribeStateMachine returns)
+export function parseStateMachineDefinition(definition) {
+  const { StartAt, States } = JSON.parse(definition);
+  return {
+    startAt: StartAt,
+    states: parseStates(States, undefined, undefined, [])
+  };
+}
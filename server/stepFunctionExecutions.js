@@ -0,0 +1,185 @@
+import {
+  SFNClient,
+  ListExecutionsCommand,
+  DescribeExecutionCommand,
+  GetExecutionHistoryCommand
+} from "@aws-sdk/client-sfn";
+import { getClient } from './clients.js';
+
+export const EXECUTION_STATUSES = ['RUNNING', 'SUCCEEDED', 'FAILED', 'TIMED_OUT', 'ABORTED', 'PENDING_REDRIVE'];
+
+export const DEFAULT_EXECUTION_LIMIT = 50;
+export const MAX_EXECUTION_LIMIT = 1000;
+
+// Long-running workflows can record up to 25,000 events, the most recent ones
+// are where failures are
+const MAX_HISTORY_EVENTS = 1000;
+const HISTORY_PAGE_SIZE = 500;
+
+// Events that end an execution without success
+const EXECUTION_FAILURE_EVENTS = ['ExecutionFailed', 'ExecutionTimedOut', 'ExecutionAborted'];
+
+// Executions are named after their state machine:
+// arn:aws:states:<region>:<account>:stateMachine:<name>
+// arn:aws:states:<region>:<account>:execution:<name>:<execution>
+// Express workflows use `express` instead of `execution`.
+export function isExecutionOf(stateMachine, executionArn) {
+  const [prefix, name] = stateMachine.id.split(':stateMachine:');
+  if (!name || typeof executionArn !== 'string') return false;
+  return executionArn.startsWith(`${prefix}:execution:${name}:`)
+    || executionArn.startsWith(`${prefix}:express:${name}:`);
+}
+
+function toExecution(execution) {
+  return {
+    executionArn: execution.executionArn,
+    name: execution.name,
+    status: execution.status,
+    startDate: execution.startDate?.toISOString(),
+    stopDate: execution.stopDate?.toISOString(),
+    redriveCount: execution.redriveCount,
+    redriveDate: execution.redriveDate?.toISOString()
+  };
+}
+
+// Executions of a state machine, most recent first. ListExecutions can only
+// filter by status, so the time range is applied while paging, relying on
+// Step Functions returning the most recent executions first.
+export async function listExecutions(stateMachine, { status, from, to, limit = DEFAULT_EXECUTION_LIMIT } = {}) {
+  const sfnClient = getClient(SFNClient, stateMachine.region, stateMachine.accountId);
+  const executions = [];
+  const seenTokens = new Set();
+  let nextToken;
+
+  do {
+    const response = await sfnClient.send(new ListExecutionsCommand({
+      stateMachineArn: stateMachine.id,
+      statusFilter: status,
+      maxResults: Math.min(limit, MAX_EXECUTION_LIMIT),
+      nextToken
+    }));
+
+    for (const execution of response.executions || []) {
+      if (to && execution.startDate > to) continue;
+      if (from && execution.startDate < from) {
+        return { resourceId: stateMachine.id, executions, truncated: false };
+      }
+      executions.push(toExecution(execution));
+      if (executions.length === limit) {
+        return { resourceId: stateMachine.id, executions, truncated: true };
+      }
+    }
+
+    nextToken = response.nextToken;
+    if (seenTokens.has(nextToken)) break;
+    seenTokens.add(nextToken);
+  } while (nextToken);
+
+  return { resourceId: stateMachine.id, executions, truncated: false };
+}
+
+// The detail object of a history event, e.g. `taskFailedEventDetails` for TaskFailed
+function getEventDetails(event) {
+  const key = Object.keys(event).find(k => k.endsWith('EventDetails') && event[k]);
+  return key ? event[key] : {};
+}
+
+// Flatten history events and name the state each one happened in, found by
+// following `previousEventId` back to the state's StateEntered event
+function toHistoryEvents(events) {
+  const eventsById = new Map(events.map(event => [event.id, event]));
+  const stateNames = new Map();
+
+  const getStateName = event => {
+    if (stateNames.has(event.id)) return stateNames.get(event.id);
+
+    let stateName;
+    const details = getEventDetails(event);
+    if (event.type.endsWith('StateEntered') || event.type.endsWith('StateExited')) {
+      stateName = details.name;
+    } else if (!event.type.startsWith('Execution')) {
+      const previous = eventsById.get(event.previousEventId);
+      stateName = previous ? getStateName(previous) : undefined;
+    }
+
+    stateNames.set(event.id, stateName);
+    return stateName;
+  };
+
+  return events.map(event => {
+    const details = getEventDetails(event);
+    return {
+      id: event.id,
+      previousEventId: event.previousEventId,
+      timestamp: event.timestamp?.toISOString(),
+      type: event.type,
+      stateName: getStateName(event),
+      resource: details.resource,
+      error: details.error,
+      cause: details.cause
+    };
+  });
+}
+
+// Where an execution failed: the error and cause it ended with, and the state
+// it was in. Undefined for executions that didn't fail.
+function getFailure(execution, events) {
+  const failureEvent = events.findLast(event => EXECUTION_FAILURE_EVENTS.includes(event.type));
+  if (!failureEvent && !execution.error) return undefined;
+
+  // The event before the failure belongs to the failing state, e.g. TaskFailed
+  // or FailStateEntered. Without it, e.g. in a truncated history, the last
+  // state that reported an error is the best guess.
+  const failedStateEvent = events.find(event => event.id === failureEvent?.previousEventId && event.stateName)
+    || events.findLast(event => event.stateName && (event.error || event.cause));
+  return {
+    stateName: failedStateEvent?.stateName,
+    error: execution.error || failureEvent?.error || failedStateEvent?.error,
+    cause: execution.cause || failureEvent?.cause || failedStateEvent?.cause
+  };
+}
+
+// Most recent events of an execution, returned oldest first
+async function getHistoryEvents(sfnClient, executionArn) {
+  const events = [];
+  let nextToken;
+
+  do {
+    const response = await sfnClient.send(new GetExecutionHistoryCommand({
+      executionArn,
+      reverseOrder: true,
+      maxResults: HISTORY_PAGE_SIZE,
+      includeExecutionData: false,
+      nextToken
+    }));
+    events.push(...(response.events || []));
+    nextToken = response.nextToken;
+  } while (nextToken && events.length < MAX_HISTORY_EVENTS);
+
+  return { events: events.reverse(), truncated: Boolean(nextToken) };
+}
+
+// An execution with its input, output and event history, and where it failed
+export async function getExecutionHistory(stateMachine, executionArn) {
+  const sfnClient = getClient(SFNClient, stateMachine.region, stateMachine.accountId);
+
+  const [execution, history] = await Promise.all([
+    sfnClient.send(new DescribeExecutionCommand({ executionArn })),
+    getHistoryEvents(sfnClient, executionArn)
+  ]);
+  const events = toHistoryEvents(history.events);
+
+  return {
+    resourceId: stateMachine.id,
+    execution: {
+      ...toExecution(execution),
+      input: execution.input,
+      output: execution.output,
+      redriveStatus: execution.redriveStatus,
+      redriveStatusReason: execution.redriveStatusReason
+    },
+    failure: getFailure(execution, events),
+    events,
+    truncated: history.truncated
+  };
+}
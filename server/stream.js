@@ -0,0 +1,68 @@
+import { inventoryDiffSchema, formatContractIssues } from '../shared/apiContract.js';
+import { inventoryEvents } from './inventory.js';
+import { diffInventories } from './inventoryDiff.js';
+import { excludeInvalidResources } from './apiValidation.js';
+
+// Keeps proxies from closing idle connections
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+// Open /api/stream responses
+const clients = new Set();
+
+function writeEvent(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function broadcast(event, data) {
+  for (const res of clients) {
+    writeEvent(res, event, data);
+  }
+}
+
+// Push the difference between consecutive refreshes to every connected client
+inventoryEvents.on('refresh', ({ previousResources, resources, applications, errors, fetchedAt }) => {
+  if (clients.size === 0) return;
+
+  const diff = diffInventories(previousResources, resources);
+  const validAdded = excludeInvalidResources(diff.added);
+  const validChanged = excludeInvalidResources(diff.changed);
+  const result = inventoryDiffSchema.safeParse({
+    fetchedAt,
+    applications,
+    ...diff,
+    added: validAdded.resources,
+    changed: validChanged.resources,
+    errors: [...errors, ...validAdded.errors, ...validChanged.errors]
+  });
+
+  if (!result.success) {
+    console.error('Inventory diff failed API contract validation:', formatContractIssues(result.error));
+    return;
+  }
+
+  const { added, removed, changed, statusTransitions } = result.data;
+  console.log(`Streaming inventory diff to ${clients.size} clients: ${added.length} added, ${removed.length} removed, ${changed.length} changed, ${statusTransitions.length} status transitions`);
+  broadcast('inventory', result.data);
+});
+
+// Server-Sent Events endpoint streaming inventory diffs after each refresh
+export function handleInventoryStream(req, res) {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+  res.write('retry: 5000\n\n');
+
+  clients.add(res);
+
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+  });
+}
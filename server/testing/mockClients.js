@@ -0,0 +1,48 @@
+import { setClientFactory } from '../clients.js';
+
+// Page tokens handed out by mocked list calls, `page-2` asks for the second page
+const PAGE_TOKEN_PATTERN = /^page-(\d+)$/;
+
+function getPageIndex(input = {}) {
+  const token = Object.values(input).find(value => typeof value === 'string' && PAGE_TOKEN_PATTERN.test(value));
+  return token ? Number(token.match(PAGE_TOKEN_PATTERN)[1]) - 1 : 0;
+}
+
+// Answer every SDK command from canned responses keyed by command name, e.g.
+//   mockClients({
+//     ListClustersCommand: [{ clusterArns: ['a'], nextToken: 'page-2' }, { clusterArns: ['b'] }],
+//     DescribeServicesCommand: input => ({ services: input.services.map(...) })
+//   })
+// A list of responses is served one page at a time, following the `page-<n>`
+// token of the request. Functions receive the command input and may throw to
+// simulate an AWS error. Commands without a response get an empty one.
+// Returns the commands sent, as { name, input }, in order.
+export function mockClients(responses) {
+  const calls = [];
+
+  setClientFactory(() => ({
+    send: async command => {
+      const name = command.constructor.name;
+      calls.push({ name, input: command.input });
+
+      const response = responses[name];
+      if (Array.isArray(response)) return response[getPageIndex(command.input)];
+      if (typeof response === 'function') return response(command.input);
+      return response || {};
+    }
+  }));
+
+  return calls;
+}
+
+// Restore the real SDK clients
+export function restoreClients() {
+  setClientFactory();
+}
+
+// An AWS SDK style error, matched by services on `name`
+export function awsError(name, message = name) {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
@@ -0,0 +1,678 @@
+// API contract shared by the Express server and the React client.
+// The server validates every response against these schemas before sending
+// it, and the client validates what it receives. TypeScript types for the
+// client are inferred from the schemas in src/types/aws.ts.
+import { z } from 'zod';
+
+export const resourceTypeSchema = z.enum([
+  'ecs',
+  'aurora',
+  'aurora-instance',
+  'lambda',
+  'ec2',
+  'stepfunctions',
+  'apigateway',
+  'eventbridge',
+  'alb',
+  'nlb',
+  's3',
+  'dynamodb',
+  'sqs',
+  'sns',
+  'external'
+]);
+
+export const resourceStatusSchema = z.enum(['running', 'stopped', 'pending', 'terminated']);
+
+export const resourceSourceSchema = z.enum(['aws', 'custom']);
+
+export const healthStatusSchema = z.enum(['healthy', 'warning', 'error']);
+
+// A health rule that fired. Application reasons coming from one of its
+// resources name that resource.
+export const healthReasonSchema = z.object({
+  rule: z.string(),
+  severity: z.enum(['warning', 'error']),
+  explanation: z.string(),
+  resourceId: z.string().optional(),
+  resourceName: z.string().optional()
+});
+
+export const healthSchema = z.object({
+  status: healthStatusSchema,
+  reasons: z.array(healthReasonSchema)
+});
+
+export const applicationHealthSchema = z.object({
+  application: z.string(),
+  health: healthSchema
+});
+
+// A CloudWatch metric alarm watching one of a resource's metrics
+export const alarmSchema = z.object({
+  name: z.string(),
+  arn: z.string(),
+  state: z.enum(['OK', 'ALARM', 'INSUFFICIENT_DATA']),
+  stateReason: z.string().optional(),
+  stateUpdatedAt: z.string().optional(),
+  namespace: z.string(),
+  metricName: z.string().optional()
+});
+
+export const serviceEventSchema = z.object({
+  id: z.string(),
+  message: z.string(),
+  createdAt: z.string(),
+  level: z.enum(['INFO', 'WARN', 'ERROR'])
+});
+
+// A state of a Step Functions definition. States nested in Parallel branches
+// and Map iterators name the state containing them as `parent`.
+export const workflowStateSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  next: z.array(z.string()),
+  catch: z.array(z.string()),
+  end: z.boolean(),
+  parent: z.string().optional(),
+  branch: z.number().optional(),
+  // Start states of a Parallel state's branches or a Map state's iterator
+  branches: z.array(z.string()).optional(),
+  integration: z.object({
+    service: z.string(),
+    action: z.string(),
+    invocationPattern: z.string(),
+    target: z.string().optional(),
+    cluster: z.string().optional()
+  }).optional()
+});
+
+// A load balancer target group with the listener rules forwarding to it and
+// the health of its registered targets
+export const targetGroupSchema = z.object({
+  arn: z.string(),
+  name: z.string(),
+  targetType: z.string().optional(),
+  protocol: z.string().optional(),
+  port: z.number().optional(),
+  vpcId: z.string().optional(),
+  healthCheckPath: z.string().optional(),
+  listenerRules: z.array(z.object({
+    // e.g. HTTPS:443
+    listener: z.string(),
+    priority: z.string().optional(),
+    isDefault: z.boolean(),
+    conditions: z.array(z.string())
+  })),
+  targets: z.array(z.object({
+    // Instance ID, IP address, Lambda or ALB ARN, depending on the target type
+    id: z.string(),
+    port: z.number().optional(),
+    availabilityZone: z.string().optional(),
+    state: z.string().optional(),
+    reason: z.string().optional(),
+    description: z.string().optional(),
+    // ECS task an IP target's network interface is attached to
+    taskId: z.string().optional()
+  }))
+});
+
+// A REST API method or an HTTP/WebSocket API route, with its integration and
+// authorizer. Integration and authorizer targets may contain stage variables.
+export const apiRouteSchema = z.object({
+  // Absent for WebSocket routes, which are selected by route key only
+  method: z.string().optional(),
+  path: z.string(),
+  authorizer: z.object({
+    type: z.string(),
+    name: z.string().optional(),
+    target: z.string().optional()
+  }).optional(),
+  integration: z.object({
+    type: z.string().optional(),
+    connectionType: z.string(),
+    uri: z.string().optional(),
+    // Lambda function, load balancer or listener ARN, or the URI for other integrations
+    target: z.string().optional()
+  }).optional()
+});
+
+export const resourceDetailsSchema = z.object({
+  // ECS specific
+  clusterName: z.string().optional(),
+  runningCount: z.number().optional(),
+  desiredCount: z.number().optional(),
+  pendingCount: z.number().optional(),
+  deploymentStatus: z.string().optional(),
+  deploymentRolloutState: z.string().optional(),
+  failureReason: z.string().optional(),
+  events: z.array(serviceEventSchema).optional(),
+  taskDefinition: z.string().optional(),
+
+  // EC2 specific
+  instanceType: z.string().optional(),
+  publicIp: z.string().optional(),
+  privateIp: z.string().optional(),
+
+  // Load Balancer specific
+  dnsName: z.string().optional(),
+  scheme: z.string().optional(),
+  availabilityZones: z.array(z.string()).optional(),
+  targetGroups: z.array(targetGroupSchema).optional(),
+
+  // Step Functions specific
+  executionsStarted: z.number().optional(),
+  executionsFailed: z.number().optional(),
+  executionsSucceeded: z.number().optional(),
+  stateMachineType: z.string().optional(),
+  workflow: z.object({
+    startAt: z.string(),
+    states: z.array(workflowStateSchema)
+  }).optional(),
+
+  // API Gateway specific
+  endpoint: z.string().optional(),
+  stage: z.string().optional(),
+  protocolType: z.string().optional(),
+  stages: z.array(z.object({
+    name: z.string(),
+    invokeUrl: z.string().optional(),
+    deploymentId: z.string().optional(),
+    lastUpdated: z.string().optional(),
+    variables: z.record(z.string()).optional()
+  })).optional(),
+  routes: z.array(apiRouteSchema).optional(),
+
+  // EventBridge specific
+  eventPattern: z.string().optional(),
+  scheduleExpression: z.string().optional(),
+
+  // Aurora specific
+  port: z.number().optional(),
+
+  // S3 specific
+  versioning: z.string().optional(),
+  encryption: z.string().optional(),
+  kmsKeyId: z.string().optional(),
+  publicAccessBlock: z.object({
+    blockPublicAcls: z.boolean(),
+    ignorePublicAcls: z.boolean(),
+    blockPublicPolicy: z.boolean(),
+    restrictPublicBuckets: z.boolean()
+  }).optional(),
+
+  // DynamoDB specific
+  billingMode: z.string().optional(),
+  itemCount: z.number().optional(),
+  tableSizeBytes: z.number().optional(),
+  globalSecondaryIndexes: z.array(z.object({
+    name: z.string(),
+    status: z.string().optional(),
+    itemCount: z.number().optional()
+  })).optional(),
+  streamEnabled: z.boolean().optional(),
+  streamViewType: z.string().optional(),
+  streamArn: z.string().optional(),
+
+  // SQS specific
+  queueUrl: z.string().optional(),
+  fifo: z.boolean().optional(),
+  messagesAvailable: z.number().optional(),
+  messagesInFlight: z.number().optional(),
+  messagesDelayed: z.number().optional(),
+  visibilityTimeoutSeconds: z.number().optional(),
+  messageRetentionSeconds: z.number().optional(),
+  deadLetterQueue: z.object({
+    deadLetterTargetArn: z.string().optional(),
+    maxReceiveCount: z.number().optional()
+  }).optional(),
+
+  // SNS specific
+  displayName: z.string().optional(),
+  subscriptions: z.array(z.object({
+    subscriptionArn: z.string().optional(),
+    protocol: z.string(),
+    endpoint: z.string().optional(),
+    pendingConfirmation: z.boolean()
+  })).optional(),
+
+  // Lambda specific
+  roleArn: z.string().optional(),
+  eventSourceMappings: z.array(z.object({
+    uuid: z.string(),
+    eventSourceArn: z.string().optional(),
+    eventType: z.string(),
+    state: z.string().optional(),
+    stateTransitionReason: z.string().optional(),
+    batchSize: z.number().optional(),
+    startingPosition: z.string().optional(),
+    maximumBatchingWindowInSeconds: z.number().optional(),
+    lastProcessingResult: z.string().optional(),
+    lastModified: z.string().optional()
+  })).optional(),
+
+  // External specific
+  provider: z.string().optional(),
+  url: z.string().optional(),
+  description: z.string().optional()
+});
+
+// An operational action the dashboard can run on a resource
+export const resourceActionSchema = z.object({
+  name: z.enum([
+    'start',
+    'stop',
+    'set-desired-count',
+    'force-deployment',
+    'enable',
+    'disable',
+    'start-execution',
+    'redrive-execution'
+  ]),
+  label: z.string(),
+  parameters: z.array(z.string())
+});
+
+export const resourceSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  type: resourceTypeSchema,
+  status: resourceStatusSchema,
+  application: z.string(),
+  region: z.string(),
+  accountId: z.string(),
+  accountName: z.string().optional(),
+  tags: z.record(z.string()),
+  lastUpdated: z.string(),
+  // 'custom' for resources declared in the custom resources file
+  source: resourceSourceSchema.optional(),
+  securityGroups: z.array(z.string()).optional(),
+  // For Aurora instances to reference their cluster
+  clusterId: z.string().optional(),
+  // The grouping rule that decided `application`
+  groupedBy: z.object({
+    // Index into the configured grouping rules, null when no rule applied
+    rule: z.number().nullable(),
+    type: z.enum(['tag', 'name', 'arn', 'inherit', 'declared', 'default']),
+    description: z.string()
+  }).optional(),
+  // Metric alarms watching the resource
+  alarms: z.array(alarmSchema).optional(),
+  // Computed by the health rules
+  health: healthSchema.optional(),
+  // Actions that can be run on the resource, when actions are enabled
+  actions: z.array(resourceActionSchema).optional(),
+  details: resourceDetailsSchema.optional()
+});
+
+export const relationshipTypeSchema = z.enum([
+  'routes_to',
+  'depends_on',
+  'triggers',
+  'connects_to',
+  'part_of',
+  'instance_of'
+]);
+
+export const securityGroupRuleSchema = z.object({
+  protocol: z.string(),
+  fromPort: z.number().optional(),
+  toPort: z.number().optional(),
+  securityGroupId: z.string(),
+  direction: z.enum(['inbound', 'outbound'])
+});
+
+export const relationshipMetadataSchema = z.object({
+  protocol: z.string().optional(),
+  port: z.union([z.number(), z.string()]).optional(),
+  eventType: z.string().optional(),
+  method: z.string().optional(),
+  path: z.string().optional(),
+  accessType: z.string().optional(),
+  targetId: z.string().optional(),
+  // Step Functions Task states calling the target
+  stateType: z.string().optional(),
+  stateName: z.string().optional(),
+  stateNames: z.array(z.string()).optional(),
+  integration: z.string().optional(),
+  invocationPattern: z.string().optional(),
+  // Messaging delivery: subscriptions, event source mappings, redrive and rule targets
+  deliveryType: z.string().optional(),
+  batchSize: z.number().optional(),
+  state: z.string().optional(),
+  filterPolicy: z.string().optional(),
+  rawMessageDelivery: z.boolean().optional(),
+  maxReceiveCount: z.number().optional(),
+  startingPosition: z.string().optional(),
+  lastProcessingResult: z.string().optional(),
+  // API Gateway routes and stages leading to the integration or authorizer
+  routes: z.array(z.string()).optional(),
+  stages: z.array(z.string()).optional(),
+  integrationType: z.string().optional(),
+  connectionType: z.string().optional(),
+  authorizer: z.string().optional(),
+  // Load balancer target groups behind the edge
+  targetGroups: z.array(targetGroupSchema).optional(),
+  targetHealth: z.object({
+    healthy: z.number(),
+    unhealthy: z.number(),
+    total: z.number()
+  }).optional(),
+  // IAM policy analysis
+  actions: z.array(z.string()).optional(),
+  policies: z.array(z.string()).optional(),
+  overBroad: z.boolean().optional(),
+  securityGroups: z.object({
+    source: z.array(z.string()),
+    target: z.array(z.string()),
+    rules: z.array(securityGroupRuleSchema)
+  }).optional()
+}).passthrough();
+
+export const relationshipSchema = z.object({
+  sourceId: z.string().min(1),
+  targetId: z.string().min(1),
+  type: relationshipTypeSchema,
+  // 'custom' for relationships declared in the custom resources file
+  source: resourceSourceSchema.optional(),
+  metadata: relationshipMetadataSchema.optional()
+});
+
+export const collectorErrorSchema = z.object({
+  collector: z.string(),
+  region: z.string(),
+  accountId: z.string().optional(),
+  message: z.string(),
+  code: z.string().optional()
+});
+
+export const inventoryMetadataSchema = z.object({
+  fetchedAt: z.string().nullable(),
+  ageSeconds: z.number().nullable(),
+  refreshing: z.boolean()
+});
+
+export const resourcesResponseSchema = inventoryMetadataSchema.extend({
+  resources: z.array(resourceSchema),
+  applications: z.array(applicationHealthSchema),
+  errors: z.array(collectorErrorSchema)
+});
+
+export const relationshipsResponseSchema = inventoryMetadataSchema.extend({
+  resources: z.array(resourceSchema),
+  relationships: z.array(relationshipSchema),
+  externalResources: z.array(resourceSchema)
+});
+
+export const refreshResponseSchema = inventoryMetadataSchema;
+
+export const statusTransitionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: resourceTypeSchema,
+  application: z.string(),
+  from: resourceStatusSchema,
+  to: resourceStatusSchema
+});
+
+// Header the dashboard sends with every request that changes something. Browsers
+// only send it cross-origin after a CORS preflight, which other origins fail.
+export const DASHBOARD_REQUEST_HEADER = 'X-Dashboard-Request';
+
+// Body of a request to run an action
+export const actionRequestSchema = z.object({
+  params: z.record(z.unknown()).default({}),
+  dryRun: z.boolean().default(false),
+  // The resource name, typed to confirm a real run
+  confirm: z.string().optional()
+});
+
+export const actionResultResponseSchema = z.object({
+  action: z.string(),
+  resourceId: z.string(),
+  dryRun: z.boolean(),
+  // What the action did, or would do on a dry run
+  description: z.string(),
+  // False when the action ran but couldn't be recorded in the audit log
+  audited: z.boolean()
+});
+
+// An action attempt recorded in the audit log
+export const auditLogEntrySchema = z.object({
+  at: z.string(),
+  actor: z.object({
+    user: z.string().nullable(),
+    // Whether the user came from a trusted proxy rather than the request as sent
+    verified: z.boolean().optional(),
+    ip: z.string().optional()
+  }),
+  action: z.string(),
+  resourceId: z.string(),
+  resourceName: z.string(),
+  resourceType: resourceTypeSchema,
+  accountId: z.string(),
+  region: z.string(),
+  params: z.record(z.unknown()),
+  dryRun: z.boolean(),
+  // Missing for rejected requests, which never got as far as describing the action
+  description: z.string().optional(),
+  // `rejected` requests failed the checks, e.g. the confirmation didn't match
+  outcome: z.enum(['succeeded', 'failed', 'rejected']),
+  error: z.string().optional()
+});
+
+export const auditLogResponseSchema = z.object({
+  entries: z.array(auditLogEntrySchema)
+});
+
+// Result of sending a test notification to each webhook
+export const notificationTestResponseSchema = z.object({
+  results: z.array(z.object({
+    webhook: z.string(),
+    delivered: z.boolean(),
+    statusCode: z.number().optional(),
+    error: z.string().optional()
+  }))
+});
+
+// Sent as the `inventory` event on /api/stream after every refresh
+export const inventoryDiffSchema = z.object({
+  fetchedAt: z.string(),
+  added: z.array(resourceSchema),
+  removed: z.array(z.string()),
+  changed: z.array(resourceSchema),
+  statusTransitions: z.array(statusTransitionSchema),
+  // Health of every application after the refresh
+  applications: z.array(applicationHealthSchema),
+  errors: z.array(collectorErrorSchema)
+});
+
+export const historySnapshotsResponseSchema = z.object({
+  snapshots: z.array(z.object({
+    fetchedAt: z.string()
+  }))
+});
+
+export const fieldChangeSchema = z.object({
+  // Dotted path of the changed field, e.g. `details.runningCount`
+  field: z.string(),
+  from: z.unknown(),
+  to: z.unknown()
+});
+
+export const historyDiffResponseSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  added: z.array(resourceSchema),
+  removed: z.array(resourceSchema),
+  modified: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    type: resourceTypeSchema,
+    application: z.string(),
+    changes: z.array(fieldChangeSchema)
+  })),
+  // null when either snapshot was recorded without relationships (history.includeRelationships)
+  relationships: z.object({
+    added: z.array(relationshipSchema),
+    removed: z.array(relationshipSchema)
+  }).nullable()
+});
+
+export const resourceHistoryResponseSchema = z.object({
+  resourceId: z.string(),
+  // Latest known version of the resource, null if no snapshot contains it
+  resource: resourceSchema.nullable(),
+  snapshotCount: z.number(),
+  timeline: z.array(z.object({
+    at: z.string(),
+    // `absent` marks snapshots where the resource no longer existed
+    status: z.union([resourceStatusSchema, z.literal('absent')])
+  }))
+});
+
+export const ecsTaskSchema = z.object({
+  taskArn: z.string(),
+  taskId: z.string(),
+  lastStatus: z.string().optional(),
+  desiredStatus: z.string().optional(),
+  healthStatus: z.string().optional(),
+  taskDefinitionRevision: z.number(),
+  launchType: z.string().optional(),
+  availabilityZone: z.string().optional(),
+  startedAt: z.string().optional(),
+  stoppedAt: z.string().optional(),
+  stopCode: z.string().optional(),
+  stoppedReason: z.string().optional(),
+  // A container was killed for exceeding its memory limit
+  outOfMemory: z.boolean(),
+  containers: z.array(z.object({
+    name: z.string(),
+    lastStatus: z.string().optional(),
+    healthStatus: z.string().optional(),
+    exitCode: z.number().optional(),
+    reason: z.string().optional()
+  }))
+});
+
+export const ecsServiceTasksResponseSchema = z.object({
+  serviceId: z.string(),
+  taskDefinition: z.object({
+    arn: z.string(),
+    family: z.string(),
+    revision: z.number(),
+    cpu: z.string().optional(),
+    memory: z.string().optional(),
+    networkMode: z.string().optional(),
+    containers: z.array(z.object({
+      name: z.string(),
+      image: z.string().optional(),
+      cpu: z.number().optional(),
+      memory: z.number().optional(),
+      memoryReservation: z.number().optional(),
+      essential: z.boolean().optional(),
+      portMappings: z.array(z.object({
+        containerPort: z.number().optional(),
+        hostPort: z.number().optional(),
+        protocol: z.string().optional()
+      })),
+      healthCheck: z.object({
+        command: z.array(z.string()),
+        interval: z.number().optional(),
+        timeout: z.number().optional(),
+        retries: z.number().optional(),
+        startPeriod: z.number().optional()
+      }).optional()
+    }))
+  }),
+  runningTasks: z.array(ecsTaskSchema),
+  stoppedTasks: z.array(ecsTaskSchema)
+});
+
+export const metricPeriodSchema = z.enum(['1h', '3h', '24h', '7d']);
+
+export const resourceMetricsResponseSchema = z.object({
+  resourceId: z.string(),
+  period: metricPeriodSchema,
+  // Seconds covered by each datapoint
+  periodSeconds: z.number(),
+  // Null for resources without default metrics
+  startTime: z.string().nullable(),
+  endTime: z.string().nullable(),
+  metrics: z.array(z.object({
+    id: z.string(),
+    label: z.string(),
+    stat: z.string(),
+    unit: z.string(),
+    // Oldest first, with gaps where CloudWatch has no datapoint
+    timestamps: z.array(z.string()),
+    values: z.array(z.number())
+  }))
+});
+
+export const executionStatusSchema = z.enum(['RUNNING', 'SUCCEEDED', 'FAILED', 'TIMED_OUT', 'ABORTED', 'PENDING_REDRIVE']);
+
+export const executionSchema = z.object({
+  executionArn: z.string(),
+  name: z.string(),
+  status: executionStatusSchema,
+  startDate: z.string().optional(),
+  stopDate: z.string().optional(),
+  redriveCount: z.number().optional(),
+  redriveDate: z.string().optional()
+});
+
+export const executionsResponseSchema = z.object({
+  resourceId: z.string(),
+  // Most recent first
+  executions: z.array(executionSchema),
+  // More executions match than the limit allowed
+  truncated: z.boolean()
+});
+
+export const executionHistoryEventSchema = z.object({
+  id: z.number(),
+  previousEventId: z.number().optional(),
+  timestamp: z.string().optional(),
+  type: z.string(),
+  // State the event happened in, missing for execution-level events
+  stateName: z.string().optional(),
+  // Task, Lambda function or activity the event called
+  resource: z.string().optional(),
+  error: z.string().optional(),
+  cause: z.string().optional()
+});
+
+export const executionHistoryResponseSchema = z.object({
+  resourceId: z.string(),
+  execution: executionSchema.extend({
+    input: z.string().optional(),
+    output: z.string().optional(),
+    redriveStatus: z.string().optional(),
+    redriveStatusReason: z.string().optional()
+  }),
+  // Set for executions that failed, timed out or were aborted
+  failure: z.object({
+    stateName: z.string().optional(),
+    error: z.string().optional(),
+    cause: z.string().optional()
+  }).optional(),
+  // Oldest first
+  events: z.array(executionHistoryEventSchema),
+  // Only the most recent events were fetched
+  truncated: z.boolean()
+});
+
+export const errorResponseSchema = z.object({
+  error: z.string(),
+  issues: z.array(z.string()).optional()
+});
+
+// Turn validation issues into "path: message" lines, e.g.
+// "resources.3.status: Invalid enum value. Expected 'running' | ..., received 'available'"
+export function formatContractIssues(error) {
+  return error.issues.map(issue => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+    return `${path}: ${issue.message}`;
+  });
+}
@@ -3,7 +3,10 @@ import { ResourceGroup as ResourceGroupComponent } from './components/ResourceGr
 import { QuickNav } from './components/QuickNav';
 import { DashboardOverview } from './components/DashboardOverview';
 import { ResourceFilters } from './components/ResourceFilters';
-import { AWSResource, ResourceGroup } from './types/aws';
+import { AWSResource, CollectorError, Health, ResourceGroup, StatusTransition } from './types/aws';
+import { fetchValidated } from './api/client';
+import { subscribeToInventory, applyInventoryDiff } from './api/stream';
+import { resourcesResponseSchema, refreshResponseSchema } from '../shared/apiContract.js';
 import { 
   Ship, 
   Database, 
@@ -15,7 +18,15 @@ import {
   BarChart3,
   Globe,
   Menu,
-  X
+  X,
+  RefreshCw,
+  ExternalLink,
+  AlertTriangle,
+  Activity,
+  Archive,
+  Table,
+  Inbox,
+  Megaphone
 } from 'lucide-react';
 
 export const resourceTypeIcons = {
@@ -27,15 +38,30 @@ export const resourceTypeIcons = {
   apigateway: { icon: Globe, label: 'API Gateway' },
   eventbridge: { icon: Calendar, label: 'EventBridge' },
   alb: { icon: Network, label: 'Application LB' },
-  nlb: { icon: BarChart3, label: 'Network LB' }
+  nlb: { icon: BarChart3, label: 'Network LB' },
+  s3: { icon: Archive, label: 'S3 Buckets' },
+  dynamodb: { icon: Table, label: 'DynamoDB Tables' },
+  sqs: { icon: Inbox, label: 'SQS Queues' },
+  sns: { icon: Megaphone, label: 'SNS Topics' },
+  external: { icon: ExternalLink, label: 'External' }
 };
 
+// How many recent status transitions to keep on screen
+const MAX_STATUS_TRANSITIONS = 10;
+
 function App() {
   const [searchTerm, setSearchTerm] = React.useState('');
   const [selectedResourceTypes, setSelectedResourceTypes] = React.useState<Set<AWSResource['type']>>(new Set());
+  const [selectedAccounts, setSelectedAccounts] = React.useState<Set<string>>(new Set());
   const [resources, setResources] = useState<AWSResource[]>([]);
+  const [applicationHealth, setApplicationHealth] = useState<Map<string, Health>>(new Map());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [fetchedAt, setFetchedAt] = useState<string | null>(null);
+  const [collectorErrors, setCollectorErrors] = useState<CollectorError[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+  const [live, setLive] = useState(false);
+  const [statusTransitions, setStatusTransitions] = useState<(StatusTransition & { at: string })[]>([]);
   const [selectedApp, setSelectedApp] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
 
@@ -55,14 +81,32 @@ function App() {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  // Apply inventory diffs pushed by the server after each refresh
+  useEffect(() => {
+    return subscribeToInventory({
+      onDiff: (diff) => {
+        setResources(prev => applyInventoryDiff(prev, diff));
+        setApplicationHealth(new Map(diff.applications.map(({ application, health }) => [application, health])));
+        setCollectorErrors(diff.errors);
+        setFetchedAt(diff.fetchedAt);
+        if (diff.statusTransitions.length > 0) {
+          setStatusTransitions(prev => [
+            ...diff.statusTransitions.map(transition => ({ ...transition, at: diff.fetchedAt })),
+            ...prev
+          ].slice(0, MAX_STATUS_TRANSITIONS));
+        }
+      },
+      onConnectionChange: setLive
+    });
+  }, []);
+
   const fetchResources = async () => {
     try {
-      const response = await fetch('/api/resources');
-      if (!response.ok) {
-        throw new Error('Failed to fetch resources');
-      }
-      const data = await response.json();
-      setResources(data);
+      const data = await fetchValidated('/api/resources', resourcesResponseSchema);
+      setResources(data.resources);
+      setApplicationHealth(new Map(data.applications.map(({ application, health }) => [application, health])));
+      setCollectorErrors(data.errors);
+      setFetchedAt(data.fetchedAt);
       setLoading(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -70,6 +114,18 @@ function App() {
     }
   };
 
+  const handleRefresh = async () => {
+    try {
+      setRefreshing(true);
+      await fetchValidated('/api/refresh', refreshResponseSchema, { method: 'POST' });
+      await fetchResources();
+    } catch (err) {
+      console.error('Error refreshing resources:', err);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
   const groupedResources = React.useMemo(() => {
     const filtered = resources.filter(
       (resource) => {
@@ -77,7 +133,8 @@ function App() {
           resource.application.toLowerCase().includes(searchTerm.toLowerCase());
         const matchesType = selectedResourceTypes.size === 0 || selectedResourceTypes.has(resource.type);
         const matchesApp = !selectedApp || resource.application === selectedApp;
-        return matchesSearch && matchesType && matchesApp;
+        const matchesAccount = selectedAccounts.size === 0 || selectedAccounts.has(resource.accountId);
+        return matchesSearch && matchesType && matchesApp && matchesAccount;
       }
     );
 
@@ -86,14 +143,19 @@ function App() {
         if (!acc[resource.application]) {
           acc[resource.application] = {
             application: resource.application,
+            health: applicationHealth.get(resource.application),
             regions: [],
           };
         }
 
-        let regionGroup = acc[resource.application].regions.find(r => r.region === resource.region);
+        let regionGroup = acc[resource.application].regions.find(r => 
+          r.region === resource.region && r.accountId === resource.accountId
+        );
         if (!regionGroup) {
           regionGroup = {
             region: resource.region,
+            accountId: resource.accountId,
+            accountName: resource.accountName,
             resources: [],
           };
           acc[resource.application].regions.push(regionGroup);
@@ -103,7 +165,17 @@ function App() {
         return acc;
       }, {})
     );
-  }, [searchTerm, selectedResourceTypes, resources, selectedApp]);
+  }, [searchTerm, selectedResourceTypes, selectedAccounts, resources, selectedApp, applicationHealth]);
+
+  const accounts = React.useMemo(() => {
+    const accountNames = new Map<string, string>();
+    resources.forEach(resource => {
+      if (!accountNames.has(resource.accountId)) {
+        accountNames.set(resource.accountId, resource.accountName || resource.accountId);
+      }
+    });
+    return Array.from(accountNames, ([id, name]) => ({ id, name }));
+  }, [resources]);
 
   const handleResourceTypeToggle = (type: AWSResource['type']) => {
     setSelectedResourceTypes((prev) => {
@@ -117,10 +189,23 @@ function App() {
     });
   };
 
+  const handleAccountToggle = (accountId: string) => {
+    setSelectedAccounts((prev) => {
+      const newSet = new Set(prev);
+      if (newSet.has(accountId)) {
+        newSet.delete(accountId);
+      } else {
+        newSet.add(accountId);
+      }
+      return newSet;
+    });
+  };
+
   const clearAllFilters = () => {
     setSelectedApp(null);
     setSearchTerm('');
     setSelectedResourceTypes(new Set());
+    setSelectedAccounts(new Set());
   };
 
   const handleApplicationSelect = (appName: string | null) => {
@@ -142,7 +227,7 @@ function App() {
   if (error) {
     return (
       <div className="min-h-screen flex items-center justify-center">
-        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 whitespace-pre-line">
           {error}
         </div>
       </div>
@@ -171,6 +256,26 @@ function App() {
               </h1>
             </div>
             <div className="flex items-center space-x-4">
+              {fetchedAt && (
+                <span className="hidden md:inline text-sm text-gray-500" title={new Date(fetchedAt).toLocaleString()}>
+                  Updated {new Date(fetchedAt).toLocaleTimeString()}
+                </span>
+              )}
+              <span
+                className={`hidden md:flex items-center text-sm ${live ? 'text-green-600' : 'text-gray-400'}`}
+                title={live ? 'Receiving live updates' : 'Live updates disconnected, reconnecting'}
+              >
+                <span className={`w-2 h-2 rounded-full mr-1.5 ${live ? 'bg-green-500' : 'bg-gray-300'}`} />
+                Live
+              </span>
+              <button
+                onClick={handleRefresh}
+                disabled={refreshing}
+                className="p-2 rounded-md text-gray-400 hover:text-gray-500 hover:bg-gray-100 disabled:opacity-50"
+                title="Refresh inventory"
+              >
+                <RefreshCw className={`h-5 w-5 ${refreshing ? 'animate-spin' : ''}`} />
+              </button>
               <QuickNav 
                 resources={resources}
                 onApplicationSelect={handleApplicationSelect}
@@ -203,6 +308,9 @@ function App() {
           <ResourceFilters
             selectedResourceTypes={selectedResourceTypes}
             onResourceTypeToggle={handleResourceTypeToggle}
+            accounts={accounts}
+            selectedAccounts={selectedAccounts}
+            onAccountToggle={handleAccountToggle}
             searchTerm={searchTerm}
             onSearchChange={setSearchTerm}
           />
@@ -219,7 +327,58 @@ function App() {
           ${showFilters ? 'lg:ml-0' : ''}
         `}>
           <div className="max-w-7xl mx-auto">
-            <DashboardOverview resources={resources} />
+            {collectorErrors.length > 0 && (
+              <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+                <div className="flex items-center space-x-2 text-yellow-800">
+                  <AlertTriangle className="w-5 h-5" />
+                  <h3 className="font-medium">
+                    Inventory is incomplete: {collectorErrors.length} {collectorErrors.length === 1 ? 'collector' : 'collectors'} failed
+                  </h3>
+                </div>
+                <ul className="mt-2 space-y-1 text-sm text-yellow-700">
+                  {collectorErrors.map((collectorError, index) => (
+                    <li key={`${collectorError.collector}-${collectorError.accountId}-${collectorError.region}-${index}`}>
+                      <span className="font-medium">{collectorError.collector}</span>
+                      {' in '}
+                      {collectorError.region}
+                      {collectorError.accountId && ` (${collectorError.accountId})`}
+                      {': '}
+                      {collectorError.code && <span className="font-mono">{collectorError.code} </span>}
+                      {collectorError.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {statusTransitions.length > 0 && (
+              <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2 text-blue-800">
+                    <Activity className="w-5 h-5" />
+                    <h3 className="font-medium">Recent status changes</h3>
+                  </div>
+                  <button
+                    onClick={() => setStatusTransitions([])}
+                    className="text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+                <ul className="mt-2 space-y-1 text-sm text-blue-700">
+                  {statusTransitions.map((transition, index) => (
+                    <li key={`${transition.id}-${transition.at}-${index}`}>
+                      <span className="text-blue-500">{new Date(transition.at).toLocaleTimeString()}</span>
+                      {' '}
+                      <span className="font-medium">{transition.name}</span>
+                      {` (${transition.application}): ${transition.from} → ${transition.to}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <DashboardOverview resources={resources} partial={collectorErrors.length > 0} />
 
             <div className="space-y-6 mt-8">
               {groupedResources.map((group) => (
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { DASHBOARD_REQUEST_HEADER, errorResponseSchema, formatContractIssues } from '../../shared/apiContract.js';
+
+// Thrown when a response does not match the shared API contract
+export class ApiContractError extends Error {
+  issues: string[];
+
+  constructor(url: string, issues: string[]) {
+    super(`Response from ${url} does not match the API contract:\n${issues.join('\n')}`);
+    this.name = 'ApiContractError';
+    this.issues = issues;
+  }
+}
+
+// Fetch a JSON endpoint and validate the body against its contract schema.
+// Requests that change something are marked as coming from the dashboard.
+export async function fetchValidated<T>(
+  url: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  init?: RequestInit
+): Promise<T> {
+  const method = init?.method?.toUpperCase() || 'GET';
+  const headers = new Headers(init?.headers);
+  if (method !== 'GET' && method !== 'HEAD') {
+    headers.set(DASHBOARD_REQUEST_HEADER, '1');
+  }
+  const response = await fetch(url, { ...init, headers });
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    throw new Error(`Response from ${url} is not valid JSON (HTTP ${response.status})`);
+  }
+
+  if (!response.ok) {
+    const errorBody = errorResponseSchema.safeParse(body);
+    const message = errorBody.success ? errorBody.data.error : `Request to ${url} failed`;
+    const issues = errorBody.success && errorBody.data.issues ? `:\n${errorBody.data.issues.join('\n')}` : '';
+    throw new Error(`${message} (HTTP ${response.status})${issues}`);
+  }
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ApiContractError(url, formatContractIssues(result.error));
+  }
+
+  return result.data;
+}
@@ -0,0 +1,57 @@
+import { inventoryDiffSchema, formatContractIssues } from '../../shared/apiContract.js';
+import { AWSResource, InventoryDiff } from '../types/aws';
+
+interface InventoryStreamHandlers {
+  onDiff: (diff: InventoryDiff) => void;
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+// Subscribe to inventory diffs pushed by /api/stream. Returns an unsubscribe function.
+export function subscribeToInventory({ onDiff, onConnectionChange }: InventoryStreamHandlers): () => void {
+  const source = new EventSource('/api/stream');
+
+  source.onopen = () => onConnectionChange?.(true);
+  // EventSource reconnects on its own after an error
+  source.onerror = () => onConnectionChange?.(false);
+
+  source.addEventListener('inventory', (event) => {
+    let body: unknown;
+    try {
+      body = JSON.parse((event as MessageEvent<string>).data);
+    } catch {
+      console.error('Inventory stream sent an event that is not valid JSON');
+      return;
+    }
+
+    const result = inventoryDiffSchema.safeParse(body);
+    if (!result.success) {
+      console.error(`Inventory stream event does not match the API contract:\n${formatContractIssues(result.error).join('\n')}`);
+      return;
+    }
+
+    onDiff(result.data);
+  });
+
+  return () => source.close();
+}
+
+// Apply a diff to the current resources, keeping the existing order
+export function applyInventoryDiff(resources: AWSResource[], diff: InventoryDiff): AWSResource[] {
+  const removedIds = new Set(diff.removed);
+  const updates = new Map(
+    [...diff.changed, ...diff.added].map(resource => [resource.id, resource])
+  );
+
+  const updated = resources
+    .filter(resource => !removedIds.has(resource.id))
+    .map(resource => {
+      const replacement = updates.get(resource.id);
+      if (replacement) {
+        updates.delete(resource.id);
+        return replacement;
+      }
+      return resource;
+    });
+
+  return [...updated, ...updates.values()];
+}
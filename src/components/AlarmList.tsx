@@ -0,0 +1,47 @@
+import React from 'react';
+import { Alarm } from '../types/aws';
+
+const alarmStateClasses: Record<Alarm['state'], string> = {
+  ALARM: 'bg-red-100 text-red-700',
+  INSUFFICIENT_DATA: 'bg-gray-100 text-gray-600',
+  OK: 'bg-green-100 text-green-700',
+};
+
+const alarmStateOrder: Alarm['state'][] = ['ALARM', 'INSUFFICIENT_DATA', 'OK'];
+
+export interface AlarmListItem {
+  alarm: Alarm;
+  // Name of the resource the alarm watches, for lists spanning several resources
+  resourceName?: string;
+}
+
+// Alarms with their state reasons, firing alarms first
+export const AlarmList: React.FC<{ items: AlarmListItem[] }> = ({ items }) => {
+  const sorted = [...items].sort(
+    (a, b) => alarmStateOrder.indexOf(a.alarm.state) - alarmStateOrder.indexOf(b.alarm.state)
+  );
+
+  return (
+    <ul className="space-y-2 text-xs">
+      {sorted.map(({ alarm, resourceName }) => (
+        <li key={`${alarm.arn}-${resourceName}`} className="min-w-0">
+          <div className="flex items-center min-w-0">
+            <span className={`px-1 rounded mr-2 flex-shrink-0 ${alarmStateClasses[alarm.state]}`}>
+              {alarm.state === 'INSUFFICIENT_DATA' ? 'NO DATA' : alarm.state}
+            </span>
+            <span className="text-gray-900 truncate" title={alarm.arn}>{alarm.name}</span>
+            {resourceName && <span className="text-gray-400 ml-2 truncate flex-shrink-0">{resourceName}</span>}
+          </div>
+          {alarm.state !== 'OK' && alarm.stateReason && (
+            <p className="text-gray-500 mt-0.5 line-clamp-2" title={alarm.stateReason}>
+              {alarm.stateReason}
+            </p>
+          )}
+          {alarm.stateUpdatedAt && alarm.state !== 'OK' && (
+            <p className="text-gray-400">Since {new Date(alarm.stateUpdatedAt).toLocaleString()}</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
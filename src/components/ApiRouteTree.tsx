@@ -0,0 +1,142 @@
+import React from 'react';
+import { ChevronDown, ChevronRight, Lock } from 'lucide-react';
+import { ApiRoute, AWSResource } from '../types/aws';
+
+type ApiStage = NonNullable<NonNullable<AWSResource['details']>['stages']>[number];
+
+interface RouteNode {
+  segment: string;
+  routes: ApiRoute[];
+  children: Map<string, RouteNode>;
+}
+
+const methodColors: Record<string, string> = {
+  GET: 'bg-green-100 text-green-700',
+  POST: 'bg-blue-100 text-blue-700',
+  PUT: 'bg-yellow-100 text-yellow-700',
+  PATCH: 'bg-yellow-100 text-yellow-700',
+  DELETE: 'bg-red-100 text-red-700',
+};
+
+// Nest routes by path segment. Paths that aren't URL paths, such as `$default`
+// or WebSocket route keys, sit at the top level.
+function buildRouteTree(routes: ApiRoute[]) {
+  const root: RouteNode = { segment: '/', routes: [], children: new Map() };
+
+  for (const route of routes) {
+    const segments = route.path.startsWith('/') ? route.path.split('/').filter(Boolean) : [route.path];
+    let node = root;
+    for (const segment of segments) {
+      if (!node.children.has(segment)) {
+        node.children.set(segment, { segment, routes: [], children: new Map() });
+      }
+      node = node.children.get(segment)!;
+    }
+    node.routes.push(route);
+  }
+
+  return root;
+}
+
+function applyStageVariables(value: string, stage?: ApiStage) {
+  return value.replace(/\$\{stageVariables\.([\w-]+)\}/g, (match, name: string) => stage?.variables?.[name] ?? match);
+}
+
+// Short description of where a route sends requests in the given stage
+function describeIntegration(integration: NonNullable<ApiRoute['integration']>, stage?: ApiStage) {
+  const target = applyStageVariables(integration.target || integration.uri || '', stage);
+
+  if (target.includes(':function:')) {
+    return `Lambda ${target.split(':function:')[1]}`;
+  }
+  if (target.includes(':elasticloadbalancing:')) {
+    // loadbalancer/<app|net>/<name>/<id> or listener/<app|net>/<name>/<id>/<id>
+    return `VPC link → ${target.split('/')[2]}`;
+  }
+  return [integration.type, target].filter(Boolean).join(' ');
+}
+
+const RouteTreeNode: React.FC<{ node: RouteNode; stage?: ApiStage }> = ({ node, stage }) => (
+  <li>
+    <span className="font-mono text-gray-900">{node.segment}</span>
+    {node.routes.length > 0 && (
+      <ul className="ml-3 space-y-0.5">
+        {node.routes.map(route => (
+          <li key={`${route.method}-${route.path}`} className="flex items-center min-w-0">
+            {route.method && (
+              <span className={`px-1 rounded mr-1 flex-shrink-0 ${methodColors[route.method] || 'bg-gray-100 text-gray-700'}`}>
+                {route.method}
+              </span>
+            )}
+            <span className="text-gray-500 truncate" title={route.integration?.uri}>
+              {route.integration ? describeIntegration(route.integration, stage) : 'No integration'}
+            </span>
+            {route.authorizer && (
+              <span className="flex items-center text-gray-400 ml-2 flex-shrink-0" title={route.authorizer.target}>
+                <Lock className="w-3 h-3 mr-0.5" />
+                {route.authorizer.name || route.authorizer.type}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    )}
+    {node.children.size > 0 && (
+      <ul className="ml-3">
+        {Array.from(node.children.values())
+          .sort((a, b) => a.segment.localeCompare(b.segment))
+          .map(child => <RouteTreeNode key={child.segment} node={child} stage={stage} />)}
+      </ul>
+    )}
+  </li>
+);
+
+interface ApiRouteTreeProps {
+  routes: ApiRoute[];
+  stages: ApiStage[];
+}
+
+export const ApiRouteTree: React.FC<ApiRouteTreeProps> = ({ routes, stages }) => {
+  const [expanded, setExpanded] = React.useState(false);
+  const [stageName, setStageName] = React.useState(stages[0]?.name);
+  const stage = stages.find(s => s.name === stageName);
+  const tree = React.useMemo(() => buildRouteTree(routes), [routes]);
+  const Chevron = expanded ? ChevronDown : ChevronRight;
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center text-gray-500 hover:text-gray-700"
+      >
+        <Chevron className="w-4 h-4 mr-1" />
+        Routes ({routes.length})
+      </button>
+      {expanded && (
+        <div className="mt-2 space-y-2">
+          {stages.length > 1 && (
+            <div className="flex flex-wrap gap-1">
+              {stages.map(s => (
+                <button
+                  key={s.name}
+                  onClick={() => setStageName(s.name)}
+                  className={`px-2 py-0.5 text-xs rounded ${
+                    s.name === stageName ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {s.name}
+                </button>
+              ))}
+            </div>
+          )}
+          {stage?.invokeUrl && (
+            <div className="text-xs text-gray-500 truncate" title={stage.invokeUrl}>{stage.invokeUrl}</div>
+          )}
+          <ul className="p-2 bg-gray-50 rounded text-xs max-h-64 overflow-y-auto">
+            <RouteTreeNode node={tree} stage={stage} />
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
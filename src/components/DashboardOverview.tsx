@@ -5,9 +5,13 @@ import { resourceTypeIcons } from '../App';
 
 interface DashboardOverviewProps {
   resources: AWSResource[];
+  // Some collectors failed, so the totals undercount
+  partial?: boolean;
 }
 
-export const DashboardOverview: React.FC<DashboardOverviewProps> = ({ resources }) => {
+export const DashboardOverview: React.FC<DashboardOverviewProps> = ({ resources, partial = false }) => {
+  const partialMarker = partial ? <span className="text-yellow-500" title="Some collectors failed, totals are partial">*</span> : null;
+
   const stats = React.useMemo(() => {
     const applications = new Set(resources.map(r => r.application));
     const regions = new Set(resources.map(r => r.region));
@@ -41,6 +45,11 @@ export const DashboardOverview: React.FC<DashboardOverviewProps> = ({ resources
           <div className="flex items-center space-x-2 mb-4">
             <Activity className="w-6 h-6 text-blue-500" />
             <h2 className="text-xl font-semibold text-gray-900">Infrastructure Overview</h2>
+            {partial && (
+              <span className="text-xs px-2 py-0.5 rounded-full border bg-yellow-50 border-yellow-200 text-yellow-700">
+                Partial data
+              </span>
+            )}
           </div>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <div className="bg-blue-50 rounded-lg p-4 border border-blue-100">
@@ -53,11 +62,11 @@ export const DashboardOverview: React.FC<DashboardOverviewProps> = ({ resources
             </div>
             <div className="bg-indigo-50 rounded-lg p-4 border border-indigo-100">
               <div className="text-indigo-600 text-sm font-medium">Total Resources</div>
-              <div className="mt-2 text-2xl font-bold text-indigo-700">{stats.totalResources}</div>
+              <div className="mt-2 text-2xl font-bold text-indigo-700">{stats.totalResources}{partialMarker}</div>
             </div>
             <div className="bg-emerald-50 rounded-lg p-4 border border-emerald-100">
               <div className="text-emerald-600 text-sm font-medium">Running Resources</div>
-              <div className="mt-2 text-2xl font-bold text-emerald-700">{stats.running}</div>
+              <div className="mt-2 text-2xl font-bold text-emerald-700">{stats.running}{partialMarker}</div>
             </div>
           </div>
         </div>
@@ -0,0 +1,176 @@
+import React from 'react';
+import { ChevronDown, ChevronRight, AlertTriangle, Loader2, RefreshCw } from 'lucide-react';
+import { fetchValidated } from '../api/client';
+import { ecsServiceTasksResponseSchema } from '../../shared/apiContract.js';
+import { AWSResource, EcsServiceTasks, EcsTask } from '../types/aws';
+
+function formatPorts(portMappings: EcsServiceTasks['taskDefinition']['containers'][number]['portMappings']) {
+  return portMappings
+    .map(mapping => `${mapping.containerPort}${mapping.hostPort && mapping.hostPort !== mapping.containerPort ? `→${mapping.hostPort}` : ''}/${mapping.protocol || 'tcp'}`)
+    .join(', ');
+}
+
+const TaskRow: React.FC<{ task: EcsTask; currentRevision: number }> = ({ task, currentRevision }) => (
+  <li className="text-xs border-b border-gray-100 pb-1 last:border-0">
+    <div className="flex justify-between">
+      <span className="text-gray-900 font-mono" title={task.taskArn}>{task.taskId.slice(0, 8)}</span>
+      <span className="text-gray-500">
+        <span className={task.taskDefinitionRevision === currentRevision ? '' : 'text-yellow-600'}>
+          rev {task.taskDefinitionRevision}
+        </span>
+        {' · '}{task.lastStatus?.toLowerCase()}
+        {task.healthStatus && task.healthStatus !== 'UNKNOWN' && ` · ${task.healthStatus.toLowerCase()}`}
+      </span>
+    </div>
+    {task.stoppedReason && (
+      <div className={task.outOfMemory ? 'text-red-700' : 'text-gray-600'}>
+        {task.stoppedAt && <span className="text-gray-400">{new Date(task.stoppedAt).toLocaleTimeString()} </span>}
+        {task.stoppedReason}
+      </div>
+    )}
+    {task.containers
+      .filter(container => container.reason || (container.exitCode !== undefined && container.exitCode !== 0))
+      .map(container => (
+        <div key={container.name} className="text-gray-500 ml-2">
+          {container.name}: {container.reason || `exited with code ${container.exitCode}`}
+        </div>
+      ))}
+  </li>
+);
+
+interface EcsTaskDrillDownProps {
+  resource: AWSResource;
+}
+
+// Tasks and containers of an ECS service, fetched when first expanded
+export const EcsTaskDrillDown: React.FC<EcsTaskDrillDownProps> = ({ resource }) => {
+  const [expanded, setExpanded] = React.useState(false);
+  const [data, setData] = React.useState<EcsServiceTasks | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const fetchTasks = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setData(await fetchValidated(
+        `/api/resources/${encodeURIComponent(resource.id)}/tasks`,
+        ecsServiceTasksResponseSchema
+      ));
+    } catch (err) {
+      console.error('Error fetching ECS tasks:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch ECS tasks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = () => {
+    if (!expanded && !data && !loading) fetchTasks();
+    setExpanded(!expanded);
+  };
+
+  const Chevron = expanded ? ChevronDown : ChevronRight;
+  const outOfMemoryTasks = data?.stoppedTasks.filter(task => task.outOfMemory) || [];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <button onClick={toggle} className="flex items-center text-gray-500 hover:text-gray-700">
+          <Chevron className="w-4 h-4 mr-1" />
+          Tasks & Containers
+        </button>
+        {expanded && (
+          <button
+            onClick={fetchTasks}
+            disabled={loading}
+            className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            title="Reload tasks"
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-2 space-y-3">
+          {error && (
+            <div className="p-2 bg-red-50 text-red-700 text-xs rounded">{error}</div>
+          )}
+          {loading && !data && (
+            <div className="text-xs text-gray-500">Loading tasks...</div>
+          )}
+
+          {data && (
+            <>
+              {outOfMemoryTasks.length > 0 && (
+                <div className="flex items-start p-2 bg-red-50 border border-red-200 rounded text-xs text-red-700">
+                  <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                  <span>
+                    {outOfMemoryTasks.length} of {data.stoppedTasks.length} recently stopped tasks were killed for running out of memory
+                    {data.taskDefinition.memory && ` (task memory ${data.taskDefinition.memory} MiB)`}
+                  </span>
+                </div>
+              )}
+
+              <div>
+                <div className="flex justify-between text-xs">
+                  <span className="text-gray-500">Task Definition:</span>
+                  <span className="text-gray-900" title={data.taskDefinition.arn}>
+                    {data.taskDefinition.family}:{data.taskDefinition.revision}
+                    {data.taskDefinition.cpu && ` · ${data.taskDefinition.cpu} CPU`}
+                    {data.taskDefinition.memory && ` · ${data.taskDefinition.memory} MiB`}
+                  </span>
+                </div>
+                <ul className="mt-1 space-y-1">
+                  {data.taskDefinition.containers.map(container => (
+                    <li key={container.name} className="text-xs p-1.5 bg-gray-50 rounded">
+                      <div className="flex justify-between">
+                        <span className="text-gray-900 font-medium">{container.name}</span>
+                        <span className="text-gray-500">
+                          {container.cpu !== undefined && `${container.cpu} CPU`}
+                          {(container.memory ?? container.memoryReservation) !== undefined &&
+                            ` · ${container.memory ?? container.memoryReservation} MiB`}
+                        </span>
+                      </div>
+                      <div className="text-gray-500 truncate" title={container.image}>{container.image}</div>
+                      {container.portMappings.length > 0 && (
+                        <div className="text-gray-500">Ports: {formatPorts(container.portMappings)}</div>
+                      )}
+                      {container.healthCheck && (
+                        <div className="text-gray-500 truncate" title={container.healthCheck.command.join(' ')}>
+                          Health check: {container.healthCheck.command.slice(1).join(' ')}
+                          {container.healthCheck.interval !== undefined && ` every ${container.healthCheck.interval}s`}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div>
+                <div className="text-xs text-gray-500 mb-1">Running Tasks ({data.runningTasks.length}):</div>
+                <ul className="space-y-1">
+                  {data.runningTasks.map(task => (
+                    <TaskRow key={task.taskArn} task={task} currentRevision={data.taskDefinition.revision} />
+                  ))}
+                </ul>
+              </div>
+
+              {data.stoppedTasks.length > 0 && (
+                <div>
+                  <div className="text-xs text-gray-500 mb-1">Stopped Tasks ({data.stoppedTasks.length}):</div>
+                  <ul className="space-y-1 max-h-48 overflow-y-auto">
+                    {data.stoppedTasks.map(task => (
+                      <TaskRow key={task.taskArn} task={task} currentRevision={data.taskDefinition.revision} />
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
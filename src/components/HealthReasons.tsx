@@ -0,0 +1,30 @@
+import React from 'react';
+import { AlertTriangle, XCircle } from 'lucide-react';
+import { HealthReason } from '../types/aws';
+
+const severityIcons: Record<HealthReason['severity'], { icon: React.ElementType; className: string }> = {
+  error: { icon: XCircle, className: 'text-red-500' },
+  warning: { icon: AlertTriangle, className: 'text-yellow-500' },
+};
+
+// Health rules that fired, errors first
+export const HealthReasons: React.FC<{ reasons: HealthReason[] }> = ({ reasons }) => {
+  const sorted = [...reasons].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {sorted.map((reason, index) => {
+        const { icon: Icon, className } = severityIcons[reason.severity];
+        return (
+          <li key={`${reason.rule}-${reason.resourceId}-${index}`} className="flex items-start min-w-0" title={`Health rule: ${reason.rule}`}>
+            <Icon className={`w-3.5 h-3.5 mr-1.5 mt-px flex-shrink-0 ${className}`} />
+            <span className="text-gray-700">
+              {reason.resourceName && <span className="font-medium text-gray-900">{reason.resourceName}: </span>}
+              {reason.explanation}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -0,0 +1,180 @@
+import React from 'react';
+import { fetchValidated } from '../api/client';
+import { metricPeriodSchema, resourceMetricsResponseSchema } from '../../shared/apiContract.js';
+import { AWSResource, MetricPeriod, ResourceMetrics } from '../types/aws';
+
+type Metric = ResourceMetrics['metrics'][number];
+
+const SPARKLINE_WIDTH = 80;
+const SPARKLINE_HEIGHT = 20;
+
+const compactNumber = new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 });
+
+function formatMetricValue(value: number, unit: string) {
+  switch (unit) {
+    case 'Percent':
+      return `${value.toFixed(1)}%`;
+    case 'Milliseconds':
+      return value >= 1000 ? `${(value / 1000).toFixed(1)}s` : `${Math.round(value)}ms`;
+    case 'Seconds':
+      if (value < 1) return `${Math.round(value * 1000)}ms`;
+      return value >= 120 ? `${Math.round(value / 60)}m` : `${value.toFixed(1)}s`;
+    default:
+      return compactNumber.format(value);
+  }
+}
+
+// Sums are shown as the total over the window, other statistics as their latest value
+function summarizeMetric(metric: Metric) {
+  if (metric.values.length === 0) return null;
+  return metric.stat === 'Sum'
+    ? metric.values.reduce((sum, value) => sum + value, 0)
+    : metric.values[metric.values.length - 1];
+}
+
+interface SparklineProps {
+  metric: Metric;
+  startTime: string | null;
+  endTime: string | null;
+  periodSeconds: number;
+}
+
+// Points are placed by timestamp across the window, and the line breaks where
+// CloudWatch has no datapoint, so gaps stay visible
+const Sparkline: React.FC<SparklineProps> = ({ metric, startTime, endTime, periodSeconds }) => {
+  const { timestamps, values } = metric;
+  if (values.length < 2 || !startTime || !endTime) {
+    return <div style={{ width: SPARKLINE_WIDTH }} className="text-center text-gray-300">—</div>;
+  }
+
+  const start = Date.parse(startTime);
+  const duration = Date.parse(endTime) - start || 1;
+  const max = Math.max(...values);
+  const min = Math.min(...values);
+  const range = max - min || 1;
+
+  const segments: { x: number; y: number }[][] = [];
+  let previousTime: number | null = null;
+  values.forEach((value, index) => {
+    const time = Date.parse(timestamps[index]);
+    if (previousTime === null || time - previousTime > periodSeconds * 1000) segments.push([]);
+    previousTime = time;
+    segments[segments.length - 1].push({
+      x: ((time - start) / duration) * SPARKLINE_WIDTH,
+      y: SPARKLINE_HEIGHT - 1 - ((value - min) / range) * (SPARKLINE_HEIGHT - 2)
+    });
+  });
+
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="text-blue-500 flex-shrink-0">
+      {segments.map((points, index) =>
+        points.length === 1 ? (
+          <circle key={index} cx={points[0].x} cy={points[0].y} r={1} fill="currentColor" />
+        ) : (
+          <polyline
+            key={index}
+            points={points.map(({ x, y }) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ')}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth={1.5}
+          />
+        )
+      )}
+    </svg>
+  );
+};
+
+interface MetricSparklinesProps {
+  resource: AWSResource;
+}
+
+// CloudWatch sparklines for a resource, fetched once its card is on screen
+export const MetricSparklines: React.FC<MetricSparklinesProps> = ({ resource }) => {
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = React.useState(false);
+  const [period, setPeriod] = React.useState<MetricPeriod>('3h');
+  const [data, setData] = React.useState<ResourceMetrics | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  React.useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    setError(null);
+    fetchValidated(
+      `/api/resources/${encodeURIComponent(resource.id)}/metrics?period=${period}`,
+      resourceMetricsResponseSchema
+    )
+      .then(metrics => {
+        if (!cancelled) setData(metrics);
+      })
+      .catch(err => {
+        console.error('Error fetching resource metrics:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch metrics');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, period, resource.id]);
+
+  // Resources without default metrics leave no trace on the card
+  if (data && data.metrics.length === 0) return null;
+
+  return (
+    <div ref={containerRef} className="text-xs">
+      <div className="flex justify-between items-center mb-1">
+        <span className="text-gray-500">Metrics:</span>
+        <select
+          value={period}
+          onChange={event => setPeriod(event.target.value as MetricPeriod)}
+          className="text-xs text-gray-600 bg-transparent border-none p-0 focus:ring-0"
+        >
+          {metricPeriodSchema.options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </div>
+      {error && <div className="text-red-600 truncate" title={error}>{error}</div>}
+      {!data && !error && <div className="text-gray-400">Loading metrics...</div>}
+      {data && (
+        <ul className="space-y-1">
+          {data.metrics.map(metric => {
+            const summary = summarizeMetric(metric);
+            return (
+              <li key={metric.id} className="flex items-center justify-between">
+                <span className="text-gray-500 w-24 truncate">{metric.label}</span>
+                <Sparkline
+                  metric={metric}
+                  startTime={data.startTime}
+                  endTime={data.endTime}
+                  periodSeconds={data.periodSeconds}
+                />
+                <span
+                  className="text-gray-900 w-14 text-right"
+                  title={metric.stat === 'Sum' ? `Total over ${data.period}` : `Latest ${metric.stat.toLowerCase()}`}
+                >
+                  {summary === null ? '—' : formatMetricValue(summary, metric.unit)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
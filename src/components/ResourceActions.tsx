@@ -0,0 +1,182 @@
+import React from 'react';
+import { Play, X } from 'lucide-react';
+import { fetchValidated } from '../api/client';
+import { actionResultResponseSchema } from '../../shared/apiContract.js';
+import { AWSResource, ResourceAction } from '../types/aws';
+
+// Parameters the dialog has fields for. Actions taking others are run from
+// the views that choose them, e.g. the execution to redrive.
+const FORM_PARAMETERS = ['desiredCount', 'input'];
+
+interface ActionDialogProps {
+  resource: AWSResource;
+  action: ResourceAction;
+  // Parameters chosen before opening the dialog, with what they refer to
+  fixedParams?: Record<string, unknown>;
+  subject?: string;
+  // Called after the action ran for real
+  onRun?: () => void;
+  onClose: () => void;
+}
+
+// Confirmation for an action. The resource name has to be typed before the
+// action runs for real, a dry run checks it without changing anything.
+export const ActionDialog: React.FC<ActionDialogProps> = ({ resource, action, fixedParams, subject, onRun, onClose }) => {
+  const [desiredCount, setDesiredCount] = React.useState(String(resource.details?.desiredCount ?? 0));
+  const [input, setInput] = React.useState('{}');
+  const [confirmation, setConfirmation] = React.useState('');
+  const [running, setRunning] = React.useState(false);
+  const [result, setResult] = React.useState<{ dryRun: boolean; description: string; audited: boolean } | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const confirmed = confirmation === resource.name;
+
+  const run = async (dryRun: boolean) => {
+    const params: Record<string, unknown> = { ...fixedParams };
+    if (action.parameters.includes('desiredCount')) {
+      params.desiredCount = Number(desiredCount);
+    }
+    if (action.parameters.includes('input')) {
+      params.input = input;
+    }
+
+    try {
+      setRunning(true);
+      setError(null);
+      setResult(null);
+      const response = await fetchValidated(
+        `/api/resources/${encodeURIComponent(resource.id)}/actions/${action.name}`,
+        actionResultResponseSchema,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ params, dryRun, confirm: dryRun ? undefined : confirmation })
+        }
+      );
+      setResult(response);
+      if (!dryRun) onRun?.();
+    } catch (err) {
+      console.error(`Error running action ${action.name}:`, err);
+      setError(err instanceof Error ? err.message : 'Failed to run action');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-5 text-sm" onClick={event => event.stopPropagation()}>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-lg font-medium text-gray-900">{action.label}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-gray-600 mb-4">
+          {resource.type.toUpperCase()} <span className="font-medium text-gray-900">{resource.name}</span>
+          {' '}in {resource.accountName || resource.accountId} / {resource.region}
+          {subject && <span className="block mt-1 text-gray-900 break-all">{subject}</span>}
+        </p>
+
+        {action.parameters.includes('desiredCount') && (
+          <label className="block mb-4">
+            <span className="text-gray-500">Desired count</span>
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={desiredCount}
+              onChange={event => setDesiredCount(event.target.value)}
+              className="mt-1 block w-full px-3 py-1.5 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        )}
+
+        {action.parameters.includes('input') && (
+          <label className="block mb-4">
+            <span className="text-gray-500">Input (JSON)</span>
+            <textarea
+              value={input}
+              onChange={event => setInput(event.target.value)}
+              rows={6}
+              spellCheck={false}
+              className="mt-1 block w-full px-3 py-1.5 border border-gray-300 rounded font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+        )}
+
+        <label className="block mb-4">
+          <span className="text-gray-500">
+            Type <span className="font-mono text-gray-900">{resource.name}</span> to confirm
+          </span>
+          <input
+            type="text"
+            value={confirmation}
+            onChange={event => setConfirmation(event.target.value)}
+            className="mt-1 block w-full px-3 py-1.5 border border-gray-300 rounded font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+            autoFocus
+          />
+        </label>
+
+        {result && (
+          <div className="mb-4 p-2 rounded bg-green-50 border border-green-200 text-green-700">
+            {result.dryRun ? 'Dry run passed: ' : 'Done: '}{result.description}
+          </div>
+        )}
+        {result && !result.audited && (
+          <div className="mb-4 p-2 rounded bg-yellow-50 border border-yellow-200 text-yellow-800">
+            This attempt could not be recorded in the audit log
+          </div>
+        )}
+        {error && (
+          <div className="mb-4 p-2 rounded bg-red-50 border border-red-200 text-red-700 whitespace-pre-line">{error}</div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={() => run(true)}
+            disabled={running}
+            className="px-3 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Dry run
+          </button>
+          <button
+            onClick={() => run(false)}
+            disabled={running || !confirmed}
+            className="px-3 py-1.5 rounded bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+          >
+            {running ? 'Running...' : action.label}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Buttons for the actions a resource offers
+export const ResourceActions: React.FC<{ resource: AWSResource }> = ({ resource }) => {
+  const [activeAction, setActiveAction] = React.useState<ResourceAction | null>(null);
+
+  const actions = (resource.actions || [])
+    .filter(action => action.parameters.every(parameter => FORM_PARAMETERS.includes(parameter)));
+  if (actions.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {actions.map(action => (
+        <button
+          key={action.name}
+          onClick={() => setActiveAction(action)}
+          className="flex items-center px-2 py-1 text-xs rounded border border-gray-300 text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <Play className="w-3 h-3 mr-1" />
+          {action.label}
+        </button>
+      ))}
+      {activeAction && (
+        <ActionDialog resource={resource} action={activeAction} onClose={() => setActiveAction(null)} />
+      )}
+    </div>
+  );
+};
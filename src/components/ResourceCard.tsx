@@ -12,9 +12,24 @@ import {
   Network,
   Calendar,
   BarChart3,
-  Globe
+  Globe,
+  ExternalLink,
+  Archive,
+  Table,
+  Inbox,
+  Megaphone,
+  AlertTriangle,
+  BellRing
 } from 'lucide-react';
 import { AWSResource } from '../types/aws';
+import { StateMachineFlow } from './StateMachineFlow';
+import { EcsTaskDrillDown } from './EcsTaskDrillDown';
+import { StepFunctionExecutions } from './StepFunctionExecutions';
+import { ApiRouteTree } from './ApiRouteTree';
+import { MetricSparklines } from './MetricSparklines';
+import { AlarmList } from './AlarmList';
+import { HealthReasons } from './HealthReasons';
+import { ResourceActions } from './ResourceActions';
 
 const resourceIcons = {
   ecs: Ship,
@@ -27,6 +42,11 @@ const resourceIcons = {
   eventbridge: Calendar,
   alb: Network,
   nlb: BarChart3,
+  s3: Archive,
+  dynamodb: Table,
+  sqs: Inbox,
+  sns: Megaphone,
+  external: ExternalLink,
 };
 
 const statusColors = {
@@ -43,6 +63,11 @@ const statusBgColors = {
   terminated: 'bg-gray-50 border-gray-200',
 };
 
+const healthBgColors = {
+  warning: 'bg-yellow-50 border-yellow-200',
+  error: 'bg-red-50 border-red-200',
+};
+
 const statusIcons = {
   running: CheckCircle2,
   stopped: Circle,
@@ -50,6 +75,43 @@ const statusIcons = {
   terminated: AlertCircle,
 };
 
+function formatBytes(bytes: number) {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+type EventSourceMapping = NonNullable<NonNullable<AWSResource['details']>['eventSourceMappings']>[number];
+
+// Results Lambda reports for mappings that are processing normally
+const HEALTHY_PROCESSING_RESULTS = ['OK', 'No records processed'];
+
+// Event source mappings that are switched off or failing to process records
+function getEventSourceMappingWarning(mapping: EventSourceMapping) {
+  const source = mapping.eventSourceArn?.split(/[:/]/).pop() || mapping.eventType;
+  if (mapping.state === 'Disabled') {
+    return `${mapping.eventType} mapping from ${source} is disabled${mapping.stateTransitionReason ? ` (${mapping.stateTransitionReason})` : ''}`;
+  }
+  if (mapping.lastProcessingResult && !HEALTHY_PROCESSING_RESULTS.includes(mapping.lastProcessingResult)) {
+    return `${mapping.eventType} mapping from ${source}: ${mapping.lastProcessingResult}`;
+  }
+  return null;
+}
+
+type TargetGroup = NonNullable<NonNullable<AWSResource['details']>['targetGroups']>[number];
+
+// Target health states that mean the target isn't serving traffic
+const UNHEALTHY_TARGET_STATES = ['unhealthy', 'unavailable'];
+
+function describeListenerRule(rule: TargetGroup['listenerRules'][number]) {
+  return `${rule.listener} ${rule.isDefault ? 'default' : rule.conditions.join(' and ')}`;
+}
+
 interface ResourceCardProps {
   resource: AWSResource;
 }
@@ -58,6 +120,11 @@ export const ResourceCard: React.FC<ResourceCardProps> = ({ resource }) => {
   // Safely get the icon, with a fallback if the resource type is not found
   const Icon = resourceIcons[resource.type] || Server;
   const StatusIcon = statusIcons[resource.status];
+  const firingAlarms = resource.alarms?.filter(alarm => alarm.state === 'ALARM') || [];
+  // Health rules can flag a resource whatever its status
+  const cardClasses = resource.health && resource.health.status !== 'healthy'
+    ? healthBgColors[resource.health.status]
+    : statusBgColors[resource.status];
 
   const renderDetails = () => {
     switch (resource.type) {
@@ -130,6 +197,9 @@ export const ResourceCard: React.FC<ResourceCardProps> = ({ resource }) => {
                 </div>
               </div>
             )}
+
+            {/* Tasks and Containers */}
+            {resource.details?.taskDefinition && <EcsTaskDrillDown resource={resource} />}
           </div>
         );
 
@@ -149,21 +219,77 @@ export const ResourceCard: React.FC<ResourceCardProps> = ({ resource }) => {
           </div>
         );
 
-      case 'stepfunctions':
+      case 'lambda': {
+        const mappings = resource.details?.eventSourceMappings || [];
+        if (mappings.length === 0) return null;
+
+        const warnings = mappings
+          .map(getEventSourceMappingWarning)
+          .filter((warning): warning is string => warning !== null);
+
         return (
           <div className="space-y-2 text-sm">
-            <div className="flex justify-between">
-              <span className="text-gray-500">Executions:</span>
-              <span className="text-gray-900">
-                {resource.details?.executionsSucceeded} succeeded / {resource.details?.executionsFailed} failed
-              </span>
+            <div>
+              <span className="text-gray-500">Event Sources:</span>
+              <ul className="mt-1 space-y-1">
+                {mappings.map(mapping => (
+                  <li key={mapping.uuid} className="flex justify-between text-xs">
+                    <span className="text-gray-900 truncate mr-2" title={mapping.eventSourceArn}>
+                      {mapping.eventSourceArn?.split(/[:/]/).pop() || mapping.eventType}
+                    </span>
+                    <span className={mapping.state === 'Enabled' ? 'text-gray-500' : 'text-yellow-600'}>
+                      {mapping.eventType} · {mapping.state}
+                      {mapping.batchSize !== undefined && ` · batch ${mapping.batchSize}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
             </div>
+            {warnings.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded p-2 text-xs text-yellow-800 space-y-1">
+                {warnings.map(warning => (
+                  <div key={warning} className="flex items-start">
+                    <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                    <span>{warning}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      }
+
+      case 'stepfunctions':
+        return (
+          <div className="space-y-2 text-sm">
+            {resource.details?.executionsStarted !== undefined && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Executions:</span>
+                <span className="text-gray-900">
+                  {resource.details.executionsSucceeded} succeeded / {resource.details.executionsFailed} failed
+                </span>
+              </div>
+            )}
+            {resource.details?.stateMachineType && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Type:</span>
+                <span className="text-gray-900">{resource.details.stateMachineType.toLowerCase()}</span>
+              </div>
+            )}
+            {resource.details?.workflow && <StateMachineFlow workflow={resource.details.workflow} />}
+            {resource.details?.stateMachineType !== 'EXPRESS' && <StepFunctionExecutions resource={resource} />}
           </div>
         );
 
       case 'apigateway':
         return (
           <div className="space-y-2 text-sm">
+            {resource.details?.protocolType && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Protocol:</span>
+                <span className="text-gray-900">{resource.details.protocolType}</span>
+              </div>
+            )}
             <div className="flex justify-between">
               <span className="text-gray-500">Stage:</span>
               <span className="text-gray-900">{resource.details?.stage}</span>
@@ -174,6 +300,9 @@ export const ResourceCard: React.FC<ResourceCardProps> = ({ resource }) => {
                 <span className="text-gray-900 truncate">{resource.details.endpoint}</span>
               </div>
             )}
+            {resource.details?.routes && resource.details.routes.length > 0 && (
+              <ApiRouteTree routes={resource.details.routes} stages={resource.details.stages || []} />
+            )}
           </div>
         );
 
@@ -209,6 +338,202 @@ export const ResourceCard: React.FC<ResourceCardProps> = ({ resource }) => {
                 <span className="text-gray-900 truncate">{resource.details.dnsName}</span>
               </div>
             )}
+            {resource.details?.targetGroups && resource.details.targetGroups.length > 0 && (
+              <div>
+                <span className="text-gray-500">Target Groups:</span>
+                <ul className="mt-1 space-y-1">
+                  {resource.details.targetGroups.map(targetGroup => {
+                    const healthyCount = targetGroup.targets.filter(target => target.state === 'healthy').length;
+                    const notHealthy = targetGroup.targets.filter(target => target.state !== 'healthy');
+                    return (
+                      <li key={targetGroup.arn} className="text-xs">
+                        <div className="flex justify-between">
+                          <span className="text-gray-900 truncate mr-2">{targetGroup.name}</span>
+                          <span className={
+                            notHealthy.some(target => UNHEALTHY_TARGET_STATES.includes(target.state || ''))
+                              ? 'text-red-600'
+                              : notHealthy.length > 0 ? 'text-yellow-600' : 'text-gray-500'
+                          }>
+                            {targetGroup.protocol}:{targetGroup.port} · {healthyCount}/{targetGroup.targets.length} healthy
+                          </span>
+                        </div>
+                        {targetGroup.listenerRules.map(rule => (
+                          <div key={`${rule.listener}-${rule.priority}`} className="text-gray-500 ml-2 truncate">
+                            {describeListenerRule(rule)}
+                          </div>
+                        ))}
+                        {notHealthy.map(target => (
+                          <div
+                            key={`${target.id}-${target.port}`}
+                            className={`ml-2 truncate ${UNHEALTHY_TARGET_STATES.includes(target.state || '') ? 'text-red-600' : 'text-yellow-600'}`}
+                            title={target.description}
+                          >
+                            {target.id}{target.port !== undefined && `:${target.port}`} {target.state}
+                            {target.reason && ` (${target.reason})`}
+                          </div>
+                        ))}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+          </div>
+        );
+
+      case 's3': {
+        const publicAccessBlock = resource.details?.publicAccessBlock;
+        const publicAccessBlocked = publicAccessBlock && Object.values(publicAccessBlock).every(Boolean);
+        return (
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Versioning:</span>
+              <span className="text-gray-900">{resource.details?.versioning}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Encryption:</span>
+              <span className="text-gray-900" title={resource.details?.kmsKeyId}>
+                {resource.details?.encryption}
+              </span>
+            </div>
+            {publicAccessBlock && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Public Access:</span>
+                <span
+                  className={publicAccessBlocked ? 'text-green-600' : 'text-yellow-600'}
+                  title={Object.entries(publicAccessBlock)
+                    .map(([setting, enabled]) => `${setting}: ${enabled ? 'on' : 'off'}`)
+                    .join('\n')}
+                >
+                  {publicAccessBlocked ? 'Blocked' : 'Not fully blocked'}
+                </span>
+              </div>
+            )}
+          </div>
+        );
+      }
+
+      case 'dynamodb':
+        return (
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Billing:</span>
+              <span className="text-gray-900">
+                {resource.details?.billingMode === 'PAY_PER_REQUEST' ? 'On-demand' : 'Provisioned'}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Items:</span>
+              <span className="text-gray-900">
+                {resource.details?.itemCount?.toLocaleString()}
+                {resource.details?.tableSizeBytes !== undefined && ` (${formatBytes(resource.details.tableSizeBytes)})`}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-500">Stream:</span>
+              <span className="text-gray-900">
+                {resource.details?.streamEnabled ? resource.details.streamViewType : 'Disabled'}
+              </span>
+            </div>
+            {resource.details?.globalSecondaryIndexes && resource.details.globalSecondaryIndexes.length > 0 && (
+              <div>
+                <span className="text-gray-500">Global Secondary Indexes:</span>
+                <ul className="mt-1 space-y-1">
+                  {resource.details.globalSecondaryIndexes.map(index => (
+                    <li key={index.name} className="flex justify-between text-xs">
+                      <span className="text-gray-900 truncate">{index.name}</span>
+                      <span className={index.status === 'ACTIVE' ? 'text-gray-500' : 'text-yellow-600'}>
+                        {index.status}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        );
+
+      case 'sqs':
+        return (
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-500">Messages:</span>
+              <span className="text-gray-900">
+                {resource.details?.messagesAvailable} available / {resource.details?.messagesInFlight} in flight
+              </span>
+            </div>
+            {resource.details?.fifo && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Ordering:</span>
+                <span className="text-gray-900">FIFO</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-gray-500">Dead-letter Queue:</span>
+              <span className="text-gray-900 truncate ml-2" title={resource.details?.deadLetterQueue?.deadLetterTargetArn}>
+                {resource.details?.deadLetterQueue?.deadLetterTargetArn
+                  ? `${resource.details.deadLetterQueue.deadLetterTargetArn.split(':').pop()} after ${resource.details.deadLetterQueue.maxReceiveCount} receives`
+                  : 'None'}
+              </span>
+            </div>
+          </div>
+        );
+
+      case 'sns':
+        return (
+          <div className="space-y-2 text-sm">
+            {resource.details?.displayName && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Display Name:</span>
+                <span className="text-gray-900">{resource.details.displayName}</span>
+              </div>
+            )}
+            <div>
+              <span className="text-gray-500">
+                Subscriptions ({resource.details?.subscriptions?.length ?? 0}):
+              </span>
+              {resource.details?.subscriptions && resource.details.subscriptions.length > 0 && (
+                <ul className="mt-1 space-y-1">
+                  {resource.details.subscriptions.map((subscription, index) => (
+                    <li key={subscription.subscriptionArn || index} className="flex justify-between text-xs">
+                      <span className="text-gray-500 mr-2">{subscription.protocol}</span>
+                      <span className="text-gray-900 truncate" title={subscription.endpoint}>
+                        {subscription.endpoint?.split(/[:/]/).pop()}
+                        {subscription.pendingConfirmation && ' (pending)'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        );
+
+      case 'external':
+        return (
+          <div className="space-y-2 text-sm">
+            {resource.details?.provider && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">Provider:</span>
+                <span className="text-gray-900">{resource.details.provider}</span>
+              </div>
+            )}
+            {resource.details?.url && (
+              <div className="flex justify-between">
+                <span className="text-gray-500">URL:</span>
+                <a
+                  href={resource.details.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:text-blue-800 truncate"
+                >
+                  {resource.details.url}
+                </a>
+              </div>
+            )}
+            {resource.details?.description && (
+              <p className="text-gray-600">{resource.details.description}</p>
+            )}
           </div>
         );
 
@@ -218,7 +543,7 @@ export const ResourceCard: React.FC<ResourceCardProps> = ({ resource }) => {
   };
 
   return (
-    <div className={`bg-white rounded-lg border ${statusBgColors[resource.status]} p-4 hover:shadow-md transition-shadow`}>
+    <div className={`bg-white rounded-lg border ${cardClasses} ${resource.source === 'custom' ? 'border-dashed' : ''} p-4 hover:shadow-md transition-shadow`}>
       <div className="flex items-start justify-between">
         <div className="flex items-center space-x-3">
           <div className="p-2 bg-white rounded-lg border border-current">
@@ -226,14 +551,50 @@ export const ResourceCard: React.FC<ResourceCardProps> = ({ resource }) => {
           </div>
           <div>
             <h3 className="font-medium text-gray-900">{resource.name}</h3>
-            <p className="text-sm text-gray-500">{resource.type.toUpperCase()}</p>
+            <p className="text-sm text-gray-500">
+              {resource.type.toUpperCase()}
+              {resource.source === 'custom' && resource.type !== 'external' && ' (declared)'}
+            </p>
           </div>
         </div>
-        <StatusIcon className={`w-5 h-5 ${statusColors[resource.status]}`} />
+        <div className="flex items-center space-x-1">
+          {firingAlarms.length > 0 && (
+            <span title={`${firingAlarms.length} alarm${firingAlarms.length === 1 ? '' : 's'} firing`}>
+              <BellRing className="w-5 h-5 text-red-500" />
+            </span>
+          )}
+          <StatusIcon className={`w-5 h-5 ${statusColors[resource.status]}`} />
+        </div>
       </div>
       
       <div className="mt-4 space-y-2">
+        {resource.health && resource.health.reasons.length > 0 && (
+          <HealthReasons reasons={resource.health.reasons} />
+        )}
         {renderDetails()}
+        <ResourceActions resource={resource} />
+        <MetricSparklines resource={resource} />
+
+        {resource.alarms && resource.alarms.length > 0 && (
+          <div className="text-sm">
+            <span className="text-gray-500">Alarms:</span>
+            <div className="mt-1">
+              <AlarmList items={resource.alarms.map(alarm => ({ alarm }))} />
+            </div>
+          </div>
+        )}
+        
+        {resource.groupedBy && (
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-500">Grouped By:</span>
+            <span
+              className="text-gray-900 truncate ml-2"
+              title={resource.groupedBy.rule !== null ? `Grouping rule ${resource.groupedBy.rule}` : undefined}
+            >
+              {resource.groupedBy.description}
+            </span>
+          </div>
+        )}
         
         <div className="flex justify-between text-sm">
           <span className="text-gray-500">Last Updated:</span>
@@ -15,6 +15,7 @@ interface D3Node extends d3.SimulationNodeDatum {
   application: string;
   status: string;
   isExternal: boolean;
+  isCustom: boolean;
   resource: AWSResource;
   x?: number;
   y?: number;
@@ -141,6 +142,7 @@ export const ResourceDependencyGraph: React.FC<ResourceDependencyGraphProps> = (
         application: resource.application,
         status: resource.status,
         isExternal: !resources.some(r => r.id === resource.id),
+        isCustom: resource.source === 'custom',
         resource,
         index: undefined,
         x: undefined,
@@ -203,6 +205,7 @@ export const ResourceDependencyGraph: React.FC<ResourceDependencyGraphProps> = (
         .join('line')
         .attr('stroke', d => getRelationshipColor(d.type))
         .attr('stroke-width', 2)
+        .attr('stroke-dasharray', d => d.relationship.source === 'custom' ? '6,4' : null)
         .attr('marker-end', d => `url(#arrow-${d.type})`);
 
       // Create nodes
@@ -245,15 +248,16 @@ export const ResourceDependencyGraph: React.FC<ResourceDependencyGraphProps> = (
       // Add circles for nodes
       node.append('circle')
         .attr('r', 20)
-        .attr('fill', d => d.isExternal ? '#f3f4f6' : getResourceStatusColor(d.status))
-        .attr('stroke', d => d.isExternal ? '#9ca3af' : '#ffffff')
+        .attr('fill', d => d.type === 'external' ? '#e0e7ff' : d.isExternal ? '#f3f4f6' : getResourceStatusColor(d.status))
+        .attr('stroke', d => d.isCustom ? '#6366f1' : d.isExternal ? '#9ca3af' : '#ffffff')
+        .attr('stroke-dasharray', d => d.isCustom ? '4,3' : null)
         .attr('stroke-width', 1.5);
 
       // Add icons for nodes (using text as placeholder)
       node.append('text')
         .attr('text-anchor', 'middle')
         .attr('dominant-baseline', 'central')
-        .attr('fill', d => d.isExternal ? '#4b5563' : '#ffffff')
+        .attr('fill', d => d.type === 'external' ? '#4338ca' : d.isExternal ? '#4b5563' : '#ffffff')
         .attr('font-family', 'sans-serif')
         .attr('font-size', '10px')
         .text(d => getResourceTypeIcon(d.type));
@@ -281,13 +285,60 @@ export const ResourceDependencyGraph: React.FC<ResourceDependencyGraphProps> = (
 
       // Add tooltips
       node.append('title')
-        .text(d => `${d.name} (${d.type})\nApplication: ${d.application}\nStatus: ${d.status}`);
+        .text(d => `${d.name} (${d.type})\nApplication: ${d.application}\nStatus: ${d.status}${d.isCustom ? '\nDeclared in custom resources file' : ''}`);
 
       link.append('title')
         .text(d => {
           const rel = d.relationship;
           let tooltip = `${rel.type.replace(/_/g, ' ')}`;
           
+          if (rel.source === 'custom') {
+            tooltip += ' (declared)';
+          }
+          
+          if (rel.metadata?.deliveryType) {
+            const { deliveryType, protocol, batchSize, state, maxReceiveCount, rawMessageDelivery, filterPolicy, lastProcessingResult } = rel.metadata;
+            tooltip += `\nDelivery: ${deliveryType}${protocol ? ` (${protocol})` : ''}`;
+            if (state) tooltip += `\n  State: ${state}`;
+            if (batchSize !== undefined) tooltip += `\n  Batch size: ${batchSize}`;
+            if (maxReceiveCount !== undefined) tooltip += `\n  Max receives: ${maxReceiveCount}`;
+            if (rawMessageDelivery) tooltip += `\n  Raw message delivery`;
+            if (filterPolicy) tooltip += `\n  Filter: ${filterPolicy}`;
+            if (lastProcessingResult) tooltip += `\n  Last result: ${lastProcessingResult}`;
+          }
+          
+          if (rel.metadata?.routes) {
+            tooltip += `\nRoutes: ${rel.metadata.routes.join(', ')}`;
+            if (rel.metadata.stages?.length) tooltip += `\n  Stages: ${rel.metadata.stages.join(', ')}`;
+            if (rel.metadata.integrationType) tooltip += `\n  Integration: ${rel.metadata.integrationType}${rel.metadata.connectionType === 'VPC_LINK' ? ' via VPC link' : ''}`;
+            if (rel.metadata.authorizer) tooltip += `\n  Authorizer: ${rel.metadata.authorizer}`;
+          }
+
+          if (rel.metadata?.targetGroups) {
+            const { targetGroups, targetHealth } = rel.metadata;
+            if (targetHealth) tooltip += `\nTargets: ${targetHealth.healthy}/${targetHealth.total} healthy`;
+            for (const targetGroup of targetGroups) {
+              tooltip += `\n  ${targetGroup.name} (${targetGroup.protocol}:${targetGroup.port})`;
+              for (const rule of targetGroup.listenerRules) {
+                tooltip += `\n    ${rule.listener} ${rule.isDefault ? 'default' : rule.conditions.join(' and ')}`;
+              }
+              for (const target of targetGroup.targets.filter(target => target.state !== 'healthy')) {
+                tooltip += `\n    ⚠ ${target.taskId ? `task ${target.taskId.slice(0, 8)}` : target.id}: ${target.state}${target.reason ? ` (${target.reason})` : ''}`;
+              }
+            }
+          }
+
+          if (rel.metadata?.stateNames) {
+            tooltip += `\nStates: ${rel.metadata.stateNames.join(', ')}`;
+            if (rel.metadata.integration) tooltip += `\n  Integration: ${rel.metadata.integration} (${rel.metadata.invocationPattern})`;
+          }
+
+          if (rel.metadata?.actions) {
+            tooltip += `\nIAM: ${rel.metadata.actions.join(', ')}`;
+            if (rel.metadata.policies) tooltip += `\n  Policies: ${rel.metadata.policies.join(', ')}`;
+            if (rel.metadata.overBroad) tooltip += `\n  ⚠ Over-broad grant (wildcard action or resource)`;
+          }
+          
           if (rel.metadata?.securityGroups) {
             const sg = rel.metadata.securityGroups;
             const rules = sg.rules[0]; // Get first rule for simplicity
@@ -339,7 +390,7 @@ export const ResourceDependencyGraph: React.FC<ResourceDependencyGraphProps> = (
 
       // Add legend
       const legend = svg.append('g')
-        .attr('transform', `translate(20, ${height - 100})`);
+        .attr('transform', `translate(20, ${height - 120})`);
 
       // Relationship types legend
       const legendRelationshipTypes = [
@@ -371,6 +422,25 @@ export const ResourceDependencyGraph: React.FC<ResourceDependencyGraphProps> = (
           .text(rel.label);
       });
 
+      const declaredLegend = legend.append('g')
+        .attr('transform', `translate(0, ${legendRelationshipTypes.length * 20})`);
+
+      declaredLegend.append('line')
+        .attr('x1', 0)
+        .attr('y1', 0)
+        .attr('x2', 30)
+        .attr('y2', 0)
+        .attr('stroke', '#6b7280')
+        .attr('stroke-width', 2)
+        .attr('stroke-dasharray', '6,4');
+
+      declaredLegend.append('text')
+        .attr('x', 40)
+        .attr('y', 4)
+        .attr('font-size', '10px')
+        .attr('fill', '#4b5563')
+        .text('Declared');
+
       // Helper functions
       function getResourceStatusColor(status: string) {
         const colors: Record<string, string> = {
@@ -406,7 +476,12 @@ export const ResourceDependencyGraph: React.FC<ResourceDependencyGraphProps> = (
           apigateway: 'A',
           eventbridge: 'V',
           alb: 'L',
-          nlb: 'N'
+          nlb: 'N',
+          s3: 'B',
+          dynamodb: 'T',
+          sqs: 'Q',
+          sns: 'P',
+          external: 'X'
         };
         return icons[type] || '?';
       }
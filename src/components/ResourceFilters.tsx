@@ -1,11 +1,14 @@
 import React from 'react';
-import { Search } from 'lucide-react';
+import { Search, Building2 } from 'lucide-react';
 import { AWSResource } from '../types/aws';
 import { resourceTypeIcons } from '../App';
 
 interface ResourceFiltersProps {
   selectedResourceTypes: Set<AWSResource['type']>;
   onResourceTypeToggle: (type: AWSResource['type']) => void;
+  accounts: Array<{ id: string; name: string }>;
+  selectedAccounts: Set<string>;
+  onAccountToggle: (accountId: string) => void;
   searchTerm: string;
   onSearchChange: (term: string) => void;
 }
@@ -13,6 +16,9 @@ interface ResourceFiltersProps {
 export const ResourceFilters: React.FC<ResourceFiltersProps> = ({
   selectedResourceTypes,
   onResourceTypeToggle,
+  accounts,
+  selectedAccounts,
+  onAccountToggle,
   searchTerm,
   onSearchChange,
 }) => {
@@ -54,6 +60,32 @@ export const ResourceFilters: React.FC<ResourceFiltersProps> = ({
         </div>
       </div>
 
+      {/* Accounts */}
+      {accounts.length > 1 && (
+        <div>
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Accounts</h2>
+          <div className="space-y-2">
+            {accounts.map(({ id, name }) => (
+              <button
+                key={id}
+                onClick={() => onAccountToggle(id)}
+                className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg transition-colors ${
+                  selectedAccounts.has(id)
+                    ? 'bg-blue-50 text-blue-700'
+                    : 'text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                <Building2 className="w-5 h-5" />
+                <div className="text-left">
+                  <div className="text-sm font-medium">{name}</div>
+                  {name !== id && <div className="text-xs text-gray-400">{id}</div>}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Quick Actions */}
       <div>
         <h2 className="text-lg font-medium text-gray-900 mb-4">Quick Actions</h2>
@@ -1,8 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { ChevronDown, ChevronUp, CheckCircle, AlertTriangle, XCircle, Globe, Server, Network } from 'lucide-react';
+import { ChevronDown, ChevronUp, CheckCircle, AlertTriangle, XCircle, Globe, Server, Network, BellRing } from 'lucide-react';
 import { ResourceCard } from './ResourceCard';
+import { AlarmList } from './AlarmList';
+import { HealthReasons } from './HealthReasons';
 import { ResourceDependencyGraph } from './ResourceDependencyGraph';
 import { ResourceGroup as ResourceGroupType, HealthStatus, RegionGroup, ResourceRelationship, AWSResource } from '../types/aws';
+import { fetchValidated } from '../api/client';
+import { relationshipsResponseSchema } from '../../shared/apiContract.js';
 
 interface ResourceGroupProps {
   group: ResourceGroupType;
@@ -41,21 +45,18 @@ const healthStatusConfig: Record<HealthStatus, {
   },
 };
 
-const RegionSection: React.FC<RegionSectionProps> = ({ region, isExpanded, onToggle }) => {
-  const calculateHealthStatus = (resources: RegionGroup['resources']): HealthStatus => {
-    const totalResources = resources.length;
-    const runningResources = resources.filter(r => r.status === 'running').length;
-    const stoppedResources = resources.filter(r => r.status === 'stopped').length;
-    
-    if (runningResources === totalResources) {
-      return 'healthy';
-    } else if (stoppedResources === totalResources) {
-      return 'error';
-    }
-    return 'warning';
-  };
+const healthSeverity: HealthStatus[] = ['healthy', 'warning', 'error'];
 
-  const healthStatus = calculateHealthStatus(region.resources);
+// The worst health among resources, as decided by the server's health rules
+function worstHealth(resources: AWSResource[]): HealthStatus {
+  return resources.reduce<HealthStatus>((worst, resource) => {
+    const status = resource.health?.status || 'healthy';
+    return healthSeverity.indexOf(status) > healthSeverity.indexOf(worst) ? status : worst;
+  }, 'healthy');
+}
+
+const RegionSection: React.FC<RegionSectionProps> = ({ region, isExpanded, onToggle }) => {
+  const healthStatus = worstHealth(region.resources);
   const { icon: HealthIcon, label: healthLabel, className: healthClassName, bgClass: healthBgClass } = healthStatusConfig[healthStatus];
 
   const resourceCounts = region.resources.reduce((acc, resource) => {
@@ -76,6 +77,9 @@ const RegionSection: React.FC<RegionSectionProps> = ({ region, isExpanded, onTog
               <h3 className="text-lg font-medium text-gray-900">
                 {region.region}
               </h3>
+              <span className="text-sm text-gray-500">
+                {region.accountName || region.accountId}
+              </span>
               <span className={`text-sm px-2 py-0.5 rounded-full border ${healthBgClass}`}>
                 {healthLabel}
               </span>
@@ -137,13 +141,22 @@ export const ResourceGroup: React.FC<ResourceGroupProps> = ({ group, allResource
   const [showDependencyView, setShowDependencyView] = useState(false);
   const [relationships, setRelationships] = useState<ResourceRelationship[]>([]);
   const [loadingRelationships, setLoadingRelationships] = useState(false);
+  const [relationshipsError, setRelationshipsError] = useState<string | null>(null);
   const [showExternalResources, setShowExternalResources] = useState(true);
+  const [showAlarms, setShowAlarms] = useState(false);
   
   // Get all resources in this application group
   const appResources = React.useMemo(() => {
     return group.regions.flatMap(region => region.resources);
   }, [group]);
   
+  const appAlarms = React.useMemo(() => {
+    return appResources.flatMap(resource =>
+      (resource.alarms || []).map(alarm => ({ alarm, resourceName: resource.name }))
+    );
+  }, [appResources]);
+  const firingAlarmCount = appAlarms.filter(({ alarm }) => alarm.state === 'ALARM').length;
+  
   // Fetch relationships when dependency view is shown
   useEffect(() => {
     if (showDependencyView && relationships.length === 0) {
@@ -154,56 +167,18 @@ export const ResourceGroup: React.FC<ResourceGroupProps> = ({ group, allResource
   const fetchRelationships = async () => {
     try {
       setLoadingRelationships(true);
+      setRelationshipsError(null);
       
       // Fetch relationships for this specific application
-      const response = await fetch(`/api/resource-relationships?application=${encodeURIComponent(group.application)}`);
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch resource relationships');
-      }
-      
-      try {
-        const data = await response.json();
-        console.log('API Response:', data);
-        
-        // Log the relationships data in more detail
-        if (data && Array.isArray(data.relationships)) {
-          console.log('Relationships from API:', JSON.stringify(data.relationships, null, 2));
-          setRelationships(data.relationships);
-        } else if (Array.isArray(data)) {
-          // If data is already an array, use it directly
-          console.log('Relationships from API (array):', JSON.stringify(data, null, 2));
-          setRelationships(data);
-        } else {
-          // Default to empty array if data is not in expected format
-          console.error('Unexpected data format:', data);
-          setRelationships([]);
-        }
-        
-        setLoadingRelationships(false);
-      } catch (parseError) {
-        console.error('Error parsing JSON response:', parseError);
-        // Try to handle malformed JSON by manually fixing common issues
-        try {
-          const text = await response.text();
-          console.log('Raw response:', text);
-          // Try to fix missing commas between properties
-          const fixedText = text.replace(/"\s*"/g, '","').replace(/\]\s*"/g, '],"').replace(/\}\s*"/g, '},"');
-          const fixedData = JSON.parse(fixedText);
-          
-          if (fixedData && Array.isArray(fixedData.relationships)) {
-            setRelationships(fixedData.relationships);
-          } else {
-            setRelationships([]);
-          }
-        } catch (fallbackError) {
-          console.error('Failed to parse response even after fixing:', fallbackError);
-          setRelationships([]);
-        }
-        setLoadingRelationships(false);
-      }
+      const data = await fetchValidated(
+        `/api/resource-relationships?application=${encodeURIComponent(group.application)}`,
+        relationshipsResponseSchema
+      );
+      setRelationships(data.relationships);
     } catch (error) {
       console.error('Error fetching relationships:', error);
+      setRelationshipsError(error instanceof Error ? error.message : 'Failed to fetch resource relationships');
+    } finally {
       setLoadingRelationships(false);
     }
   };
@@ -220,22 +195,13 @@ export const ResourceGroup: React.FC<ResourceGroupProps> = ({ group, allResource
     });
   };
 
-  const calculateOverallHealth = (regions: RegionGroup[]): HealthStatus => {
-    const hasError = regions.some(region => 
-      region.resources.some(resource => resource.status === 'stopped')
-    );
-    const hasWarning = regions.some(region =>
-      region.resources.some(resource => resource.status === 'pending')
-    );
-    if (hasError) return 'error';
-    if (hasWarning) return 'warning';
-    return 'healthy';
-  };
-
-  const healthStatus = calculateOverallHealth(group.regions);
+  // Application rules can make an application less healthy than its resources
+  const healthStatus = group.health?.status || worstHealth(appResources);
   const { icon: HealthIcon, label: healthLabel, className: healthClassName, bgClass: healthBgClass } = healthStatusConfig[healthStatus];
 
   const totalResources = group.regions.reduce((sum, region) => sum + region.resources.length, 0);
+  const accountCount = new Set(group.regions.map(region => region.accountId)).size;
+  const regionCount = new Set(group.regions.map(region => region.region)).size;
   
   // Get external resources that have relationships with this application's resources
   const externalResources = React.useMemo(() => {
@@ -275,15 +241,37 @@ export const ResourceGroup: React.FC<ResourceGroupProps> = ({ group, allResource
               </span>
             </div>
             <div className="flex items-center space-x-3 mt-1 text-sm text-gray-500">
-              <span>{group.regions.length} {group.regions.length === 1 ? 'region' : 'regions'}</span>
+              <span>{accountCount} {accountCount === 1 ? 'account' : 'accounts'}</span>
+              <span>•</span>
+              <span>{regionCount} {regionCount === 1 ? 'region' : 'regions'}</span>
               <span>•</span>
               <span>{totalResources} {totalResources === 1 ? 'resource' : 'resources'}</span>
             </div>
+            {group.health && group.health.reasons.length > 0 && (
+              <div className="mt-2 max-h-32 overflow-y-auto">
+                <HealthReasons reasons={group.health.reasons} />
+              </div>
+            )}
           </div>
         </div>
         
         {/* Add dependency view toggle */}
-        <div className="flex justify-end mt-2">
+        <div className="flex justify-end space-x-4 mt-2">
+          {appAlarms.length > 0 && (
+            <button
+              onClick={() => setShowAlarms(!showAlarms)}
+              className={`flex items-center space-x-1 text-sm ${
+                firingAlarmCount > 0 ? 'text-red-600 hover:text-red-800' : 'text-gray-600 hover:text-gray-800'
+              }`}
+            >
+              <BellRing className="w-4 h-4" />
+              <span>
+                {firingAlarmCount > 0
+                  ? `${firingAlarmCount} of ${appAlarms.length} alarms firing`
+                  : `${appAlarms.length} ${appAlarms.length === 1 ? 'alarm' : 'alarms'}`}
+              </span>
+            </button>
+          )}
           <button
             onClick={() => setShowDependencyView(!showDependencyView)}
             className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-800"
@@ -294,6 +282,16 @@ export const ResourceGroup: React.FC<ResourceGroupProps> = ({ group, allResource
         </div>
       </div>
       
+      {/* Alarm Panel */}
+      {showAlarms && appAlarms.length > 0 && (
+        <div className="px-6 pb-6 border-t border-gray-100 pt-4">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Alarms</h3>
+          <div className="max-h-80 overflow-y-auto">
+            <AlarmList items={appAlarms} />
+          </div>
+        </div>
+      )}
+      
       {/* Dependency View Section */}
       {showDependencyView && (
         <div className="px-6 pb-6 border-t border-gray-100 pt-4">
@@ -314,6 +312,10 @@ export const ResourceGroup: React.FC<ResourceGroupProps> = ({ group, allResource
             <div className="flex items-center justify-center h-64">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
             </div>
+          ) : relationshipsError ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-700 whitespace-pre-line">
+              {relationshipsError}
+            </div>
           ) : (
             <ResourceDependencyGraph 
               resources={appResources}
@@ -327,14 +329,17 @@ export const ResourceGroup: React.FC<ResourceGroupProps> = ({ group, allResource
       
       <div className="px-6 pb-6">
         <div className="flex flex-col md:flex-row gap-4">
-          {group.regions.map((region) => (
-            <RegionSection
-              key={region.region}
-              region={region}
-              isExpanded={expandedRegions.has(region.region)}
-              onToggle={() => toggleRegion(region.region)}
-            />
-          ))}
+          {group.regions.map((region) => {
+            const regionKey = `${region.accountId}:${region.region}`;
+            return (
+              <RegionSection
+                key={regionKey}
+                region={region}
+                isExpanded={expandedRegions.has(regionKey)}
+                onToggle={() => toggleRegion(regionKey)}
+              />
+            );
+          })}
         </div>
       </div>
     </div>
@@ -0,0 +1,105 @@
+import React from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { WorkflowState } from '../types/aws';
+
+const stateTypeColors: Record<string, string> = {
+  Task: 'bg-blue-100 text-blue-700',
+  Choice: 'bg-purple-100 text-purple-700',
+  Parallel: 'bg-indigo-100 text-indigo-700',
+  Map: 'bg-indigo-100 text-indigo-700',
+  Wait: 'bg-yellow-100 text-yellow-700',
+  Pass: 'bg-gray-100 text-gray-700',
+  Succeed: 'bg-green-100 text-green-700',
+  Fail: 'bg-red-100 text-red-700',
+};
+
+// States of one scope (the top level, a Parallel branch or a Map iterator) in
+// the order they're reached from the scope's start state. States no transition
+// reaches are listed last.
+function orderScope(states: WorkflowState[], startAt: string) {
+  const byName = new Map(states.map(state => [state.name, state]));
+  const ordered: WorkflowState[] = [];
+  const visited = new Set<string>();
+  const queue = [startAt];
+
+  while (queue.length > 0) {
+    const state = byName.get(queue.shift()!);
+    if (!state || visited.has(state.name)) continue;
+    visited.add(state.name);
+    ordered.push(state);
+    queue.push(...state.next, ...state.catch);
+  }
+
+  return [...ordered, ...states.filter(state => !visited.has(state.name))];
+}
+
+interface FlowScopeProps {
+  states: WorkflowState[];
+  startAt: string;
+  parent?: string;
+  branch?: number;
+}
+
+const FlowScope: React.FC<FlowScopeProps> = ({ states, startAt, parent, branch }) => {
+  const scopeStates = states.filter(state => state.parent === parent && state.branch === branch);
+
+  return (
+    <ol className="space-y-1">
+      {orderScope(scopeStates, startAt).map(state => (
+        <li key={state.name}>
+          <div className="flex items-center text-xs">
+            <span className={`px-1.5 py-0.5 rounded mr-2 flex-shrink-0 ${stateTypeColors[state.type] || 'bg-gray-100 text-gray-700'}`}>
+              {state.type}
+            </span>
+            <span className="text-gray-900 font-medium truncate" title={state.name}>{state.name}</span>
+            {state.integration && (
+              <span className="text-gray-500 truncate ml-2" title={state.integration.target}>
+                {state.integration.service}:{state.integration.action}
+                {state.integration.target && ` · ${state.integration.target.split(/[:/]/).pop()}`}
+              </span>
+            )}
+          </div>
+          <div className="ml-2 pl-2 text-xs text-gray-500">
+            {state.next.length > 0 && <div>→ {state.next.join(' | ')}</div>}
+            {state.catch.length > 0 && <div className="text-red-600">on error → {state.catch.join(' | ')}</div>}
+            {state.end && state.next.length === 0 && <div>end</div>}
+          </div>
+          {state.branches?.map((branchStart, index) => (
+            <div key={`${state.name}-${index}`} className="ml-2 mt-1 pl-2 border-l-2 border-indigo-100">
+              <FlowScope states={states} startAt={branchStart} parent={state.name} branch={index} />
+            </div>
+          ))}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+interface StateMachineFlowProps {
+  workflow: {
+    startAt: string;
+    states: WorkflowState[];
+  };
+}
+
+export const StateMachineFlow: React.FC<StateMachineFlowProps> = ({ workflow }) => {
+  const [expanded, setExpanded] = React.useState(false);
+  const Chevron = expanded ? ChevronDown : ChevronRight;
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center text-gray-500 hover:text-gray-700"
+      >
+        <Chevron className="w-4 h-4 mr-1" />
+        Flow ({workflow.states.length} states)
+      </button>
+      {expanded && (
+        <div className="mt-2 p-2 bg-gray-50 rounded max-h-64 overflow-y-auto">
+          <FlowScope states={workflow.states} startAt={workflow.startAt} />
+        </div>
+      )}
+    </div>
+  );
+};
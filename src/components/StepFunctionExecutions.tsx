@@ -0,0 +1,318 @@
+import React from 'react';
+import { ChevronDown, ChevronRight, AlertTriangle, Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+import { fetchValidated } from '../api/client';
+import {
+  executionsResponseSchema,
+  executionHistoryResponseSchema,
+  executionStatusSchema
+} from '../../shared/apiContract.js';
+import { AWSResource, Execution, ExecutionHistory, ExecutionStatus, ExecutionsResponse } from '../types/aws';
+import { ActionDialog } from './ResourceActions';
+
+// How far back executions are listed, by label
+const TIME_RANGES: Record<string, number | null> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  all: null
+};
+
+const statusColors: Record<ExecutionStatus, string> = {
+  RUNNING: 'text-blue-600',
+  SUCCEEDED: 'text-green-600',
+  FAILED: 'text-red-600',
+  TIMED_OUT: 'text-red-600',
+  ABORTED: 'text-gray-500',
+  PENDING_REDRIVE: 'text-yellow-600'
+};
+
+function formatDuration(ms: number) {
+  if (ms < 1000) return `${ms} ms`;
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+}
+
+function getDuration(execution: Execution) {
+  if (!execution.startDate) return undefined;
+  const end = execution.stopDate ? new Date(execution.stopDate) : new Date();
+  return formatDuration(end.getTime() - new Date(execution.startDate).getTime());
+}
+
+interface ExecutionDetailsProps {
+  resource: AWSResource;
+  history: ExecutionHistory;
+  onRedriven: () => void;
+}
+
+// Where an execution failed, its input and output, and its event history
+const ExecutionDetails: React.FC<ExecutionDetailsProps> = ({ resource, history, onRedriven }) => {
+  const [redriving, setRedriving] = React.useState(false);
+  const { execution, failure, events } = history;
+  const redriveAction = resource.actions?.find(action => action.name === 'redrive-execution');
+
+  return (
+    <div className="mt-1 ml-4 space-y-2">
+      {failure && (
+        <div className="flex items-start p-2 bg-red-50 border border-red-200 rounded text-red-700">
+          <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+          <div className="min-w-0">
+            <div>
+              Failed{failure.stateName && <> in <span className="font-medium">{failure.stateName}</span></>}
+              {failure.error && <>: <span className="font-mono">{failure.error}</span></>}
+            </div>
+            {failure.cause && (
+              <pre className="mt-1 max-h-32 overflow-auto whitespace-pre-wrap break-all font-mono">{failure.cause}</pre>
+            )}
+          </div>
+        </div>
+      )}
+
+      {redriveAction && execution.redriveStatus === 'REDRIVABLE' && (
+        <button
+          onClick={() => setRedriving(true)}
+          className="flex items-center px-2 py-1 rounded border border-gray-300 text-gray-700 bg-white hover:bg-gray-50"
+        >
+          <RotateCcw className="w-3 h-3 mr-1" />
+          {redriveAction.label}
+        </button>
+      )}
+      {!redriveAction && execution.redriveStatus === 'REDRIVABLE' && (
+        <div className="text-gray-500">Redrivable, but actions are turned off in the dashboard config</div>
+      )}
+      {failure && execution.redriveStatus && execution.redriveStatus !== 'REDRIVABLE' && execution.redriveStatusReason && (
+        <div className="text-gray-500">Can't redrive: {execution.redriveStatusReason}</div>
+      )}
+      {redriving && redriveAction && (
+        <ActionDialog
+          resource={resource}
+          action={redriveAction}
+          fixedParams={{ executionArn: execution.executionArn }}
+          subject={`Execution ${execution.name}`}
+          onRun={onRedriven}
+          onClose={() => setRedriving(false)}
+        />
+      )}
+
+      {execution.input && (
+        <details>
+          <summary className="cursor-pointer text-gray-500">Input</summary>
+          <pre className="mt-1 p-1.5 max-h-32 overflow-auto bg-gray-50 rounded whitespace-pre-wrap break-all font-mono">{execution.input}</pre>
+        </details>
+      )}
+      {execution.output && (
+        <details>
+          <summary className="cursor-pointer text-gray-500">Output</summary>
+          <pre className="mt-1 p-1.5 max-h-32 overflow-auto bg-gray-50 rounded whitespace-pre-wrap break-all font-mono">{execution.output}</pre>
+        </details>
+      )}
+
+      <div>
+        <div className="text-gray-500 mb-1">
+          Events ({events.length}{history.truncated && ', most recent only'}):
+        </div>
+        <ul className="max-h-64 overflow-y-auto space-y-0.5">
+          {events.map(event => (
+            <li key={event.id} className={event.error ? 'text-red-700' : 'text-gray-700'}>
+              <span className="text-gray-400">
+                {event.timestamp && new Date(event.timestamp).toLocaleTimeString()}{' '}
+              </span>
+              {event.type}
+              {event.stateName && <span className="text-gray-500"> · {event.stateName}</span>}
+              {event.error && (
+                <span className="font-mono" title={event.cause}> · {event.error}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+interface ExecutionRowProps {
+  resource: AWSResource;
+  execution: Execution;
+  onRedriven: () => void;
+}
+
+// An execution, with its history fetched when first expanded
+const ExecutionRow: React.FC<ExecutionRowProps> = ({ resource, execution, onRedriven }) => {
+  const [expanded, setExpanded] = React.useState(false);
+  const [history, setHistory] = React.useState<ExecutionHistory | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const fetchHistory = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setHistory(await fetchValidated(
+        `/api/resources/${encodeURIComponent(resource.id)}/executions/${encodeURIComponent(execution.executionArn)}`,
+        executionHistoryResponseSchema
+      ));
+    } catch (err) {
+      console.error('Error fetching execution history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch execution history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = () => {
+    if (!expanded && !history && !loading) fetchHistory();
+    setExpanded(!expanded);
+  };
+
+  const Chevron = expanded ? ChevronDown : ChevronRight;
+
+  return (
+    <li className="text-xs border-b border-gray-100 pb-1 last:border-0">
+      <button onClick={toggle} className="flex items-center justify-between w-full text-left">
+        <span className="flex items-center min-w-0">
+          <Chevron className="w-3 h-3 mr-1 flex-shrink-0 text-gray-400" />
+          <span className="text-gray-900 font-mono truncate" title={execution.executionArn}>{execution.name}</span>
+        </span>
+        <span className="ml-2 flex-shrink-0 text-gray-500">
+          <span className={statusColors[execution.status]}>{execution.status.toLowerCase().replace('_', ' ')}</span>
+          {execution.startDate && ` · ${new Date(execution.startDate).toLocaleString()}`}
+          {getDuration(execution) && ` · ${getDuration(execution)}`}
+          {!!execution.redriveCount && ` · redriven ${execution.redriveCount}×`}
+        </span>
+      </button>
+
+      {expanded && (
+        <>
+          {error && <div className="mt-1 p-2 bg-red-50 text-red-700 text-xs rounded">{error}</div>}
+          {loading && !history && <div className="mt-1 ml-4 text-gray-500">Loading history...</div>}
+          {history && <ExecutionDetails resource={resource} history={history} onRedriven={onRedriven} />}
+        </>
+      )}
+    </li>
+  );
+};
+
+interface StepFunctionExecutionsProps {
+  resource: AWSResource;
+}
+
+// Executions of a state machine, filtered by status and start time, with the
+// history of each one. Fetched when first expanded.
+export const StepFunctionExecutions: React.FC<StepFunctionExecutionsProps> = ({ resource }) => {
+  const [expanded, setExpanded] = React.useState(false);
+  const [status, setStatus] = React.useState<ExecutionStatus | ''>('');
+  const [timeRange, setTimeRange] = React.useState('24h');
+  const [data, setData] = React.useState<ExecutionsResponse | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const fetchExecutions = React.useCallback(async () => {
+    const params = new URLSearchParams();
+    if (status) params.set('status', status);
+    const rangeMs = TIME_RANGES[timeRange];
+    if (rangeMs) params.set('from', new Date(Date.now() - rangeMs).toISOString());
+
+    try {
+      setLoading(true);
+      setError(null);
+      setData(await fetchValidated(
+        `/api/resources/${encodeURIComponent(resource.id)}/executions?${params}`,
+        executionsResponseSchema
+      ));
+    } catch (err) {
+      console.error('Error fetching executions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch executions');
+    } finally {
+      setLoading(false);
+    }
+  }, [resource.id, status, timeRange]);
+
+  React.useEffect(() => {
+    if (expanded) fetchExecutions();
+  }, [expanded, fetchExecutions]);
+
+  // The server only offers execution actions when actions are enabled
+  const actionsEnabled = !!resource.actions?.some(action => action.name === 'start-execution');
+  const Chevron = expanded ? ChevronDown : ChevronRight;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <button onClick={() => setExpanded(!expanded)} className="flex items-center text-gray-500 hover:text-gray-700">
+          <Chevron className="w-4 h-4 mr-1" />
+          Execution Explorer
+        </button>
+        {expanded && (
+          <button
+            onClick={fetchExecutions}
+            disabled={loading}
+            className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            title="Reload executions"
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-2 space-y-2">
+          <div className="flex items-center space-x-3 text-xs">
+            <select
+              value={status}
+              onChange={event => setStatus(event.target.value as ExecutionStatus | '')}
+              className="text-xs text-gray-600 bg-transparent border-none p-0 focus:ring-0"
+            >
+              <option value="">All statuses</option>
+              {executionStatusSchema.options.map(option => (
+                <option key={option} value={option}>{option.toLowerCase().replace('_', ' ')}</option>
+              ))}
+            </select>
+            <select
+              value={timeRange}
+              onChange={event => setTimeRange(event.target.value)}
+              className="text-xs text-gray-600 bg-transparent border-none p-0 focus:ring-0"
+            >
+              {Object.keys(TIME_RANGES).map(range => (
+                <option key={range} value={range}>{range === 'all' ? 'Any time' : `Last ${range}`}</option>
+              ))}
+            </select>
+          </div>
+
+          {!actionsEnabled && (
+            <div className="text-xs text-gray-400">
+              Starting and redriving executions needs <span className="font-mono">actions.enabled</span> in the dashboard config
+            </div>
+          )}
+          {error && (
+            <div className="p-2 bg-red-50 text-red-700 text-xs rounded">{error}</div>
+          )}
+          {loading && !data && (
+            <div className="text-xs text-gray-500">Loading executions...</div>
+          )}
+
+          {data && (
+            data.executions.length === 0 ? (
+              <div className="text-xs text-gray-500">No executions match</div>
+            ) : (
+              <ul className="space-y-1 max-h-96 overflow-y-auto">
+                {data.executions.map(execution => (
+                  <ExecutionRow
+                    key={execution.executionArn}
+                    resource={resource}
+                    execution={execution}
+                    onRedriven={fetchExecutions}
+                  />
+                ))}
+              </ul>
+            )
+          )}
+          {data?.truncated && (
+            <div className="text-xs text-gray-400">Showing the {data.executions.length} most recent executions</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
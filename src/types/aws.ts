@@ -1,113 +1,99 @@
-export type AWSResourceType = 
-  | 'ecs' 
-  | 'aurora' 
-  | 'aurora-instance'
-  | 'lambda' 
-  | 'ec2' 
-  | 'stepfunctions' 
-  | 'apigateway' 
-  | 'eventbridge' 
-  | 'alb' 
-  | 'nlb';
-
-export interface AWSResource {
-  id: string;
-  name: string;
-  type: AWSResourceType;
-  status: 'running' | 'stopped' | 'pending' | 'terminated';
-  application: string;
-  region: string;
-  tags: Record<string, string>;
-  lastUpdated: string;
-  securityGroups?: string[];
-  clusterId?: string; // For Aurora instances to reference their cluster
-  details?: {
-    // ECS specific
-    clusterName?: string;
-    runningCount?: number;
-    desiredCount?: number;
-    pendingCount?: number;
-    deploymentStatus?: string;
-    deploymentRolloutState?: string;
-    failureReason?: string;
-    events?: Array<{
-      id: string;
-      message: string;
-      createdAt: string;
-      level: 'INFO' | 'WARN' | 'ERROR';
-    }>;
-    
-    // EC2 specific
-    instanceType?: string;
-    publicIp?: string;
-    privateIp?: string;
-    
-    // Load Balancer specific
-    dnsName?: string;
-    scheme?: string;
-    availabilityZones?: string[];
-    
-    // Step Functions specific
-    executionsStarted?: number;
-    executionsFailed?: number;
-    executionsSucceeded?: number;
-    
-    // API Gateway specific
-    endpoint?: string;
-    stage?: string;
-    
-    // EventBridge specific
-    eventPattern?: string;
-    scheduleExpression?: string;
-  };
-}
+import { z } from 'zod';
+import {
+  resourceTypeSchema,
+  resourceSchema,
+  healthStatusSchema,
+  healthReasonSchema,
+  healthSchema,
+  alarmSchema,
+  resourceActionSchema,
+  workflowStateSchema,
+  apiRouteSchema,
+  inventoryMetadataSchema,
+  collectorErrorSchema,
+  resourcesResponseSchema,
+  relationshipTypeSchema,
+  securityGroupRuleSchema,
+  relationshipSchema,
+  relationshipsResponseSchema,
+  statusTransitionSchema,
+  inventoryDiffSchema,
+  ecsTaskSchema,
+  ecsServiceTasksResponseSchema,
+  metricPeriodSchema,
+  resourceMetricsResponseSchema,
+  executionStatusSchema,
+  executionSchema,
+  executionsResponseSchema,
+  executionHistoryEventSchema,
+  executionHistoryResponseSchema
+} from '../../shared/apiContract.js';
+
+// API types are inferred from the schemas shared with the server
+export type AWSResourceType = z.infer<typeof resourceTypeSchema>;
+
+export type AWSResource = z.infer<typeof resourceSchema>;
+
+export type WorkflowState = z.infer<typeof workflowStateSchema>;
+
+export type ApiRoute = z.infer<typeof apiRouteSchema>;
+
+export type InventoryMetadata = z.infer<typeof inventoryMetadataSchema>;
+
+export type CollectorError = z.infer<typeof collectorErrorSchema>;
+
+export type ResourcesResponse = z.infer<typeof resourcesResponseSchema>;
+
+export type StatusTransition = z.infer<typeof statusTransitionSchema>;
+
+export type InventoryDiff = z.infer<typeof inventoryDiffSchema>;
+
+export type EcsTask = z.infer<typeof ecsTaskSchema>;
+
+export type EcsServiceTasks = z.infer<typeof ecsServiceTasksResponseSchema>;
+
+export type MetricPeriod = z.infer<typeof metricPeriodSchema>;
+
+export type ResourceMetrics = z.infer<typeof resourceMetricsResponseSchema>;
+
+export type ExecutionStatus = z.infer<typeof executionStatusSchema>;
+
+export type Execution = z.infer<typeof executionSchema>;
+
+export type ExecutionsResponse = z.infer<typeof executionsResponseSchema>;
+
+export type ExecutionHistoryEvent = z.infer<typeof executionHistoryEventSchema>;
+
+export type ExecutionHistory = z.infer<typeof executionHistoryResponseSchema>;
 
 export interface RegionGroup {
   region: string;
+  accountId: string;
+  accountName?: string;
   resources: AWSResource[];
 }
 
 export interface ResourceGroup {
   application: string;
+  // Computed by the server's health rules
+  health?: Health;
   regions: RegionGroup[];
 }
 
-export type HealthStatus = 'healthy' | 'warning' | 'error';
-
-export type RelationshipType = 
-  | 'routes_to' 
-  | 'depends_on' 
-  | 'triggers' 
-  | 'connects_to' 
-  | 'part_of'
-  | 'instance_of';
-
-export interface SecurityGroupRule {
-  protocol: string;
-  fromPort?: number;
-  toPort?: number;
-  securityGroupId: string;
-  direction: 'inbound' | 'outbound';
-}
+export type HealthStatus = z.infer<typeof healthStatusSchema>;
 
-export interface ResourceRelationship {
-  sourceId: string;
-  targetId: string;
-  type: RelationshipType;
-  metadata?: {
-    protocol?: string;
-    port?: number | string;
-    eventType?: string;
-    method?: string;
-    path?: string;
-    accessType?: string;
-    targetId?: string;
-    stateType?: string;
-    securityGroups?: {
-      source: string[];
-      target: string[];
-      rules: SecurityGroupRule[];
-    };
-    [key: string]: any;
-  };
-}
+export type HealthReason = z.infer<typeof healthReasonSchema>;
+
+export type Health = z.infer<typeof healthSchema>;
+
+export type Alarm = z.infer<typeof alarmSchema>;
+
+export type ResourceAction = z.infer<typeof resourceActionSchema>;
+
+export type RelationshipType = z.infer<typeof relationshipTypeSchema>;
+
+export type SecurityGroupRule = z.infer<typeof securityGroupRuleSchema>;
+
+export type ResourceRelationship = z.infer<typeof relationshipSchema>;
+
+export type RelationshipsResponse = z.infer<typeof relationshipsResponseSchema>;